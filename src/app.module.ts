@@ -1,8 +1,13 @@
 import { Module } from '@nestjs/common'
 import { TenantsModule } from './tenants/tenants.module'
 import { ConfigModule } from '@nestjs/config'
+import { ScheduleModule } from '@nestjs/schedule'
 import { HandledRedisModule } from './lib/redis/redis.module'
 import { SimulationTestModule } from './simulation-test/simulation-test.module'
+import { SchedulerModule } from './scheduler/scheduler.module'
+import { MetricsModule } from './metrics/metrics.module'
+import { TracingModule } from './tracing/tracing.module'
+import { ReportsModule } from './reports/reports.module'
 import appConfig from './config/app.config'
 
 @Module({
@@ -12,9 +17,14 @@ import appConfig from './config/app.config'
       load: [appConfig],
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     TenantsModule,
     HandledRedisModule,
     SimulationTestModule,
+    SchedulerModule,
+    MetricsModule,
+    TracingModule,
+    ReportsModule,
   ],
   controllers: [],
   providers: [],
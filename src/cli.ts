@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import { NestFactory } from '@nestjs/core'
+import { AppModule } from './app.module'
+import { getLogLevels } from './config/logger.config'
+import { SimulationTestService } from './simulation-test/simulation-test.service'
+import { cliLogger, loadScenario, parseCliArgs, runScenario } from './cli/cli.runner'
+
+/**
+ * Headless entry point for CI: boots the Nest application context without HTTP, runs a scenario to
+ * completion and exits with a non-zero code when the test or its assertions fail.
+ *
+ * @returns {Promise<number>} - The process exit code.
+ */
+async function bootstrap(): Promise<number> {
+  let options: ReturnType<typeof parseCliArgs>
+  let scenario: Awaited<ReturnType<typeof loadScenario>>
+  try {
+    options = parseCliArgs(process.argv.slice(2))
+    scenario = await loadScenario(options.scenarioPath)
+  } catch (error) {
+    cliLogger.error(error.message)
+    return 2
+  }
+
+  let app: Awaited<ReturnType<typeof NestFactory.createApplicationContext>>
+  try {
+    app = await NestFactory.createApplicationContext(AppModule, { logger: getLogLevels() })
+  } catch (error) {
+    cliLogger.error(`Failed to start the application: ${error.message}`)
+    return 2
+  }
+
+  try {
+    const { exitCode } = await runScenario(app.get(SimulationTestService), scenario, options)
+    return exitCode
+  } catch (error) {
+    cliLogger.error(`Test run failed: ${error.message}`)
+    return 1
+  } finally {
+    await app.close()
+  }
+}
+
+bootstrap().then((exitCode) => process.exit(exitCode))
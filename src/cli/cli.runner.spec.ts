@@ -0,0 +1,152 @@
+import * as fs from 'fs'
+import { formatSummary, loadScenario, parseCliArgs, runScenario } from './cli.runner'
+
+jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
+
+describe('cli.runner', () => {
+  describe('parseCliArgs', () => {
+    it('should parse the run command', () => {
+      expect(parseCliArgs(['run', '--scenario', 'scenario.json'])).toEqual({
+        command: 'run',
+        scenarioPath: 'scenario.json',
+        writeReports: true,
+      })
+      expect(parseCliArgs(['run', '--scenario', 'scenario.json', '--no-reports']).writeReports).toBe(false)
+    })
+
+    it('should reject unknown commands, options and a missing scenario', () => {
+      expect(() => parseCliArgs(['start', '--scenario', 'scenario.json'])).toThrow('Usage: mediator-test run')
+      expect(() => parseCliArgs(['run'])).toThrow('Usage: mediator-test run')
+      expect(() => parseCliArgs(['run', '--scenario', 'a.json', '--verbose'])).toThrow('Unknown option --verbose')
+    })
+  })
+
+  describe('loadScenario', () => {
+    it('should list the validation errors of an invalid scenario', async () => {
+      jest
+        .spyOn(fs.promises, 'readFile')
+        .mockResolvedValueOnce(JSON.stringify({ numAgent: 2, nameAgent: 'Agent', assertions: { minDeliveryRatio: 2 } }))
+
+      await expect(loadScenario('scenario.json')).rejects.toThrow(
+        /testName: testName must be a string[\s\S]*assertions\.minDeliveryRatio/,
+      )
+    })
+    it('should load a versioned YAML scenario like the scenarios API', async () => {
+      jest
+        .spyOn(fs.promises, 'readFile')
+        .mockResolvedValueOnce(
+          [
+            'version: 1',
+            'name: Release gate',
+            'agents:',
+            '  count: 4',
+            'phases:',
+            '  - { name: load, type: send, durationMs: 10000, rate: 5 }',
+          ].join('\n'),
+        )
+
+      const loaded = await loadScenario('scenario.yaml')
+
+      expect(loaded.kind).toBe('scenario')
+      expect(loaded.kind === 'scenario' && loaded.scenario.phases).toHaveLength(1)
+    })
+
+    it('should list the errors of an invalid versioned scenario', async () => {
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValueOnce(
+        JSON.stringify({
+          version: 1,
+          name: 'Inconsistent',
+          agents: { count: 3 },
+          phases: [
+            { name: 'load', type: 'send', durationMs: 1000, rate: 1 },
+            { name: 'load', type: 'drain', durationMs: 1000 },
+          ],
+        }),
+      )
+
+      await expect(loadScenario('scenario.json')).rejects.toThrow(
+        'phases[1].name: phase name "load" is used more than once',
+      )
+    })
+  })
+
+  describe('runScenario', () => {
+    const scenario = {
+      kind: 'simulation' as const,
+      config: {
+        messagesPerConnection: 1,
+        timestampTestInterval: 1000,
+        numAgent: 2,
+        nameAgent: 'Agent',
+        testName: 'CI',
+      },
+    }
+
+    const createService = (testRecord: any) =>
+      ({
+        simulateTest: jest.fn().mockResolvedValue({ status: 'Simulation test is running', testId: 'test-uuid' }),
+        runScenario: jest.fn().mockResolvedValue({ status: 'Scenario is running', testId: 'test-uuid' }),
+        waitForCompletion: jest.fn().mockResolvedValue(testRecord),
+        generateReport: jest.fn().mockResolvedValue({ reportPath: '/reports/report-test-uuid.json' }),
+        generateConsolidatedReport: jest
+          .fn()
+          .mockResolvedValue({ reportPath: '/reports/report-test-uuid-consolidated.json' }),
+        calculateTotals: jest.fn().mockResolvedValue({ latency: { p50Ms: 10, p95Ms: 20, p99Ms: 30, maxMs: 40 } }),
+        calculateDelivery: jest.fn().mockResolvedValue({ attempted: 10, sent: 10, delivered: 10, deliveryRatio: 1 }),
+      }) as any
+
+    it('should exit with 0 when the test completes and its assertions pass', async () => {
+      const service = createService({
+        testId: 'test-uuid',
+        testName: 'CI',
+        status: 'completed',
+        verdict: { status: 'pass', results: [] },
+      })
+      const output: string[] = []
+
+      const result = await runScenario(service, scenario, {}, (message) => output.push(message))
+
+      expect(result.exitCode).toBe(0)
+      expect(result.reportPaths).toHaveLength(2)
+      expect(output.join('\n')).toContain('Verdict: PASS')
+    })
+
+    it('should exit with 1 when the verdict fails', async () => {
+      const service = createService({
+        testId: 'test-uuid',
+        testName: 'CI',
+        status: 'completed',
+        verdict: { status: 'fail', results: [], reason: 'Failed assertions: maxP95LatencyMs' },
+      })
+
+      const result = await runScenario(service, scenario, { writeReports: false }, () => undefined)
+
+      expect(result.exitCode).toBe(1)
+      expect(service.generateReport).not.toHaveBeenCalled()
+    })
+
+    it('should run a versioned scenario through the scenario runner', async () => {
+      const service = createService({ testId: 'test-uuid', testName: 'Gate', status: 'completed' })
+      const versioned = { version: 1, name: 'Gate', agents: { count: 2 }, phases: [] } as any
+
+      const result = await runScenario(service, { kind: 'scenario', scenario: versioned }, {}, () => undefined)
+
+      expect(service.runScenario).toHaveBeenCalledWith(versioned)
+      expect(service.simulateTest).not.toHaveBeenCalled()
+      expect(result.exitCode).toBe(0)
+    })
+  })
+
+  describe('formatSummary', () => {
+    it('should include the error of a failed run', () => {
+      const summary = formatSummary(
+        { testId: 'test-uuid', testName: 'CI', status: 'failed', error: 'Agent creation failed' },
+        {},
+        { attempted: 0 },
+      )
+
+      expect(summary).toContain('Test CI (test-uuid): failed')
+      expect(summary).toContain('Error: Agent creation failed')
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { Logger } from '@nestjs/common'
+import { plainToInstance } from 'class-transformer'
+import { validate } from 'class-validator'
+import * as fs from 'fs'
+import { ScenarioDto } from '../simulation-test/dto/scenario.dto'
+import { SimulateTestDto } from '../simulation-test/dto/simulate-test.dto'
+import { SimulationTestService } from '../simulation-test/simulation-test.service'
+import { parseScenarioDocument } from '../simulation-test/utils/scenario.util'
+import { formatValidationErrors, validateScenarioDocument } from '../simulation-test/utils/validation.util'
+
+export const CLI_USAGE = `Usage: mediator-test run --scenario <file.yaml|file.json> [--no-reports]
+
+Runs a scenario headlessly, writes its reports and prints a summary. The file is either a versioned
+multi-phase scenario (YAML or JSON) or the JSON body of POST /simulation-test.
+Exits with 0 when the test completes and its assertions pass, 1 when it fails, 2 on invalid usage.`
+
+export const cliLogger = new Logger('MediatorTestCli')
+
+export interface CliOptions {
+  command: string
+  scenarioPath: string
+  writeReports: boolean
+}
+
+/**
+ * Test run described by a scenario file: a versioned multi-phase scenario, or a single simulation.
+ */
+export type CliScenario = { kind: 'scenario'; scenario: ScenarioDto } | { kind: 'simulation'; config: SimulateTestDto }
+
+export interface CliRunResult {
+  exitCode: number
+  testId: string
+  testRecord: any
+  reportPaths: string[]
+}
+
+/**
+ * Parses the command line arguments of the CLI runner.
+ * @param argv - Arguments after the node executable and script path.
+ * @throws Error with the usage text if the arguments are invalid.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv
+  let scenarioPath: string
+  let writeReports = true
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--scenario') {
+      scenarioPath = rest[++i]
+    } else if (rest[i] === '--no-reports') {
+      writeReports = false
+    } else {
+      throw new Error(`Unknown option ${rest[i]}\n\n${CLI_USAGE}`)
+    }
+  }
+
+  if (command !== 'run' || !scenarioPath) {
+    throw new Error(CLI_USAGE)
+  }
+
+  return { command, scenarioPath, writeReports }
+}
+
+/**
+ * Reads a scenario file, YAML or JSON. Documents with a `version` are validated as multi-phase scenarios,
+ * like `POST /simulation-test/scenarios/run`; others as a simulation test configuration, like
+ * `POST /simulation-test`.
+ * @throws Error listing the validation errors if the scenario is invalid.
+ */
+export async function loadScenario(scenarioPath: string): Promise<CliScenario> {
+  let document: any
+  try {
+    document = parseScenarioDocument(await fs.promises.readFile(scenarioPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Invalid scenario ${scenarioPath}:\n  ${error.message}`)
+  }
+
+  if (document && typeof document === 'object' && 'version' in document) {
+    const { scenario, errors } = await validateScenarioDocument(document)
+    if (!scenario) {
+      throw new Error(`Invalid scenario ${scenarioPath}:\n  ${errors.join('\n  ')}`)
+    }
+    return { kind: 'scenario', scenario }
+  }
+
+  const config = plainToInstance(SimulateTestDto, document)
+  const errors = await validate(config, { whitelist: true, forbidNonWhitelisted: true })
+  if (errors.length) {
+    throw new Error(`Invalid scenario ${scenarioPath}:\n  ${formatValidationErrors(errors).join('\n  ')}`)
+  }
+  return { kind: 'simulation', config }
+}
+
+/**
+ * Formats the outcome of a test run for the console: status, throughput, latency, delivery and verdict.
+ */
+export function formatSummary(testRecord: any, totals: any, delivery: any): string {
+  const lines = [
+    `Test ${testRecord.testName} (${testRecord.testId}): ${testRecord.status}`,
+    `  Messages: ${delivery?.attempted ?? 0} attempted, ${delivery?.sent ?? 0} sent, ${delivery?.delivered ?? 0} delivered, ${delivery?.failedToSend ?? 0} failed to send`,
+    `  Delivery ratio: ${delivery?.deliveryRatio ?? 0}`,
+  ]
+
+  if (totals?.latency) {
+    const { p50Ms, p95Ms, p99Ms, maxMs } = totals.latency
+    lines.push(`  Latency: p50 ${p50Ms}ms, p95 ${p95Ms}ms, p99 ${p99Ms}ms, max ${maxMs}ms`)
+  }
+
+  if (testRecord.verdict) {
+    lines.push(`  Verdict: ${testRecord.verdict.status.toUpperCase()}`)
+    testRecord.verdict.results.forEach((result) => {
+      lines.push(
+        `    [${result.passed ? 'pass' : 'FAIL'}] ${result.assertion}: ${result.actual ?? 'n/a'} (threshold ${result.threshold})`,
+      )
+    })
+    if (testRecord.verdict.reason) {
+      lines.push(`    ${testRecord.verdict.reason}`)
+    }
+  }
+
+  if (testRecord.error) {
+    lines.push(`  Error: ${testRecord.error}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Runs a scenario to completion, writes its reports and prints a summary.
+ * @param service - Simulation service of the application context.
+ * @param scenario - Validated scenario (see {@link loadScenario}).
+ * @param options - Whether to write the report files.
+ * @param print - Output function (defaults to the CLI logger).
+ * @returns Exit code (0 on completion with passing assertions, 1 otherwise), test record and report paths.
+ */
+export async function runScenario(
+  service: SimulationTestService,
+  scenario: CliScenario,
+  options: { writeReports?: boolean } = {},
+  print: (message: string) => void = (message) => cliLogger.log(message),
+): Promise<CliRunResult> {
+  const { testId } =
+    scenario.kind === 'scenario'
+      ? await service.runScenario(scenario.scenario)
+      : await service.simulateTest(scenario.config)
+  print(`Started test ${testId}, waiting for completion...`)
+
+  const testRecord = await service.waitForCompletion(testId)
+  const reportPaths: string[] = []
+
+  if (options.writeReports ?? true) {
+    reportPaths.push((await service.generateReport(testId)).reportPath)
+    reportPaths.push((await service.generateConsolidatedReport(testId)).reportPath)
+  }
+
+  const totals = await service.calculateTotals(testId)
+  const delivery = testRecord.delivery ?? (await service.calculateDelivery(testId))
+  print(formatSummary(testRecord, totals, delivery))
+  reportPaths.forEach((reportPath) => print(`  Report: ${reportPath}`))
+
+  const passed = testRecord.status === 'completed' && (!testRecord.verdict || testRecord.verdict.status === 'pass')
+  return { exitCode: passed ? 0 : 1, testId, testRecord, reportPaths }
+}
@@ -59,4 +59,53 @@ export default registerAs('appConfig', () => ({
    * Directory where reports are stored.
    */
   reportsDir: process.env.REPORTS_DIR || `${process.cwd()}/reports`,
+
+  /**
+   * Retention of the stored reports: files older than `maxAgeDays` and all but the newest `maxCount` files are
+   * pruned periodically. Unset limits keep reports forever.
+   */
+  reportsRetention: {
+    maxAgeDays: parseFloat(process.env.REPORTS_RETENTION_DAYS) || undefined,
+    maxCount: process.env.REPORTS_RETENTION_COUNT ? parseInt(process.env.REPORTS_RETENTION_COUNT, 10) : undefined,
+  },
+
+  /**
+   * Upper bounds (ms) of the latency histogram buckets reported in test totals.
+   */
+  latencyHistogramBucketsMs: process.env.LATENCY_HISTOGRAM_BUCKETS_MS
+    ? process.env.LATENCY_HISTOGRAM_BUCKETS_MS.split(',')
+        .map((value) => parseInt(value.trim(), 10))
+        .filter((value) => !isNaN(value))
+    : [50, 100, 250, 500, 1000, 2500, 5000, 10000],
+
+  /**
+   * Default size (ms) of the buckets used for per-test throughput and latency timelines.
+   */
+  timelineBucketMs: parseInt(process.env.TIMELINE_BUCKET_MS, 10) || 1000,
+
+  /**
+   * Where OpenTelemetry spans of the message lifecycle are exported: `none` (default), `otlp` or `file`.
+   */
+  tracingExporter: process.env.TRACING_EXPORTER || 'none',
+
+  /**
+   * Base URL of the OTLP/HTTP collector used by the `otlp` tracing exporter.
+   */
+  otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318',
+
+  /**
+   * File the `file` tracing exporter appends spans to, one JSON object per line.
+   */
+  tracingFilePath: process.env.TRACING_FILE_PATH || `${process.cwd()}/traces/spans.jsonl`,
+
+  /**
+   * Default thresholds used to flag regressions when comparing two test runs.
+   */
+  regressionThresholds: {
+    latencyPct: process.env.REGRESSION_LATENCY_PCT ? parseFloat(process.env.REGRESSION_LATENCY_PCT) : 10,
+    deliveryRatioDrop: process.env.REGRESSION_DELIVERY_RATIO_DROP
+      ? parseFloat(process.env.REGRESSION_DELIVERY_RATIO_DROP)
+      : 0.01,
+    failuresPct: process.env.REGRESSION_FAILURES_PCT ? parseFloat(process.env.REGRESSION_FAILURES_PCT) : 10,
+  },
 }))
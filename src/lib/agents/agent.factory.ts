@@ -4,12 +4,20 @@ import { AskarModule } from '@credo-ts/askar'
 import { agentDependencies } from '@credo-ts/node'
 import { askar } from '@openwallet-foundation/askar-nodejs'
 
-import { ConnectionsModule, MediationRecipientModule, MediatorPickupStrategy } from '@credo-ts/core'
+import { ConnectionsModule, MediationRecipientModule } from '@credo-ts/core'
 import { AgentMessageSentEvent, AgentMessageProcessedEvent } from '@credo-ts/core'
 import { InjectRedis } from '@nestjs-modules/ioredis'
 import * as fs from 'fs'
 import Redis from 'ioredis'
 import { ConfigService } from '@nestjs/config'
+import {
+  AgentOptions,
+  DEFAULT_MEDIATOR_POLLING_INTERVAL_MS,
+  DEFAULT_PICKUP_STRATEGY,
+  isMediatorDid,
+} from './agent.options'
+import { MetricsService } from '../../metrics/metrics.service'
+import { TracingService } from '../../tracing/tracing.service'
 
 @Injectable()
 export class AgentFactory {
@@ -20,6 +28,8 @@ export class AgentFactory {
   constructor(
     @InjectRedis() private readonly redisClient: Redis,
     private configService: ConfigService,
+    private readonly metricsService: MetricsService,
+    private readonly tracingService: TracingService,
   ) {
     this.logger = new ConsoleLogger(LogLevel.debug)
     this.enableAgentLogs = this.configService.get<boolean>('appConfig.enableAgentLogs') ?? true
@@ -28,7 +38,14 @@ export class AgentFactory {
     }
   }
 
-  async createAgent(tenantId: string): Promise<Agent<any>> {
+  /**
+   * Creates, initializes and mediates an agent for a tenant.
+   * @param options - Optional pickup strategy and polling interval (PickUp V1/V2 polling) of the mediation recipient,
+   * and the mediator (DID or invitation URL) to use instead of the configured public DID.
+   */
+  async createAgent(tenantId: string, options: AgentOptions = {}): Promise<Agent<any>> {
+    const { pickupStrategy = DEFAULT_PICKUP_STRATEGY, pollingIntervalMs = DEFAULT_MEDIATOR_POLLING_INTERVAL_MS } =
+      options
     const logStream = this.enableAgentLogs
       ? fs.createWriteStream(`${this.logDir}/agent_log_${tenantId}.txt`, { flags: 'w' })
       : null
@@ -38,8 +55,8 @@ export class AgentFactory {
       }
     }
 
-    this.logger.info(`Creating agent for tenant: ${tenantId}`)
-    logWrite(`Creating agent for tenant: ${tenantId}`)
+    this.logger.info(`Creating agent for tenant: ${tenantId} (pickup: ${pickupStrategy})`)
+    logWrite(`Creating agent for tenant: ${tenantId} (pickup: ${pickupStrategy}, polling: ${pollingIntervalMs}ms)`)
 
     const agentConfig = {
       label: tenantId,
@@ -54,7 +71,8 @@ export class AgentFactory {
         modules: {
           askar: new AskarModule({ ariesAskar: askar }),
           mediationRecipient: new MediationRecipientModule({
-            mediatorPickupStrategy: MediatorPickupStrategy.PickUpV2LiveMode,
+            mediatorPickupStrategy: pickupStrategy,
+            mediatorPollingInterval: pollingIntervalMs,
           }),
           connections: new ConnectionsModule({ autoAcceptConnections: true }),
         },
@@ -69,7 +87,9 @@ export class AgentFactory {
       if (!(await agent.mediationRecipient.findDefaultMediator())) {
         this.logger.debug(`No default mediator found for tenant: ${tenantId}`)
         logWrite(`No default mediator found for tenant: ${tenantId}`)
-        await this.setupMediation(agent, tenantId, logWrite)
+        await this.tracingService.withSpan('mediation.setup', { 'tenant.id': tenantId }, () =>
+          this.setupMediation(agent, tenantId, logWrite, options.mediator),
+        )
       } else {
         this.logger.debug(`Mediation already set up for tenant: ${tenantId}`)
         logWrite(`Mediation already set up for tenant: ${tenantId}`)
@@ -88,8 +108,9 @@ export class AgentFactory {
     agent: Agent<any>,
     tenantId: string,
     logWrite: (message: string) => void,
+    mediator?: string,
   ): Promise<void> {
-    const publicDid = this.configService.get('appConfig.publicDid')
+    const publicDid = mediator || this.configService.get('appConfig.publicDid')
 
     if (!publicDid) {
       const error = new Error('Mediator DID URL is not configured')
@@ -102,11 +123,16 @@ export class AgentFactory {
     logWrite(`Setting up mediation for tenant: ${tenantId}`)
 
     try {
-      const { connectionRecord } = await agent.oob.receiveImplicitInvitation({
-        did: publicDid,
-        autoAcceptConnection: true,
-        autoAcceptInvitation: true,
-      })
+      const { connectionRecord } = isMediatorDid(publicDid)
+        ? await agent.oob.receiveImplicitInvitation({
+            did: publicDid,
+            autoAcceptConnection: true,
+            autoAcceptInvitation: true,
+          })
+        : await agent.oob.receiveInvitationFromUrl(publicDid, {
+            autoAcceptConnection: true,
+            autoAcceptInvitation: true,
+          })
 
       if (!connectionRecord) {
         throw new Error('Cannot create connection record')
@@ -143,6 +169,8 @@ export class AgentFactory {
       const threadId = data.payload.message.message.threadId
       this.logger.debug(`[AgentMessageSent] Tenant: ${tenantId}, ThreadId: ${threadId}`)
       logWrite(`[AgentMessageSent] Tenant: ${tenantId}, ThreadId: ${threadId}`)
+      // Emitted while the send span of the message is active: marks the hand-off to the outbound transport
+      this.tracingService.addEvent('message.outbound', { 'message.send_status': data.payload.status })
     })
 
     agent.events.on(AgentEventTypes.AgentMessageProcessed, async (data: AgentMessageProcessedEvent) => {
@@ -167,6 +195,11 @@ export class AgentFactory {
           // Update the message record
           messageRecord.processedTimestamp = processedTimestamp
           messageRecord.processingTimeMs = processedTime
+          if (messageRecord.intendedTimestamp) {
+            // Open-loop sends: latency from the planned send time, so sending delays are not hidden
+            messageRecord.correctedProcessingTimeMs =
+              new Date(processedTimestamp).getTime() - new Date(messageRecord.intendedTimestamp).getTime()
+          }
 
           await this.redisClient.set(messageKey, JSON.stringify(messageRecord))
 
@@ -174,8 +207,30 @@ export class AgentFactory {
             const statsKey = `test:${messageRecord.testId}:stats`
             await this.redisClient.hincrby(statsKey, 'totalMessages', 1)
             await this.redisClient.hincrby(statsKey, 'totalProcessingTimeMs', processedTime)
+            this.metricsService.recordProcessed(messageRecord.testId, processedTime)
           }
 
+          // Delivery span from the send until processing, split by the receipt event: before it the time went to
+          // the mediator (forwarding and pickup), after it to unpacking and processing
+          const receivedAt = data.payload.receivedAt
+          this.tracingService.recordSpan('message.deliver', {
+            startTime: new Date(messageRecord.timestamp),
+            endTime: new Date(processedTimestamp),
+            attributes: {
+              'test.id': messageRecord.testId ?? '',
+              'message.thread_id': threadId,
+              'message.from_tenant': messageRecord.fromTenantId,
+              'message.to_tenant': tenantId,
+            },
+            parent: messageRecord.traceId
+              ? { traceId: messageRecord.traceId, spanId: messageRecord.spanId }
+              : undefined,
+            events: [
+              ...(receivedAt ? [{ name: 'message.received', time: new Date(receivedAt) }] : []),
+              { name: 'message.processed', time: new Date(processedTimestamp) },
+            ],
+          })
+
           this.logger.info(
             `Message processed for Tenant: ${tenantId}, ThreadId: ${threadId}, Processing Time: ${processedTime}ms`,
           )
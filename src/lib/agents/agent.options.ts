@@ -0,0 +1,30 @@
+import { MediatorPickupStrategy } from '@credo-ts/core'
+
+/**
+ * Pickup strategies a simulated agent can use to retrieve messages from its mediator.
+ */
+export const PICKUP_STRATEGIES = [
+  MediatorPickupStrategy.PickUpV1,
+  MediatorPickupStrategy.PickUpV2,
+  MediatorPickupStrategy.PickUpV2LiveMode,
+  MediatorPickupStrategy.Implicit,
+] as const
+
+export const DEFAULT_PICKUP_STRATEGY = MediatorPickupStrategy.PickUpV2LiveMode
+
+export const DEFAULT_MEDIATOR_POLLING_INTERVAL_MS = 5000
+
+export interface AgentOptions {
+  pickupStrategy?: MediatorPickupStrategy
+  pollingIntervalMs?: number
+  /** Mediator DID or out-of-band invitation URL; defaults to `appConfig.publicDid`. */
+  mediator?: string
+}
+
+/**
+ * Returns true if a mediator reference is a DID (used as an implicit invitation) rather than an
+ * out-of-band invitation URL.
+ */
+export function isMediatorDid(mediator: string): boolean {
+  return mediator.startsWith('did:')
+}
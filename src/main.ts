@@ -5,6 +5,9 @@ import { Logger, ValidationPipe, VersioningType } from '@nestjs/common'
 import { getLogLevels } from './config/logger.config'
 import * as fs from 'fs'
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger'
+import { NestExpressApplication } from '@nestjs/platform-express'
+import { SchedulerService } from './scheduler/scheduler.service'
+import { ReportsService } from './reports/reports.service'
 
 /**
  * Bootstraps the NestJS application, setting up configurations, middleware, and documentation.
@@ -16,7 +19,7 @@ async function bootstrap(): Promise<void> {
   const logLevels = getLogLevels()
 
   // Create the NestJS application with custom logger levels
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: logLevels,
   })
 
@@ -28,6 +31,9 @@ async function bootstrap(): Promise<void> {
     type: VersioningType.URI,
   })
 
+  // Accept scenario documents posted as YAML text
+  app.useBodyParser('text', { type: ['application/yaml', 'application/x-yaml', 'text/yaml'] })
+
   //Validations DTO
   app.useGlobalPipes(
     new ValidationPipe({
@@ -48,6 +54,9 @@ async function bootstrap(): Promise<void> {
     .setVersion('1.1')
     .addTag('Simulation Test')
     .addTag('Tenants')
+    .addTag('Schedules')
+    .addTag('Metrics')
+    .addTag('Reports')
     .build()
   const document = SwaggerModule.createDocument(app, config)
   SwaggerModule.setup('api', app, document)
@@ -61,6 +70,12 @@ async function bootstrap(): Promise<void> {
   // Start the application and listen on the specified port
   await app.listen(PORT)
 
+  // Start the recurring tests stored in Redis (the headless CLI does not)
+  await app.get(SchedulerService).startSchedules()
+
+  // Prune the stored reports outside the configured retention, now and every hour
+  await app.get(ReportsService).startRetention()
+
   // Retrieve application name and version from package.json
   const packageJson = JSON.parse(fs.readFileSync('package.json', 'utf-8'))
   const appName = packageJson.name
@@ -81,6 +96,10 @@ async function bootstrap(): Promise<void> {
         agentCleanupDelayMs: configService.get('appConfig.agentCleanupDelayMs'),
         maxConcurrentAgentCreation: configService.get('appConfig.maxConcurrentAgentCreation'),
         reportsDir: configService.get('appConfig.reportsDir'),
+        reportsRetention: configService.get('appConfig.reportsRetention'),
+        latencyHistogramBucketsMs: configService.get('appConfig.latencyHistogramBucketsMs'),
+        timelineBucketMs: configService.get('appConfig.timelineBucketMs'),
+        regressionThresholds: configService.get('appConfig.regressionThresholds'),
       },
       null,
       2,
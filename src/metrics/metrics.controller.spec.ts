@@ -0,0 +1,48 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { MetricsController } from './metrics.controller'
+import { MetricsService } from './metrics.service'
+import { TenantsService } from '../tenants/tenants.service'
+
+jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
+
+describe('MetricsController', () => {
+  let controller: MetricsController
+  let metricsService: MetricsService
+
+  const mockResponse = () => ({
+    status: jest.fn().mockReturnThis(),
+    type: jest.fn().mockReturnThis(),
+    send: jest.fn(),
+    json: jest.fn(),
+  })
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MetricsController],
+      providers: [
+        {
+          provide: MetricsService,
+          useValue: {
+            contentType: 'text/plain; version=0.0.4; charset=utf-8',
+            getMetrics: jest.fn().mockResolvedValue('mediator_test_active_tests 0\n'),
+          },
+        },
+        { provide: TenantsService, useValue: { listLiveTenants: jest.fn().mockReturnValue(['Agent-1']) } },
+      ],
+    }).compile()
+
+    controller = module.get<MetricsController>(MetricsController)
+    metricsService = module.get<MetricsService>(MetricsService)
+  })
+
+  it('should render the metrics with the live tenants in the Prometheus format', async () => {
+    const res = mockResponse()
+
+    await controller.getMetrics(res as any)
+
+    expect(metricsService.getMetrics).toHaveBeenCalledWith(['Agent-1'])
+    expect(res.status).toHaveBeenCalledWith(200)
+    expect(res.type).toHaveBeenCalledWith('text/plain; version=0.0.4; charset=utf-8')
+    expect(res.send).toHaveBeenCalledWith('mediator_test_active_tests 0\n')
+  })
+})
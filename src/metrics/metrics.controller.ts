@@ -0,0 +1,30 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger'
+import { MetricsService } from './metrics.service'
+import { TenantsService } from '../tenants/tenants.service'
+
+@ApiTags('Metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly tenantsService: TenantsService,
+  ) {}
+
+  @ApiOperation({ summary: 'Get the metrics of the simulation tests in the Prometheus exposition format' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Metrics retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to collect metrics' })
+  @Get()
+  async getMetrics(@Res() res: any) {
+    try {
+      const metrics = await this.metricsService.getMetrics(this.tenantsService.listLiveTenants())
+      return res.status(HttpStatus.OK).type(this.metricsService.contentType).send(metrics)
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to collect metrics',
+        error: error.message,
+      })
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common'
+import { MetricsService } from './metrics.service'
+import { MetricsController } from './metrics.controller'
+import { TenantsModule } from 'src/tenants/tenants.module'
+
+/**
+ * Global so the agent factory and the simulation service can record metrics without importing it.
+ */
+@Global()
+@Module({
+  imports: [TenantsModule],
+  controllers: [MetricsController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,93 @@
+import { ConfigService } from '@nestjs/config'
+import { ENDED_TEST_RETENTION_MS, MetricsService } from './metrics.service'
+
+describe('MetricsService', () => {
+  let service: MetricsService
+
+  beforeEach(() => {
+    const configServiceMock = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string) => (key === 'appConfig.latencyHistogramBucketsMs' ? [100, 1000] : undefined)),
+    } as unknown as ConfigService
+    service = new MetricsService(configServiceMock)
+  })
+
+  it('should count messages by test with the test name', async () => {
+    service.startTest('test-1', 'Smoke')
+    service.recordSent('test-1')
+    service.recordSent('test-1')
+    service.recordFailed('test-1', 'timeout')
+    service.recordProcessed('test-1', 250)
+
+    const metrics = await service.getMetrics([])
+
+    expect(metrics).toContain('mediator_test_messages_sent_total{test_id="test-1",test_name="Smoke"} 2')
+    expect(metrics).toContain(
+      'mediator_test_messages_failed_total{test_id="test-1",test_name="Smoke",error_type="timeout"} 1',
+    )
+    expect(metrics).toContain('mediator_test_messages_processed_total{test_id="test-1",test_name="Smoke"} 1')
+  })
+
+  it('should observe latencies in seconds using the configured buckets', async () => {
+    service.startTest('test-1', 'Smoke')
+    service.recordProcessed('test-1', 250)
+
+    const metrics = await service.getMetrics([])
+
+    expect(metrics).toContain(
+      'mediator_test_message_latency_seconds_bucket{le="0.1",test_id="test-1",test_name="Smoke"} 0',
+    )
+    expect(metrics).toContain(
+      'mediator_test_message_latency_seconds_bucket{le="1",test_id="test-1",test_name="Smoke"} 1',
+    )
+    expect(metrics).toContain('mediator_test_message_latency_seconds_sum{test_id="test-1",test_name="Smoke"} 0.25')
+  })
+
+  it('should report the live tenants and connections of running tests only', async () => {
+    service.startTest('test-1', 'Smoke')
+    service.setTestAgents('test-1', ['Agent-1', 'Agent-2', 'Agent-3'])
+    service.setTestConnections('test-1', 3)
+    service.startTest('test-2', 'Soak')
+    service.endTest('test-2')
+
+    const metrics = await service.getMetrics(['Agent-1', 'Agent-3', 'Other-1'])
+
+    expect(metrics).toContain('mediator_test_active_tests{test_id="test-1",test_name="Smoke"} 1')
+    expect(metrics).toContain('mediator_test_live_tenants{test_id="test-1",test_name="Smoke"} 2')
+    expect(metrics).toContain('mediator_test_connections{test_id="test-1",test_name="Smoke"} 3')
+    expect(metrics).not.toContain('test_id="test-2"')
+  })
+
+  it('should remove the series of an ended test after the retention window', async () => {
+    jest.useFakeTimers()
+    try {
+      service.startTest('test-1', 'Smoke')
+      service.recordSent('test-1')
+      service.recordFailed('test-1', 'timeout')
+      service.recordProcessed('test-1', 250)
+      service.endTest('test-1')
+
+      expect(await service.getMetrics([])).toContain('test_id="test-1"')
+
+      jest.advanceTimersByTime(ENDED_TEST_RETENTION_MS)
+
+      expect(await service.getMetrics([])).not.toContain('test_id="test-1"')
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('should remove the series of a deleted test right away', async () => {
+    service.startTest('test-1', 'Smoke')
+    service.recordSent('test-1')
+    service.startTest('test-2', 'Soak')
+    service.recordSent('test-2')
+
+    service.removeTest('test-1')
+
+    const metrics = await service.getMetrics([])
+    expect(metrics).not.toContain('test_id="test-1"')
+    expect(metrics).toContain('mediator_test_messages_sent_total{test_id="test-2",test_name="Soak"} 1')
+  })
+})
@@ -0,0 +1,202 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Counter, Gauge, Histogram, Registry } from 'prom-client'
+
+const TEST_LABELS = ['test_id', 'test_name'] as const
+
+type TestLabel = (typeof TEST_LABELS)[number]
+
+/** Time the series of an ended test are kept, so the final values are scraped before they are removed. */
+export const ENDED_TEST_RETENTION_MS = 5 * 60 * 1000
+
+interface ActiveTest {
+  testName: string
+  agentIds: string[]
+  connections: number
+}
+
+/**
+ * Prometheus metrics of the simulation tests. Counters and the latency histogram are updated as messages
+ * are sent and processed; the per-test gauges are computed when the metrics are scraped. The series of a
+ * test are removed {@link ENDED_TEST_RETENTION_MS} after it ends, or when it is deleted.
+ */
+@Injectable()
+export class MetricsService implements OnModuleDestroy {
+  private readonly registry = new Registry()
+  private readonly activeTests = new Map<string, ActiveTest>()
+  /** Names of the tests seen since startup, so messages processed after a test ends keep its name. */
+  private readonly testNames = new Map<string, string>()
+  /** Error types counted for each test, to remove every failure series of a test. */
+  private readonly errorTypes = new Map<string, Set<string>>()
+  private readonly removalTimers = new Map<string, NodeJS.Timeout>()
+
+  private readonly messagesSent: Counter<TestLabel>
+  private readonly messagesProcessed: Counter<TestLabel>
+  private readonly messagesFailed: Counter<TestLabel | 'error_type'>
+  private readonly messageLatency: Histogram<TestLabel>
+  private readonly activeTestsGauge: Gauge<TestLabel>
+  private readonly liveTenantsGauge: Gauge<TestLabel>
+  private readonly connectionsGauge: Gauge<TestLabel>
+
+  constructor(private readonly configService: ConfigService) {
+    const latencyBucketsMs = this.configService.get<number[]>('appConfig.latencyHistogramBucketsMs') || [
+      50, 100, 250, 500, 1000, 2500, 5000, 10000,
+    ]
+
+    this.messagesSent = new Counter({
+      name: 'mediator_test_messages_sent_total',
+      help: 'Messages successfully sent through the mediator',
+      labelNames: TEST_LABELS,
+      registers: [this.registry],
+    })
+    this.messagesProcessed = new Counter({
+      name: 'mediator_test_messages_processed_total',
+      help: 'Messages processed by their recipient',
+      labelNames: TEST_LABELS,
+      registers: [this.registry],
+    })
+    this.messagesFailed = new Counter({
+      name: 'mediator_test_messages_failed_total',
+      help: 'Messages that could not be sent, by error type',
+      labelNames: [...TEST_LABELS, 'error_type'],
+      registers: [this.registry],
+    })
+    this.messageLatency = new Histogram({
+      name: 'mediator_test_message_latency_seconds',
+      help: 'Time from send until the recipient processed the message',
+      labelNames: TEST_LABELS,
+      buckets: latencyBucketsMs.map((bucketMs) => bucketMs / 1000),
+      registers: [this.registry],
+    })
+    this.activeTestsGauge = new Gauge({
+      name: 'mediator_test_active_tests',
+      help: 'Simulation tests currently running',
+      labelNames: TEST_LABELS,
+      registers: [this.registry],
+    })
+    this.liveTenantsGauge = new Gauge({
+      name: 'mediator_test_live_tenants',
+      help: 'Agents of a running test that are online (neither suspended nor disconnected)',
+      labelNames: TEST_LABELS,
+      registers: [this.registry],
+    })
+    this.connectionsGauge = new Gauge({
+      name: 'mediator_test_connections',
+      help: 'Connections established between the agents of a running test',
+      labelNames: TEST_LABELS,
+      registers: [this.registry],
+    })
+  }
+
+  onModuleDestroy(): void {
+    this.removalTimers.forEach((timer) => clearTimeout(timer))
+    this.removalTimers.clear()
+  }
+
+  get contentType(): string {
+    return this.registry.contentType
+  }
+
+  /**
+   * Starts reporting a running test in the gauges.
+   */
+  startTest(testId: string, testName: string): void {
+    this.testNames.set(testId, testName)
+    this.activeTests.set(testId, { testName, agentIds: [], connections: 0 })
+  }
+
+  /**
+   * Sets the agents of a running test, counted in the live tenants gauge while they are online.
+   */
+  setTestAgents(testId: string, agentIds: string[]): void {
+    const test = this.activeTests.get(testId)
+    if (test) {
+      test.agentIds = agentIds
+    }
+  }
+
+  setTestConnections(testId: string, established: number): void {
+    const test = this.activeTests.get(testId)
+    if (test) {
+      test.connections = established
+    }
+  }
+
+  /**
+   * Stops reporting a test in the gauges. Its counters and latency histogram are kept for
+   * {@link ENDED_TEST_RETENTION_MS}, then removed.
+   */
+  endTest(testId: string): void {
+    this.activeTests.delete(testId)
+
+    clearTimeout(this.removalTimers.get(testId))
+    const timer = setTimeout(() => this.removeTest(testId), ENDED_TEST_RETENTION_MS)
+    timer.unref()
+    this.removalTimers.set(testId, timer)
+  }
+
+  /**
+   * Removes every series of a test, e.g. once it is deleted.
+   */
+  removeTest(testId: string): void {
+    if (!this.testNames.has(testId)) {
+      return
+    }
+
+    const labels = this.labels(testId)
+    this.messagesSent.remove(labels)
+    this.messagesProcessed.remove(labels)
+    this.messageLatency.remove(labels)
+    this.errorTypes
+      .get(testId)
+      ?.forEach((errorType) => this.messagesFailed.remove({ ...labels, error_type: errorType }))
+
+    clearTimeout(this.removalTimers.get(testId))
+    this.removalTimers.delete(testId)
+    this.activeTests.delete(testId)
+    this.errorTypes.delete(testId)
+    this.testNames.delete(testId)
+  }
+
+  recordSent(testId: string): void {
+    this.messagesSent.inc(this.labels(testId))
+  }
+
+  recordFailed(testId: string, errorType: string): void {
+    if (!this.errorTypes.has(testId)) {
+      this.errorTypes.set(testId, new Set())
+    }
+    this.errorTypes.get(testId).add(errorType)
+    this.messagesFailed.inc({ ...this.labels(testId), error_type: errorType })
+  }
+
+  recordProcessed(testId: string, latencyMs: number): void {
+    const labels = this.labels(testId)
+    this.messagesProcessed.inc(labels)
+    this.messageLatency.observe(labels, latencyMs / 1000)
+  }
+
+  /**
+   * Renders all metrics in the Prometheus exposition format.
+   * @param liveTenantIds - Tenants currently online, see {@link TenantsService.listLiveTenants}.
+   */
+  async getMetrics(liveTenantIds: string[]): Promise<string> {
+    const live = new Set(liveTenantIds)
+
+    this.activeTestsGauge.reset()
+    this.liveTenantsGauge.reset()
+    this.connectionsGauge.reset()
+    for (const [testId, test] of this.activeTests) {
+      const labels = this.labels(testId)
+      this.activeTestsGauge.set(labels, 1)
+      this.liveTenantsGauge.set(labels, test.agentIds.filter((agentId) => live.has(agentId)).length)
+      this.connectionsGauge.set(labels, test.connections)
+    }
+
+    return this.registry.metrics()
+  }
+
+  private labels(testId: string): Record<TestLabel, string> {
+    return { test_id: testId, test_name: this.testNames.get(testId) ?? '' }
+  }
+}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ReportsController } from './reports.controller'
+import { ReportsService } from './reports.service'
+
+describe('ReportsController', () => {
+  let controller: ReportsController
+  let service: ReportsService
+
+  const mockResponse = () => ({
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn(),
+    download: jest.fn(),
+  })
+
+  beforeEach(async () => {
+    const serviceMock = {
+      listReports: jest.fn().mockResolvedValue([{ fileName: 'report-test-1.json' }]),
+      getReportPath: jest.fn().mockResolvedValue('/tmp/reports/report-test-1.json'),
+      deleteReport: jest.fn().mockRejectedValue(new Error('Report report-missing.json not found')),
+      deleteReportsByTestId: jest.fn().mockResolvedValue(['report-test-1.json']),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReportsController],
+      providers: [{ provide: ReportsService, useValue: serviceMock }],
+    }).compile()
+
+    controller = module.get<ReportsController>(ReportsController)
+    service = module.get<ReportsService>(ReportsService)
+  })
+
+  it('should list reports filtered by test and kind', async () => {
+    const res = mockResponse()
+
+    await controller.listReports(res as any, 'test-1', 'report')
+
+    expect(service.listReports).toHaveBeenCalledWith({ testId: 'test-1', kind: 'report' })
+    expect(res.json).toHaveBeenCalledWith({ status: 'success', reports: [{ fileName: 'report-test-1.json' }] })
+  })
+
+  it('should reject an unknown report kind', async () => {
+    const res = mockResponse()
+
+    await controller.listReports(res as any, undefined, 'pdf')
+
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.json).toHaveBeenCalledWith({ status: 'error', error: 'Unknown report kind "pdf"' })
+  })
+
+  it('should download a stored report', async () => {
+    const res = mockResponse()
+
+    await controller.getReport('report-test-1.json', res as any)
+
+    expect(res.download).toHaveBeenCalledWith('/tmp/reports/report-test-1.json', 'report-test-1.json')
+  })
+
+  it('should return 404 when deleting a missing report', async () => {
+    const res = mockResponse()
+
+    await controller.deleteReport('report-missing.json', res as any)
+
+    expect(res.status).toHaveBeenCalledWith(404)
+  })
+
+  it('should require a testId to delete the reports of a test', async () => {
+    const res = mockResponse()
+
+    await controller.deleteReports(res as any)
+    expect(res.status).toHaveBeenCalledWith(400)
+
+    await controller.deleteReports(res as any, 'test-1')
+    expect(res.json).toHaveBeenCalledWith({
+      status: 'Reports deleted',
+      testId: 'test-1',
+      deleted: ['report-test-1.json'],
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { Controller, Get, Delete, Param, Query, HttpStatus, Res } from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger'
+import { ReportsService } from './reports.service'
+import { REPORT_KINDS, ReportKind } from './utils/report-file.util'
+
+@ApiTags('Reports')
+@Controller('reports')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @ApiOperation({ summary: 'List the stored reports, newest first' })
+  @ApiQuery({ name: 'testId', required: false, description: 'Only reports of this test or comparison' })
+  @ApiQuery({ name: 'kind', required: false, enum: REPORT_KINDS, description: 'Only reports of this kind' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Reports retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Unknown report kind' })
+  @Get()
+  async listReports(@Res() res: any, @Query('testId') testId?: string, @Query('kind') kind?: string) {
+    if (kind && !REPORT_KINDS.includes(kind as ReportKind)) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: `Unknown report kind "${kind}"` })
+    }
+
+    try {
+      const reports = await this.reportsService.listReports({ testId, kind: kind as ReportKind })
+      return res.status(HttpStatus.OK).json({ status: 'success', reports })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch reports',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Download a stored report without regenerating it' })
+  @ApiParam({ name: 'fileName', description: 'File name of the report', example: 'report-test-uuid.json' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Report downloaded successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Report not found' })
+  @Get(':fileName')
+  async getReport(@Param('fileName') fileName: string, @Res() res: any) {
+    try {
+      const reportPath = await this.reportsService.getReportPath(fileName)
+      return res.status(HttpStatus.OK).download(reportPath, fileName)
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Delete every stored report of a test or comparison' })
+  @ApiQuery({ name: 'testId', required: true, description: 'ID of the test or comparison' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Reports deleted successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Missing testId' })
+  @Delete()
+  async deleteReports(@Res() res: any, @Query('testId') testId?: string) {
+    if (!testId) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: 'testId is required' })
+    }
+
+    try {
+      const deleted = await this.reportsService.deleteReportsByTestId(testId)
+      return res.status(HttpStatus.OK).json({ status: 'Reports deleted', testId, deleted })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to delete reports',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Delete a stored report' })
+  @ApiParam({ name: 'fileName', description: 'File name of the report', example: 'report-test-uuid.json' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Report deleted successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Report not found' })
+  @Delete(':fileName')
+  async deleteReport(@Param('fileName') fileName: string, @Res() res: any) {
+    try {
+      const result = await this.reportsService.deleteReport(fileName)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+}
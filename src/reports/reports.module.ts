@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { ReportsService } from './reports.service'
+import { ReportsController } from './reports.controller'
+
+@Module({
+  controllers: [ReportsController],
+  providers: [ReportsService],
+  exports: [ReportsService],
+})
+export class ReportsModule {}
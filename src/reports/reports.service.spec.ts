@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import Redis from 'ioredis'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ReportsService } from './reports.service'
+
+describe('ReportsService', () => {
+  let service: ReportsService
+  let registry: SchedulerRegistry
+  let reportsDir: string
+  let retention: Record<string, number>
+
+  const writeReport = (fileName: string, createdAt: string, content = '{}') => {
+    const filePath = path.join(reportsDir, fileName)
+    fs.writeFileSync(filePath, content)
+    fs.utimesSync(filePath, new Date(createdAt), new Date(createdAt))
+  }
+
+  beforeEach(async () => {
+    reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'))
+    retention = {}
+    const records: Record<string, string> = {
+      'test:test-1': JSON.stringify({ testId: 'test-1', testName: 'Smoke' }),
+      'comparison:cmp-1': JSON.stringify({ comparisonId: 'cmp-1', name: 'Mediators' }),
+    }
+    const redisMock = { get: jest.fn(async (key: string) => records[key] ?? null) } as unknown as Redis
+    const configMock = {
+      get: jest.fn((key: string) =>
+        key === 'appConfig.reportsDir' ? reportsDir : key === 'appConfig.reportsRetention' ? retention : undefined,
+      ),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        SchedulerRegistry,
+        { provide: ConfigService, useValue: configMock },
+        { provide: 'default_IORedisModuleConnectionToken', useValue: redisMock },
+      ],
+    }).compile()
+
+    service = module.get<ReportsService>(ReportsService)
+    registry = module.get<SchedulerRegistry>(SchedulerRegistry)
+
+    writeReport('report-test-1.json', '2024-01-01T00:00:00Z', '{"totals":{}}')
+    writeReport('report-test-1.html', '2024-01-03T00:00:00Z')
+    writeReport('report-comparison-cmp-1.json', '2024-01-02T00:00:00Z')
+    writeReport('notes.txt', '2024-01-04T00:00:00Z')
+  })
+
+  afterEach(() => {
+    registry.getIntervals().forEach((name) => registry.deleteInterval(name))
+    fs.rmSync(reportsDir, { recursive: true, force: true })
+  })
+
+  it('should list the stored reports newest first with their metadata', async () => {
+    const reports = await service.listReports()
+
+    expect(reports.map((report) => report.fileName)).toEqual([
+      'report-test-1.html',
+      'report-comparison-cmp-1.json',
+      'report-test-1.json',
+    ])
+    expect(reports[2]).toEqual({
+      fileName: 'report-test-1.json',
+      kind: 'report',
+      testId: 'test-1',
+      testName: 'Smoke',
+      sizeBytes: 13,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    })
+    expect(reports[1]).toMatchObject({ kind: 'comparison', comparisonId: 'cmp-1', testName: 'Mediators' })
+  })
+
+  it('should filter reports by test and kind', async () => {
+    expect(await service.listReports({ testId: 'test-1', kind: 'html' })).toHaveLength(1)
+    expect(await service.listReports({ testId: 'cmp-1' })).toHaveLength(1)
+  })
+
+  it('should list no reports when the reports directory does not exist', async () => {
+    fs.rmSync(reportsDir, { recursive: true, force: true })
+
+    expect(await service.listReports()).toEqual([])
+  })
+
+  it('should reject file names that are not stored reports', async () => {
+    await expect(service.getReportPath('report-missing.json')).rejects.toThrow('Report report-missing.json not found')
+    await expect(service.getReportPath('notes.txt')).rejects.toThrow('Report notes.txt not found')
+    await expect(service.deleteReport('report-missing.json')).rejects.toThrow('not found')
+  })
+
+  it('should delete a report and every report of a test', async () => {
+    await service.deleteReport('report-test-1.html')
+    expect(fs.existsSync(path.join(reportsDir, 'report-test-1.html'))).toBe(false)
+
+    expect(await service.deleteReportsByTestId('test-1')).toEqual(['report-test-1.json'])
+    expect(fs.readdirSync(reportsDir).sort()).toEqual(['notes.txt', 'report-comparison-cmp-1.json'])
+  })
+
+  it('should prune reports beyond the retention count and keep pruning every hour', async () => {
+    retention.maxCount = 1
+
+    await service.startRetention()
+
+    expect(fs.readdirSync(reportsDir).sort()).toEqual(['notes.txt', 'report-test-1.html'])
+    expect(registry.getIntervals()).toEqual(['reports-retention'])
+  })
+
+  it('should keep every report without a retention limit', async () => {
+    await service.startRetention()
+
+    expect(fs.readdirSync(reportsDir)).toHaveLength(4)
+    expect(registry.getIntervals()).toEqual([])
+  })
+})
@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { InjectRedis } from '@nestjs-modules/ioredis'
+import Redis from 'ioredis'
+import * as fs from 'fs'
+import * as path from 'path'
+import { ReportKind, ReportRetention, parseReportFileName, selectExpiredReports } from './utils/report-file.util'
+
+const RETENTION_INTERVAL_NAME = 'reports-retention'
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000
+
+export interface StoredReport {
+  fileName: string
+  kind: ReportKind
+  /** Test the report belongs to, or the comparison for `comparison` reports. */
+  testId?: string
+  comparisonId?: string
+  testName: string | null
+  sizeBytes: number
+  /** Modification time of the file, which copying the file without preserving timestamps resets. */
+  createdAt: string
+}
+
+/**
+ * Catalogue of the report files stored in `REPORTS_DIR`: lists, serves and deletes them without regenerating
+ * anything, and prunes them according to the configured retention.
+ */
+@Injectable()
+export class ReportsService {
+  private readonly logger = new Logger(ReportsService.name)
+  private readonly reportsDir: string
+  private readonly retention: ReportRetention
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @InjectRedis() private readonly redisClient: Redis,
+  ) {
+    this.reportsDir = this.configService.get<string>('appConfig.reportsDir') || path.join(process.cwd(), 'reports')
+    this.retention = this.configService.get<ReportRetention>('appConfig.reportsRetention') ?? {}
+  }
+
+  /**
+   * Prunes the reports outside the retention and keeps doing so every hour. Called by the HTTP server once it
+   * listens; does nothing when no retention limit is configured.
+   */
+  async startRetention(): Promise<void> {
+    if (this.retention.maxAgeDays === undefined && this.retention.maxCount === undefined) {
+      return
+    }
+
+    await this.applyRetention()
+    const interval = setInterval(() => {
+      this.applyRetention().catch((error) =>
+        this.logger.error(`[applyRetention] Failed to prune reports: ${error.message}`),
+      )
+    }, RETENTION_INTERVAL_MS)
+    this.schedulerRegistry.addInterval(RETENTION_INTERVAL_NAME, interval)
+  }
+
+  /**
+   * Lists the stored reports, newest first.
+   * @param filters.testId - Only reports of this test (or comparison).
+   * @param filters.kind - Only reports of this kind.
+   */
+  async listReports(filters: { testId?: string; kind?: ReportKind } = {}): Promise<StoredReport[]> {
+    let fileNames: string[]
+    try {
+      fileNames = await fs.promises.readdir(this.reportsDir)
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const testNames = new Map<string, string | null>()
+    const reports: StoredReport[] = []
+
+    for (const fileName of fileNames) {
+      const parsed = parseReportFileName(fileName)
+      if (
+        !parsed ||
+        (filters.kind && parsed.kind !== filters.kind) ||
+        (filters.testId && parsed.id !== filters.testId)
+      ) {
+        continue
+      }
+
+      const stat = await fs.promises.stat(path.join(this.reportsDir, fileName))
+      if (!stat.isFile()) {
+        continue
+      }
+
+      const key = parsed.kind === 'comparison' ? `comparison:${parsed.id}` : `test:${parsed.id}`
+      if (!testNames.has(key)) {
+        testNames.set(key, await this.getRecordName(key))
+      }
+
+      reports.push({
+        fileName,
+        kind: parsed.kind,
+        ...(parsed.kind === 'comparison' ? { comparisonId: parsed.id } : { testId: parsed.id }),
+        testName: testNames.get(key),
+        sizeBytes: stat.size,
+        createdAt: stat.mtime.toISOString(),
+      })
+    }
+
+    return reports.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Returns the path of a stored report.
+   * @throws Error if the file name is not a report or the report does not exist.
+   */
+  async getReportPath(fileName: string): Promise<string> {
+    const reportPath = this.resolveReportPath(fileName)
+    try {
+      await fs.promises.access(reportPath)
+    } catch (error) {
+      throw new Error(`[getReport] Report ${fileName} not found`)
+    }
+    return reportPath
+  }
+
+  /**
+   * @throws Error if the file name is not a report or the report does not exist.
+   */
+  async deleteReport(fileName: string): Promise<{ status: string; fileName: string }> {
+    const reportPath = this.resolveReportPath(fileName)
+    try {
+      await fs.promises.unlink(reportPath)
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`[deleteReport] Report ${fileName} not found`)
+      }
+      throw error
+    }
+    return { status: 'Report deleted', fileName }
+  }
+
+  /**
+   * Deletes every stored report of a test (or comparison).
+   * @returns Names of the deleted files.
+   */
+  async deleteReportsByTestId(testId: string): Promise<string[]> {
+    const reports = await this.listReports({ testId })
+    await Promise.all(reports.map((report) => fs.promises.unlink(path.join(this.reportsDir, report.fileName))))
+    return reports.map((report) => report.fileName)
+  }
+
+  /**
+   * Deletes the reports older than the maximum age or beyond the maximum count of the retention.
+   * @returns Names of the deleted files.
+   */
+  async applyRetention(): Promise<string[]> {
+    const expired = selectExpiredReports(await this.listReports(), this.retention, Date.now())
+    for (const fileName of expired) {
+      await fs.promises.unlink(path.join(this.reportsDir, fileName))
+    }
+
+    if (expired.length) {
+      this.logger.log(`[applyRetention] ${expired.length} reports pruned.`)
+    }
+    return expired
+  }
+
+  /**
+   * @throws Error if the file name is not a report, so requests cannot reach files outside `REPORTS_DIR`.
+   */
+  private resolveReportPath(fileName: string): string {
+    if (!parseReportFileName(fileName)) {
+      throw new Error(`Report ${fileName} not found`)
+    }
+    return path.join(this.reportsDir, fileName)
+  }
+
+  private async getRecordName(key: string): Promise<string | null> {
+    const recordData = await this.redisClient.get(key)
+    if (!recordData) {
+      return null
+    }
+    const record = JSON.parse(recordData)
+    return record.testName ?? record.name ?? null
+  }
+}
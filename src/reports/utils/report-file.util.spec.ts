@@ -0,0 +1,38 @@
+import { parseReportFileName, selectExpiredReports } from './report-file.util'
+
+describe('report-file.util', () => {
+  it('should identify the kind and test of each report file', () => {
+    expect(parseReportFileName('report-test-uuid.json')).toEqual({ kind: 'report', id: 'test-uuid' })
+    expect(parseReportFileName('report-test-uuid-consolidated.json')).toEqual({ kind: 'consolidated', id: 'test-uuid' })
+    expect(parseReportFileName('report-test-uuid.html')).toEqual({ kind: 'html', id: 'test-uuid' })
+    expect(parseReportFileName('report-test-uuid.csv')).toEqual({ kind: 'csv', id: 'test-uuid' })
+    expect(parseReportFileName('report-test-uuid.junit.xml')).toEqual({ kind: 'junit', id: 'test-uuid' })
+    expect(parseReportFileName('report-comparison-cmp-uuid.json')).toEqual({ kind: 'comparison', id: 'cmp-uuid' })
+  })
+
+  it('should reject files that are not reports', () => {
+    expect(parseReportFileName('notes.txt')).toBeNull()
+    expect(parseReportFileName('report-../secrets.json')).toBeNull()
+  })
+
+  describe('selectExpiredReports', () => {
+    const nowMs = Date.parse('2024-01-10T00:00:00Z')
+    const reports = [
+      { fileName: 'report-a.json', createdAt: '2024-01-01T00:00:00Z' },
+      { fileName: 'report-b.json', createdAt: '2024-01-09T00:00:00Z' },
+      { fileName: 'report-c.json', createdAt: '2024-01-08T00:00:00Z' },
+    ]
+
+    it('should keep every report without limits', () => {
+      expect(selectExpiredReports(reports, {}, nowMs)).toEqual([])
+    })
+
+    it('should prune reports older than the maximum age', () => {
+      expect(selectExpiredReports(reports, { maxAgeDays: 7 }, nowMs)).toEqual(['report-a.json'])
+    })
+
+    it('should keep only the newest reports up to the maximum count', () => {
+      expect(selectExpiredReports(reports, { maxCount: 1 }, nowMs)).toEqual(['report-c.json', 'report-a.json'])
+    })
+  })
+})
@@ -0,0 +1,61 @@
+export const REPORT_KINDS = ['report', 'consolidated', 'html', 'csv', 'junit', 'comparison'] as const
+
+export type ReportKind = (typeof REPORT_KINDS)[number]
+
+/**
+ * File name patterns of the reports written to `REPORTS_DIR`, most specific first.
+ */
+const REPORT_FILE_PATTERNS: { kind: ReportKind; pattern: RegExp }[] = [
+  { kind: 'comparison', pattern: /^report-comparison-([^/\\]+)\.json$/ },
+  { kind: 'consolidated', pattern: /^report-([^/\\]+)-consolidated\.json$/ },
+  { kind: 'junit', pattern: /^report-([^/\\]+)\.junit\.xml$/ },
+  { kind: 'html', pattern: /^report-([^/\\]+)\.html$/ },
+  { kind: 'csv', pattern: /^report-([^/\\]+)\.csv$/ },
+  { kind: 'report', pattern: /^report-([^/\\]+)\.json$/ },
+]
+
+/**
+ * Limits of the stored reports: files older than `maxAgeDays` and all but the newest `maxCount` files are
+ * pruned. Unset limits keep every report.
+ */
+export interface ReportRetention {
+  maxAgeDays?: number
+  maxCount?: number
+}
+
+/**
+ * Identifies a report file: its kind and the test (or comparison, for `comparison` reports) it belongs to.
+ * @returns null if the name is not a report file name.
+ */
+export function parseReportFileName(fileName: string): { kind: ReportKind; id: string } | null {
+  for (const { kind, pattern } of REPORT_FILE_PATTERNS) {
+    const match = pattern.exec(fileName)
+    if (match) {
+      return { kind, id: match[1] }
+    }
+  }
+  return null
+}
+
+/**
+ * Selects the reports the retention policy prunes.
+ * @param reports - Stored reports with their creation date.
+ * @param nowMs - Current time, in milliseconds since the epoch.
+ * @returns Names of the files to delete.
+ */
+export function selectExpiredReports(
+  reports: { fileName: string; createdAt: string }[],
+  retention: ReportRetention,
+  nowMs: number,
+): string[] {
+  const newestFirst = [...reports].sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+  const maxAgeMs = retention.maxAgeDays ? retention.maxAgeDays * 24 * 60 * 60 * 1000 : null
+
+  return newestFirst
+    .filter(
+      (report, index) =>
+        (maxAgeMs !== null && nowMs - Date.parse(report.createdAt) > maxAgeMs) ||
+        (retention.maxCount !== undefined && index >= retention.maxCount),
+    )
+    .map((report) => report.fileName)
+}
@@ -0,0 +1,59 @@
+import { IsIn, IsOptional, IsString, ValidateIf, ValidateNested } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { SimulateTestDto } from '../../simulation-test/dto/simulate-test.dto'
+import { OVERLAP_POLICIES, OverlapPolicy } from '../schedule.options'
+
+export class CreateScheduleDto {
+  @ApiProperty({
+    description: 'Name of the schedule',
+    example: 'Nightly soak',
+  })
+  @IsString()
+  name: string
+
+  @ApiProperty({
+    description: 'Cron expression (seconds field optional)',
+    example: '0 2 * * *',
+  })
+  @IsString()
+  cron: string
+
+  @ApiProperty({
+    description: 'IANA time zone of the cron expression (defaults to the server time zone)',
+    example: 'Europe/Madrid',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  timeZone?: string
+
+  @ApiProperty({
+    description: 'What to do when the previous run is still active: skip the run (default) or queue it',
+    enum: OVERLAP_POLICIES,
+    example: 'skip',
+    required: false,
+  })
+  @IsIn(OVERLAP_POLICIES)
+  @IsOptional()
+  overlapPolicy?: OverlapPolicy
+
+  @ApiProperty({
+    description: 'Test configuration launched on every run (required without templateId)',
+    type: SimulateTestDto,
+    required: false,
+  })
+  @ValidateIf((dto: CreateScheduleDto) => dto.templateId === undefined)
+  @ValidateNested()
+  @Type(() => SimulateTestDto)
+  config?: SimulateTestDto
+
+  @ApiProperty({
+    description: 'Template launched on every run, instead of config',
+    example: 'template-uuid',
+    required: false,
+  })
+  @ValidateIf((dto: CreateScheduleDto) => dto.config === undefined)
+  @IsString()
+  templateId?: string
+}
@@ -0,0 +1,14 @@
+/**
+ * What a schedule does when it fires while its previous run is still active: `skip` the run, or `queue` it
+ * until the previous run finishes (at most one queued run per schedule).
+ */
+export const OVERLAP_POLICIES = ['skip', 'queue'] as const
+
+export type OverlapPolicy = (typeof OVERLAP_POLICIES)[number]
+
+export const DEFAULT_OVERLAP_POLICY: OverlapPolicy = 'skip'
+
+/**
+ * Number of runs kept in the history of each schedule.
+ */
+export const SCHEDULE_HISTORY_LIMIT = 50
@@ -0,0 +1,73 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { SchedulerController } from './scheduler.controller'
+import { SchedulerService } from './scheduler.service'
+
+jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
+
+describe('SchedulerController', () => {
+  let controller: SchedulerController
+  let service: SchedulerService
+
+  const mockResponse = () => ({
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn(),
+  })
+
+  beforeEach(async () => {
+    const serviceMock = {
+      createSchedule: jest.fn().mockRejectedValue(new Error('Invalid cron expression "every night"')),
+      getSchedules: jest.fn().mockResolvedValue([{ scheduleId: 'schedule-uuid' }]),
+      pauseSchedule: jest.fn().mockResolvedValue({ scheduleId: 'schedule-uuid', paused: true }),
+      deleteSchedule: jest.fn().mockRejectedValue(new Error('Schedule missing not found')),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SchedulerController],
+      providers: [{ provide: SchedulerService, useValue: serviceMock }],
+    }).compile()
+
+    controller = module.get<SchedulerController>(SchedulerController)
+    service = module.get<SchedulerService>(SchedulerService)
+  })
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined()
+  })
+
+  it('should reject a schedule with an invalid cron expression', async () => {
+    const res = mockResponse()
+
+    await controller.createSchedule({ name: 'Broken', cron: 'every night' }, res as any)
+
+    expect(res.status).toHaveBeenCalledWith(400)
+    expect(res.json).toHaveBeenCalledWith({ status: 'error', error: 'Invalid cron expression "every night"' })
+  })
+
+  it('should list schedules', async () => {
+    const res = mockResponse()
+
+    await controller.getSchedules(res as any)
+
+    expect(res.json).toHaveBeenCalledWith({ status: 'success', schedules: [{ scheduleId: 'schedule-uuid' }] })
+  })
+
+  it('should pause a schedule', async () => {
+    const res = mockResponse()
+
+    await controller.pauseSchedule('schedule-uuid', res as any)
+
+    expect(service.pauseSchedule).toHaveBeenCalledWith('schedule-uuid')
+    expect(res.json).toHaveBeenCalledWith({
+      status: 'success',
+      schedule: { scheduleId: 'schedule-uuid', paused: true },
+    })
+  })
+
+  it('should return 404 when deleting an unknown schedule', async () => {
+    const res = mockResponse()
+
+    await controller.deleteSchedule('missing', res as any)
+
+    expect(res.status).toHaveBeenCalledWith(404)
+  })
+})
@@ -0,0 +1,111 @@
+import { Controller, Post, Get, Delete, Body, Param, HttpStatus, Res } from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiParam, ApiResponse, ApiBody } from '@nestjs/swagger'
+import { SchedulerService } from './scheduler.service'
+import { CreateScheduleDto } from './dto/create-schedule.dto'
+
+@ApiTags('Schedules')
+@Controller('schedules')
+export class SchedulerController {
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  @ApiOperation({ summary: 'Create a recurring simulation test from a cron expression' })
+  @ApiBody({ type: CreateScheduleDto })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Schedule created successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid cron expression, time zone or template' })
+  @Post()
+  async createSchedule(@Body() dto: CreateScheduleDto, @Res() res: any) {
+    try {
+      const schedule = await this.schedulerService.createSchedule(dto)
+      return res.status(HttpStatus.OK).json({ status: 'success', schedule })
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'List all schedules with their next run' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Schedules retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch schedules' })
+  @Get()
+  async getSchedules(@Res() res: any) {
+    try {
+      const schedules = await this.schedulerService.getSchedules()
+      return res.status(HttpStatus.OK).json({ status: 'success', schedules })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch schedules',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Get a schedule' })
+  @ApiParam({ name: 'scheduleId', description: 'ID of the schedule', example: 'schedule-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Schedule retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Schedule not found' })
+  @Get(':scheduleId')
+  async getSchedule(@Param('scheduleId') scheduleId: string, @Res() res: any) {
+    try {
+      const schedule = await this.schedulerService.getSchedule(scheduleId)
+      return res.status(HttpStatus.OK).json({ status: 'success', schedule })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Get the run history of a schedule, newest first' })
+  @ApiParam({ name: 'scheduleId', description: 'ID of the schedule', example: 'schedule-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Runs retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Schedule not found' })
+  @Get(':scheduleId/runs')
+  async getScheduleRuns(@Param('scheduleId') scheduleId: string, @Res() res: any) {
+    try {
+      const runs = await this.schedulerService.getScheduleRuns(scheduleId)
+      return res.status(HttpStatus.OK).json({ status: 'success', runs })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Pause a schedule' })
+  @ApiParam({ name: 'scheduleId', description: 'ID of the schedule', example: 'schedule-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Schedule paused successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Schedule not found' })
+  @Post(':scheduleId/pause')
+  async pauseSchedule(@Param('scheduleId') scheduleId: string, @Res() res: any) {
+    try {
+      const schedule = await this.schedulerService.pauseSchedule(scheduleId)
+      return res.status(HttpStatus.OK).json({ status: 'success', schedule })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Resume a paused schedule' })
+  @ApiParam({ name: 'scheduleId', description: 'ID of the schedule', example: 'schedule-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Schedule resumed successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Schedule not found' })
+  @Post(':scheduleId/resume')
+  async resumeSchedule(@Param('scheduleId') scheduleId: string, @Res() res: any) {
+    try {
+      const schedule = await this.schedulerService.resumeSchedule(scheduleId)
+      return res.status(HttpStatus.OK).json({ status: 'success', schedule })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Delete a schedule and its run history' })
+  @ApiParam({ name: 'scheduleId', description: 'ID of the schedule', example: 'schedule-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Schedule deleted successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Schedule not found' })
+  @Delete(':scheduleId')
+  async deleteSchedule(@Param('scheduleId') scheduleId: string, @Res() res: any) {
+    try {
+      const result = await this.schedulerService.deleteSchedule(scheduleId)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+}
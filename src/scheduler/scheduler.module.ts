@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { SchedulerService } from './scheduler.service'
+import { SchedulerController } from './scheduler.controller'
+import { SimulationTestModule } from 'src/simulation-test/simulation-test.module'
+
+@Module({
+  imports: [SimulationTestModule],
+  controllers: [SchedulerController],
+  providers: [SchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import Redis from 'ioredis'
+import { SchedulerService } from './scheduler.service'
+import { SimulationTestService } from '../simulation-test/simulation-test.service'
+
+jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
+
+jest.mock('uuid', () => ({ v4: () => 'schedule-uuid' }))
+
+describe('SchedulerService', () => {
+  let service: SchedulerService
+  let registry: SchedulerRegistry
+  let records: Record<string, string>
+  let simulationTestServiceMock: Record<string, jest.Mock>
+
+  const config = { messagesPerConnection: 1, timestampTestInterval: 1000, numAgent: 2, nameAgent: 'A', testName: 'T' }
+  const storeSchedule = (overrides: Record<string, any> = {}) => {
+    records['schedule:schedule-uuid'] = JSON.stringify({
+      scheduleId: 'schedule-uuid',
+      name: 'Hourly smoke',
+      cron: '0 * * * *',
+      overlapPolicy: 'skip',
+      config,
+      paused: false,
+      runs: [],
+      ...overrides,
+    })
+  }
+  const storedSchedule = () => JSON.parse(records['schedule:schedule-uuid'])
+
+  beforeEach(async () => {
+    records = {}
+    const redisMock = {
+      get: jest.fn(async (key: string) => records[key] ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        records[key] = value
+        return 'OK'
+      }),
+      del: jest.fn(async (key: string) => {
+        const existed = key in records
+        delete records[key]
+        return existed ? 1 : 0
+      }),
+    } as unknown as Redis
+
+    simulationTestServiceMock = {
+      simulateTest: jest.fn().mockResolvedValue({ status: 'Simulation test is running', testId: 'test-2' }),
+      isRunning: jest.fn().mockReturnValue(false),
+      waitForCompletion: jest.fn().mockResolvedValue({}),
+      getTemplate: jest.fn().mockResolvedValue({ templateId: 'tpl-1', config }),
+      getTest: jest.fn().mockResolvedValue({ status: 'completed', verdict: { status: 'pass' } }),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        SchedulerRegistry,
+        { provide: SimulationTestService, useValue: simulationTestServiceMock },
+        { provide: 'default_IORedisModuleConnectionToken', useValue: redisMock },
+      ],
+    }).compile()
+
+    service = module.get<SchedulerService>(SchedulerService)
+    registry = module.get<SchedulerRegistry>(SchedulerRegistry)
+  })
+
+  afterEach(() => {
+    Array.from(registry.getCronJobs().keys()).forEach((name) => registry.deleteCronJob(name))
+    jest.clearAllMocks()
+  })
+
+  describe('createSchedule', () => {
+    it('should store the schedule and start its cron job', async () => {
+      const schedule = await service.createSchedule({ name: 'Nightly soak', cron: '0 2 * * *', config })
+
+      expect(storedSchedule()).toMatchObject({ name: 'Nightly soak', overlapPolicy: 'skip', paused: false, runs: [] })
+      expect(registry.getCronJob('schedule:schedule-uuid').running).toBe(true)
+      expect(Date.parse(schedule.nextRunAt)).toBeGreaterThan(Date.now())
+    })
+
+    it('should reject an invalid cron expression', async () => {
+      await expect(service.createSchedule({ name: 'Broken', cron: 'every night', config })).rejects.toThrow(
+        'Invalid cron expression "every night"',
+      )
+      expect(records).toEqual({})
+    })
+  })
+
+  describe('triggerSchedule', () => {
+    it('should launch the test and record the run', async () => {
+      storeSchedule()
+
+      await service.triggerSchedule('schedule-uuid')
+
+      expect(simulationTestServiceMock.simulateTest).toHaveBeenCalledWith(config, {
+        templateId: undefined,
+        scheduleId: 'schedule-uuid',
+      })
+      expect(storedSchedule().runs).toEqual([expect.objectContaining({ status: 'started', testId: 'test-2' })])
+    })
+
+    it('should launch the configuration of the template', async () => {
+      storeSchedule({ config: undefined, templateId: 'tpl-1' })
+
+      await service.triggerSchedule('schedule-uuid')
+
+      expect(simulationTestServiceMock.simulateTest).toHaveBeenCalledWith(config, {
+        templateId: 'tpl-1',
+        scheduleId: 'schedule-uuid',
+      })
+    })
+
+    it('should skip the run while the previous one is still active', async () => {
+      storeSchedule({ runs: [{ status: 'started', testId: 'test-1' }] })
+      simulationTestServiceMock.isRunning.mockReturnValue(true)
+
+      await service.triggerSchedule('schedule-uuid')
+
+      expect(simulationTestServiceMock.simulateTest).not.toHaveBeenCalled()
+      expect(storedSchedule().runs[0]).toMatchObject({ status: 'skipped' })
+    })
+
+    it('should queue the run until the previous one finishes', async () => {
+      storeSchedule({ overlapPolicy: 'queue', runs: [{ status: 'started', testId: 'test-1' }] })
+      simulationTestServiceMock.isRunning.mockReturnValue(true)
+
+      await service.triggerSchedule('schedule-uuid')
+
+      expect(simulationTestServiceMock.waitForCompletion).toHaveBeenCalledWith('test-1')
+      expect(storedSchedule().runs.map((run) => run.status)).toEqual(['started', 'queued', 'started'])
+    })
+
+    it('should record a failure to start the test', async () => {
+      storeSchedule()
+      simulationTestServiceMock.simulateTest.mockRejectedValueOnce(new Error('Redis unavailable'))
+
+      await service.triggerSchedule('schedule-uuid')
+
+      expect(storedSchedule().runs[0]).toMatchObject({ status: 'failed', error: 'Redis unavailable' })
+    })
+  })
+
+  it('should stop the cron job of a paused schedule and restart it on resume', async () => {
+    await service.createSchedule({ name: 'Hourly smoke', cron: '0 * * * *', config })
+
+    const paused = await service.pauseSchedule('schedule-uuid')
+    expect(paused).toMatchObject({ paused: true, nextRunAt: null })
+    expect(registry.doesExist('cron', 'schedule:schedule-uuid')).toBe(false)
+
+    await service.resumeSchedule('schedule-uuid')
+    expect(registry.doesExist('cron', 'schedule:schedule-uuid')).toBe(true)
+  })
+
+  it('should delete a schedule and its cron job', async () => {
+    await service.createSchedule({ name: 'Hourly smoke', cron: '0 * * * *', config })
+
+    await service.deleteSchedule('schedule-uuid')
+
+    expect(records).toEqual({})
+    expect(registry.doesExist('cron', 'schedule:schedule-uuid')).toBe(false)
+    await expect(service.deleteSchedule('schedule-uuid')).rejects.toThrow('Schedule schedule-uuid not found')
+  })
+
+  it('should add the status and verdict of each test to the run history', async () => {
+    storeSchedule({ runs: [{ status: 'started', testId: 'test-1' }, { status: 'skipped' }] })
+
+    const runs = await service.getScheduleRuns('schedule-uuid')
+
+    expect(runs).toEqual([
+      { status: 'started', testId: 'test-1', testStatus: 'completed', verdict: 'pass' },
+      { status: 'skipped' },
+    ])
+  })
+})
@@ -0,0 +1,266 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { InjectRedis } from '@nestjs-modules/ioredis'
+import Redis from 'ioredis'
+import { CronJob, CronTime } from 'cron'
+import { v4 as uuidv4 } from 'uuid'
+import { SimulationTestService } from '../simulation-test/simulation-test.service'
+import { CreateScheduleDto } from './dto/create-schedule.dto'
+import { DEFAULT_OVERLAP_POLICY, SCHEDULE_HISTORY_LIMIT } from './schedule.options'
+
+@Injectable()
+export class SchedulerService {
+  private readonly logger = new Logger(SchedulerService.name)
+  /** Schedules with a run waiting for the previous one to finish. */
+  private readonly queuedRuns = new Set<string>()
+
+  constructor(
+    private readonly simulationTestService: SimulationTestService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @InjectRedis() private readonly redisClient: Redis,
+  ) {}
+
+  /**
+   * Registers the cron jobs of the stored schedules that are not paused. Called by the HTTP server once it
+   * listens, so the headless CLI never launches scheduled runs.
+   */
+  async startSchedules(): Promise<void> {
+    const schedules = await this.getSchedules()
+    const active = schedules.filter((schedule) => !schedule.paused)
+
+    active.forEach((schedule) => this.registerJob(schedule))
+    this.logger.log(`[startSchedules] ${active.length} of ${schedules.length} schedules started.`)
+  }
+
+  /**
+   * Stores a schedule and starts its cron job.
+   * @throws Error if the cron expression or time zone is invalid, or the template does not exist.
+   */
+  async createSchedule(dto: CreateScheduleDto): Promise<any> {
+    this.parseCronTime(dto.cron, dto.timeZone)
+    if (dto.templateId) {
+      await this.simulationTestService.getTemplate(dto.templateId)
+    }
+
+    const schedule = {
+      scheduleId: uuidv4(),
+      name: dto.name,
+      cron: dto.cron,
+      timeZone: dto.timeZone,
+      overlapPolicy: dto.overlapPolicy ?? DEFAULT_OVERLAP_POLICY,
+      config: dto.config,
+      templateId: dto.templateId,
+      paused: false,
+      runs: [],
+      createdAt: new Date().toISOString(),
+    }
+
+    await this.redisClient.set(`schedule:${schedule.scheduleId}`, JSON.stringify(schedule))
+    this.registerJob(schedule)
+    this.logger.log(`[createSchedule] Schedule ${schedule.scheduleId} (${dto.name}) created: ${dto.cron}`)
+    return this.withNextRun(schedule)
+  }
+
+  async getSchedules(): Promise<any[]> {
+    const schedules: any[] = []
+    const stream = this.redisClient.scanStream({ match: 'schedule:*', count: 1000 })
+
+    for await (const keys of stream) {
+      for (const key of keys as string[]) {
+        const scheduleData = await this.redisClient.get(key)
+        if (scheduleData) {
+          schedules.push(this.withNextRun(JSON.parse(scheduleData)))
+        }
+      }
+    }
+    return schedules.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getSchedule(scheduleId: string): Promise<any> {
+    return this.withNextRun(await this.getScheduleRecord(scheduleId))
+  }
+
+  /**
+   * Stops the cron job of a schedule; its record and run history are kept.
+   * @throws Error if the schedule does not exist.
+   */
+  async pauseSchedule(scheduleId: string): Promise<any> {
+    const schedule = await this.updateSchedule(scheduleId, { paused: true })
+    this.unregisterJob(scheduleId)
+    return this.withNextRun(schedule)
+  }
+
+  /**
+   * Restarts the cron job of a paused schedule.
+   * @throws Error if the schedule does not exist.
+   */
+  async resumeSchedule(scheduleId: string): Promise<any> {
+    const schedule = await this.updateSchedule(scheduleId, { paused: false })
+    this.registerJob(schedule)
+    return this.withNextRun(schedule)
+  }
+
+  /**
+   * Stops the cron job of a schedule and deletes it with its run history. Tests it launched are kept.
+   * @throws Error if the schedule does not exist.
+   */
+  async deleteSchedule(scheduleId: string): Promise<{ status: string; scheduleId: string }> {
+    const deleted = await this.redisClient.del(`schedule:${scheduleId}`)
+    if (!deleted) {
+      throw new Error(`[deleteSchedule] Schedule ${scheduleId} not found`)
+    }
+
+    this.unregisterJob(scheduleId)
+    return { status: 'Schedule deleted', scheduleId }
+  }
+
+  /**
+   * Returns the run history of a schedule, newest first, with the current status and verdict of each test.
+   * @throws Error if the schedule does not exist.
+   */
+  async getScheduleRuns(scheduleId: string): Promise<any[]> {
+    const { runs } = await this.getScheduleRecord(scheduleId)
+
+    return Promise.all(
+      runs.map(async (run) => {
+        if (!run.testId) {
+          return run
+        }
+
+        try {
+          const test = await this.simulationTestService.getTest(run.testId)
+          return { ...run, testStatus: test.status, verdict: test.verdict?.status ?? null }
+        } catch (error) {
+          return { ...run, testStatus: null, verdict: null }
+        }
+      }),
+    )
+  }
+
+  /**
+   * Launches the test of a schedule. When its previous run is still active the run is skipped, or queued
+   * until the previous run finishes if the schedule uses the `queue` overlap policy. Every outcome is
+   * recorded in the run history.
+   */
+  async triggerSchedule(scheduleId: string): Promise<void> {
+    let schedule = await this.getScheduleRecord(scheduleId)
+    if (schedule.paused) {
+      return
+    }
+
+    const previousTestId = schedule.runs.find((run) => run.testId)?.testId
+    if (previousTestId && this.simulationTestService.isRunning(previousTestId)) {
+      if (schedule.overlapPolicy !== 'queue' || this.queuedRuns.has(scheduleId)) {
+        await this.recordRun(scheduleId, {
+          status: 'skipped',
+          reason: `Previous run ${previousTestId} is still active`,
+        })
+        return
+      }
+
+      this.queuedRuns.add(scheduleId)
+      await this.recordRun(scheduleId, { status: 'queued', reason: `Waiting for previous run ${previousTestId}` })
+      try {
+        await this.simulationTestService.waitForCompletion(previousTestId)
+      } finally {
+        this.queuedRuns.delete(scheduleId)
+      }
+
+      // The schedule may have been paused or deleted while the run was queued
+      const scheduleData = await this.redisClient.get(`schedule:${scheduleId}`)
+      schedule = scheduleData ? JSON.parse(scheduleData) : null
+      if (!schedule || schedule.paused) {
+        return
+      }
+    }
+
+    try {
+      const config = schedule.templateId
+        ? (await this.simulationTestService.getTemplate(schedule.templateId)).config
+        : schedule.config
+      const { testId } = await this.simulationTestService.simulateTest(config, {
+        templateId: schedule.templateId,
+        scheduleId,
+      })
+      await this.recordRun(scheduleId, { status: 'started', testId })
+      this.logger.log(`[triggerSchedule] Schedule ${scheduleId} started test ${testId}.`)
+    } catch (error) {
+      this.logger.error(`[triggerSchedule] Schedule ${scheduleId} failed to start a test: ${error.message}`)
+      await this.recordRun(scheduleId, { status: 'failed', error: error.message })
+    }
+  }
+
+  private registerJob(schedule: { scheduleId: string; cron: string; timeZone?: string }): void {
+    this.unregisterJob(schedule.scheduleId)
+
+    const job = new CronJob(
+      schedule.cron,
+      () => {
+        this.triggerSchedule(schedule.scheduleId).catch((error) =>
+          this.logger.error(`[triggerSchedule] Schedule ${schedule.scheduleId} failed: ${error.message}`),
+        )
+      },
+      null,
+      false,
+      schedule.timeZone,
+    )
+    this.schedulerRegistry.addCronJob(this.jobName(schedule.scheduleId), job)
+    job.start()
+  }
+
+  private unregisterJob(scheduleId: string): void {
+    if (this.schedulerRegistry.doesExist('cron', this.jobName(scheduleId))) {
+      this.schedulerRegistry.deleteCronJob(this.jobName(scheduleId))
+    }
+  }
+
+  private jobName(scheduleId: string): string {
+    return `schedule:${scheduleId}`
+  }
+
+  /**
+   * @throws Error naming the cron expression if it (or the time zone) is invalid.
+   */
+  private parseCronTime(cron: string, timeZone?: string): CronTime {
+    try {
+      return new CronTime(cron, timeZone)
+    } catch (error) {
+      throw new Error(`Invalid cron expression "${cron}"${timeZone ? ` (${timeZone})` : ''}: ${error.message}`)
+    }
+  }
+
+  private withNextRun(schedule: any): any {
+    return {
+      ...schedule,
+      nextRunAt: schedule.paused ? null : this.parseCronTime(schedule.cron, schedule.timeZone).sendAt().toISO(),
+    }
+  }
+
+  private async getScheduleRecord(scheduleId: string): Promise<any> {
+    const scheduleData = await this.redisClient.get(`schedule:${scheduleId}`)
+    if (!scheduleData) {
+      throw new Error(`[getSchedule] Schedule ${scheduleId} not found`)
+    }
+    return JSON.parse(scheduleData)
+  }
+
+  private async updateSchedule(scheduleId: string, updates: Record<string, any>): Promise<any> {
+    const schedule = { ...(await this.getScheduleRecord(scheduleId)), ...updates }
+    await this.redisClient.set(`schedule:${scheduleId}`, JSON.stringify(schedule))
+    return schedule
+  }
+
+  /**
+   * Adds an entry to the run history of a schedule, keeping the latest {@link SCHEDULE_HISTORY_LIMIT} runs.
+   */
+  private async recordRun(scheduleId: string, run: Record<string, any>): Promise<void> {
+    const scheduleData = await this.redisClient.get(`schedule:${scheduleId}`)
+    if (!scheduleData) {
+      return
+    }
+
+    const schedule = JSON.parse(scheduleData)
+    const runs = [{ triggeredAt: new Date().toISOString(), ...run }, ...schedule.runs].slice(0, SCHEDULE_HISTORY_LIMIT)
+    await this.redisClient.set(`schedule:${scheduleId}`, JSON.stringify({ ...schedule, runs }))
+  }
+}
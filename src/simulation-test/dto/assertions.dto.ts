@@ -0,0 +1,48 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class AssertionsDto {
+  @ApiProperty({ description: 'Maximum p95 latency in milliseconds', example: 500, required: false })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  maxP95LatencyMs?: number
+
+  @ApiProperty({ description: 'Maximum p99 latency in milliseconds', example: 1000, required: false })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  maxP99LatencyMs?: number
+
+  @ApiProperty({
+    description: 'Minimum share (0-1) of sent messages that must be delivered',
+    example: 0.99,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(1)
+  minDeliveryRatio?: number
+
+  @ApiProperty({
+    description: 'Maximum share (0-1) of attempted messages that may fail to send',
+    example: 0.01,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(1)
+  maxErrorRate?: number
+
+  @ApiProperty({
+    description: 'Minimum delivered messages per second over the sending phase',
+    example: 20,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  minThroughputPerSecond?: number
+}
@@ -0,0 +1,76 @@
+import { IsArray, IsIn, IsNumber, IsOptional, IsString, Min, ValidateIf, ValidateNested } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { CHURN_TARGETS, ChurnTarget } from '../utils/churn.util'
+
+export class ChurnEventDto {
+  @ApiProperty({
+    description: 'Time of the disconnection in milliseconds from the start of the sending phase',
+    example: 15000,
+  })
+  @IsNumber()
+  @Min(0)
+  atMs: number
+
+  @ApiProperty({
+    description: 'Tenant to disconnect (random when omitted)',
+    example: 'Agent-2',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  tenantId?: string
+
+  @ApiProperty({
+    description: 'Time in milliseconds the tenant stays disconnected (defaults to the churn outageMs)',
+    example: 5000,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(100)
+  outageMs?: number
+}
+
+export class ChurnDto {
+  @ApiProperty({
+    description: 'What is restarted: the outbound transport and message pickup, or the whole agent',
+    enum: CHURN_TARGETS,
+    example: 'transport',
+    required: false,
+  })
+  @IsIn(CHURN_TARGETS)
+  @IsOptional()
+  target?: ChurnTarget
+
+  @ApiProperty({
+    description: 'Disconnections per minute across all agents, each at a random tenant (required without schedule)',
+    example: 6,
+    required: false,
+  })
+  @ValidateIf((dto: ChurnDto) => !dto.schedule?.length)
+  @IsNumber()
+  @Min(0.1)
+  ratePerMinute?: number
+
+  @ApiProperty({
+    description: 'Default time in milliseconds a tenant stays disconnected',
+    example: 5000,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(100)
+  outageMs?: number
+
+  @ApiProperty({
+    description: 'Explicit disconnections; overrides ratePerMinute',
+    type: [ChurnEventDto],
+    required: false,
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ChurnEventDto)
+  @IsOptional()
+  schedule?: ChurnEventDto[]
+}
@@ -0,0 +1,33 @@
+import { ArrayMinSize, IsArray, IsOptional, IsString, ValidateNested } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { SimulateTestDto } from './simulate-test.dto'
+
+export class CompareMediatorsDto {
+  @ApiProperty({
+    description: 'Name of the comparison (defaults to the scenario test name)',
+    example: 'Mediator 1.2 vs 1.3',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  name?: string
+
+  @ApiProperty({
+    description: 'Mediators (DID or out-of-band invitation URL) to run the scenario against, one after another',
+    example: ['did:web:mediator-a.example.com', 'did:web:mediator-b.example.com'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  mediators: string[]
+
+  @ApiProperty({
+    description: 'Scenario executed against every mediator; its mediator field is ignored',
+    type: SimulateTestDto,
+  })
+  @ValidateNested()
+  @Type(() => SimulateTestDto)
+  scenario: SimulateTestDto
+}
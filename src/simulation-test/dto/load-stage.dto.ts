@@ -0,0 +1,39 @@
+import { IsIn, IsNumber, IsOptional, IsString, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { LOAD_STAGE_TYPES, LoadStageType } from '../utils/load-profile.util'
+
+export class LoadStageDto {
+  @ApiProperty({
+    description:
+      'Stage type: ramp (linear change from the previous rate), step (jump and hold), spike (short burst) or soak (long hold)',
+    enum: LOAD_STAGE_TYPES,
+    example: 'ramp',
+  })
+  @IsIn(LOAD_STAGE_TYPES)
+  type: LoadStageType
+
+  @ApiProperty({
+    description: 'Duration of the stage in milliseconds',
+    example: 30000,
+  })
+  @IsNumber()
+  @Min(1000)
+  durationMs: number
+
+  @ApiProperty({
+    description: 'Target rate of the stage in messages per second across all agents',
+    example: 50,
+  })
+  @IsNumber()
+  @Min(0)
+  targetRate: number
+
+  @ApiProperty({
+    description: 'Optional name of the stage',
+    example: 'warm-up',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  name?: string
+}
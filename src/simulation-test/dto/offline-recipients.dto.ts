@@ -0,0 +1,21 @@
+import { IsNumber, Max, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class OfflineRecipientsDto {
+  @ApiProperty({
+    description: 'Share (0-1] of the message recipients taken offline when the sending phase starts',
+    example: 0.25,
+  })
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  share: number
+
+  @ApiProperty({
+    description: 'Time in milliseconds the recipients stay offline before reconnecting with the same wallet',
+    example: 30000,
+  })
+  @IsNumber()
+  @Min(1000)
+  offlineDurationMs: number
+}
@@ -0,0 +1,104 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import {
+  MAX_PAYLOAD_BYTES,
+  PAYLOAD_CONTENT_TYPES,
+  PAYLOAD_SIZE_MODES,
+  PayloadContentType,
+  PayloadSizeMode,
+} from '../utils/payload.util'
+
+export class PayloadSizeWeightDto {
+  @ApiProperty({
+    description: `Payload size in bytes (at most ${MAX_PAYLOAD_BYTES})`,
+    example: 1024,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_PAYLOAD_BYTES)
+  sizeBytes: number
+
+  @ApiProperty({
+    description: 'Relative weight of this size',
+    example: 3,
+  })
+  @IsNumber()
+  @Min(0)
+  weight: number
+}
+
+export class PayloadDto {
+  @ApiProperty({
+    description: 'How payload sizes are chosen: fixed, uniform range or weighted distribution',
+    enum: PAYLOAD_SIZE_MODES,
+    example: 'fixed',
+  })
+  @IsIn(PAYLOAD_SIZE_MODES)
+  sizeMode: PayloadSizeMode
+
+  @ApiProperty({
+    description: `Payload size in bytes (fixed mode, at most ${MAX_PAYLOAD_BYTES})`,
+    example: 4096,
+    required: false,
+  })
+  @ValidateIf((dto: PayloadDto) => dto.sizeMode === 'fixed')
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_PAYLOAD_BYTES)
+  sizeBytes?: number
+
+  @ApiProperty({
+    description: 'Minimum payload size in bytes (range mode)',
+    example: 512,
+    required: false,
+  })
+  @ValidateIf((dto: PayloadDto) => dto.sizeMode === 'range')
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_PAYLOAD_BYTES)
+  minBytes?: number
+
+  @ApiProperty({
+    description: `Maximum payload size in bytes (range mode, at most ${MAX_PAYLOAD_BYTES})`,
+    example: 65536,
+    required: false,
+  })
+  @ValidateIf((dto: PayloadDto) => dto.sizeMode === 'range')
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_PAYLOAD_BYTES)
+  maxBytes?: number
+
+  @ApiProperty({
+    description: 'Sizes and their weights (weighted mode)',
+    type: [PayloadSizeWeightDto],
+    required: false,
+  })
+  @ValidateIf((dto: PayloadDto) => dto.sizeMode === 'weighted')
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PayloadSizeWeightDto)
+  weights?: PayloadSizeWeightDto[]
+
+  @ApiProperty({
+    description: 'Content generator: random text, JSON document or base64 blob',
+    enum: PAYLOAD_CONTENT_TYPES,
+    example: 'json',
+    required: false,
+  })
+  @IsIn(PAYLOAD_CONTENT_TYPES)
+  @IsOptional()
+  content?: PayloadContentType
+}
@@ -0,0 +1,221 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { MediatorPickupStrategy } from '@credo-ts/core'
+import { PayloadDto } from './payload.dto'
+import { AssertionsDto } from './assertions.dto'
+import { ARRIVAL_DISTRIBUTIONS, ArrivalDistribution } from '../utils/arrival-schedule.util'
+import { Topology, TOPOLOGIES } from '../utils/topology.util'
+import { SCENARIO_PHASE_TYPES, SCENARIO_VERSIONS, ScenarioPhaseType } from '../utils/scenario.util'
+import { PICKUP_STRATEGIES } from '../../lib/agents/agent.options'
+
+export class ScenarioAgentsDto {
+  @ApiProperty({
+    description: 'Number of agents created before the first phase',
+    example: 20,
+  })
+  @IsInt()
+  @Min(2)
+  count: number
+
+  @ApiProperty({
+    description: 'Base name of the agents (defaults to Agent)',
+    example: 'Agent',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  namePrefix?: string
+}
+
+export class ScenarioPhaseDto {
+  @ApiProperty({
+    description: 'Name of the phase, unique within the scenario',
+    example: 'warm-up',
+  })
+  @IsString()
+  name: string
+
+  @ApiProperty({
+    description:
+      'Phase type: send (messages at a rate), offline (recipients offline for the phase) or drain (no new messages)',
+    enum: SCENARIO_PHASE_TYPES,
+    example: 'send',
+  })
+  @IsIn(SCENARIO_PHASE_TYPES)
+  type: ScenarioPhaseType
+
+  @ApiProperty({
+    description: 'Duration of the phase in milliseconds',
+    example: 30000,
+  })
+  @IsNumber()
+  @Min(1000)
+  durationMs: number
+
+  @ApiProperty({
+    description: 'Messages per second across all online senders (required for send phases, optional for offline)',
+    example: 10,
+    required: false,
+  })
+  @ValidateIf((phase: ScenarioPhaseDto) => phase.type === 'send' || phase.rate !== undefined)
+  @IsNumber()
+  @Min(0.1)
+  rate?: number
+
+  @ApiProperty({
+    description: 'Distribution of the message arrivals: constant (default) or poisson',
+    enum: ARRIVAL_DISTRIBUTIONS,
+    example: 'poisson',
+    required: false,
+  })
+  @IsIn(ARRIVAL_DISTRIBUTIONS)
+  @IsOptional()
+  arrivalDistribution?: ArrivalDistribution
+
+  @ApiProperty({
+    description: 'Number of recipients taken offline (offline phases, unless share is set)',
+    example: 5,
+    required: false,
+  })
+  @ValidateIf((phase: ScenarioPhaseDto) => phase.type === 'offline' && phase.share === undefined)
+  @IsInt()
+  @Min(1)
+  agents?: number
+
+  @ApiProperty({
+    description: 'Share (0-1] of the recipients taken offline (offline phases, instead of agents)',
+    example: 0.25,
+    required: false,
+  })
+  @ValidateIf((phase: ScenarioPhaseDto) => phase.type === 'offline' && phase.agents === undefined)
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  share?: number
+}
+
+export class ScenarioDto {
+  @ApiProperty({
+    description: 'Version of the scenario format',
+    enum: SCENARIO_VERSIONS,
+    example: 1,
+  })
+  @IsIn(SCENARIO_VERSIONS)
+  version: number
+
+  @ApiProperty({
+    description: 'Name of the scenario, used as the test name',
+    example: 'Star with offline recipients',
+  })
+  @IsString()
+  name: string
+
+  @ApiProperty({
+    description: 'Optional description of the scenario',
+    example: 'Warm-up, load, five recipients offline, then drain',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string
+
+  @ApiProperty({
+    description: 'Agents created before the first phase',
+    type: ScenarioAgentsDto,
+  })
+  @ValidateNested()
+  @Type(() => ScenarioAgentsDto)
+  agents: ScenarioAgentsDto
+
+  @ApiProperty({
+    description: 'Connection topology of the agents: full-mesh (default), star, ring, random or pairs',
+    enum: TOPOLOGIES,
+    example: 'star',
+    required: false,
+  })
+  @IsIn(TOPOLOGIES)
+  @IsOptional()
+  topology?: Topology
+
+  @ApiProperty({
+    description: 'Minimum number of neighbours per agent for the random topology',
+    example: 2,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  topologyDegree?: number
+
+  @ApiProperty({
+    description: 'Optional payload size distribution and content generator (defaults to a short text message)',
+    type: PayloadDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => PayloadDto)
+  @IsOptional()
+  payload?: PayloadDto
+
+  @ApiProperty({
+    description: 'Mediator pickup strategy used by the simulated agents',
+    enum: PICKUP_STRATEGIES,
+    example: 'PickUpV2LiveMode',
+    required: false,
+  })
+  @IsIn(PICKUP_STRATEGIES)
+  @IsOptional()
+  pickupStrategy?: MediatorPickupStrategy
+
+  @ApiProperty({
+    description: 'Mediator polling interval in ms (PickUpV1 and PickUpV2 polling)',
+    example: 5000,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(100)
+  pollingIntervalMs?: number
+
+  @ApiProperty({
+    description: 'Mediator DID or out-of-band invitation URL (defaults to the configured AGENT_PUBLIC_DID)',
+    example: 'did:web:ca.dev.2060.io',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  mediator?: string
+
+  @ApiProperty({
+    description: 'Optional SLO assertions evaluated over the whole run',
+    type: AssertionsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => AssertionsDto)
+  @IsOptional()
+  assertions?: AssertionsDto
+
+  @ApiProperty({
+    description: 'Ordered phases run one after another once the agents are connected',
+    type: [ScenarioPhaseDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ScenarioPhaseDto)
+  phases: ScenarioPhaseDto[]
+}
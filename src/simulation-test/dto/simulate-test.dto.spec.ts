@@ -1,5 +1,7 @@
 import { validate } from 'class-validator'
+import { plainToInstance } from 'class-transformer'
 import { SimulateTestDto } from './simulate-test.dto'
+import { MAX_PAYLOAD_BYTES } from '../utils/payload.util'
 
 describe('SimulateTestDto', () => {
   it('should require testName', async () => {
@@ -28,4 +30,75 @@ describe('SimulateTestDto', () => {
 
     expect(errors.length).toBe(0)
   })
+
+  it('should validate load profile stages', async () => {
+    const dto = plainToInstance(SimulateTestDto, {
+      messagesPerConnection: 5,
+      timestampTestInterval: 60000,
+      numAgent: 2,
+      nameAgent: 'TestAgent',
+      testName: 'Load Test',
+      loadProfile: [
+        { type: 'ramp', durationMs: 30000, targetRate: 50 },
+        { type: 'burst', durationMs: 10, targetRate: 100 },
+      ],
+    })
+
+    const errors = await validate(dto)
+
+    const loadProfileError = errors.find((error) => error.property === 'loadProfile')
+    expect(loadProfileError).toBeDefined()
+    expect(loadProfileError.children[0].property).toBe('1')
+    expect(loadProfileError.children[0].children.map((child) => child.property)).toEqual(['type', 'durationMs'])
+  })
+
+  it('should require a target rate for open-loop tests without a load profile', async () => {
+    const dto = plainToInstance(SimulateTestDto, {
+      messagesPerConnection: 5,
+      timestampTestInterval: 60000,
+      numAgent: 2,
+      nameAgent: 'TestAgent',
+      testName: 'Open loop',
+      arrivalMode: 'open',
+      arrivalDistribution: 'poisson',
+    })
+
+    const errors = await validate(dto)
+
+    expect(errors.map((error) => error.property)).toEqual(['targetRatePerSecond'])
+  })
+
+  it('should validate payload settings for the selected size mode', async () => {
+    const dto = plainToInstance(SimulateTestDto, {
+      messagesPerConnection: 5,
+      timestampTestInterval: 60000,
+      numAgent: 2,
+      nameAgent: 'TestAgent',
+      testName: 'Payload sizes',
+      payload: { sizeMode: 'range', minBytes: 512, content: 'xml' },
+    })
+
+    const errors = await validate(dto)
+
+    const payloadError = errors.find((error) => error.property === 'payload')
+    expect(payloadError).toBeDefined()
+    expect(payloadError.children.map((child) => child.property)).toEqual(['maxBytes', 'content'])
+  })
+
+  it('should reject payloads larger than the maximum size', async () => {
+    const dto = plainToInstance(SimulateTestDto, {
+      messagesPerConnection: 5,
+      timestampTestInterval: 60000,
+      numAgent: 2,
+      nameAgent: 'TestAgent',
+      testName: 'Payload sizes',
+      payload: { sizeMode: 'fixed', sizeBytes: MAX_PAYLOAD_BYTES + 1 },
+    })
+
+    const errors = await validate(dto)
+
+    const payloadError = errors.find((error) => error.property === 'payload')
+    expect(payloadError.children.map((child) => child.property)).toEqual(['sizeBytes'])
+    expect(payloadError.children[0].constraints).toHaveProperty('max')
+  })
 })
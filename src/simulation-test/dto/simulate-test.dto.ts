@@ -1,5 +1,25 @@
-import { IsNumber, IsString, Min, IsOptional } from 'class-validator'
+import {
+  IsNumber,
+  IsString,
+  Min,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  IsIn,
+  ValidateIf,
+} from 'class-validator'
 import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { LoadStageDto } from './load-stage.dto'
+import { PayloadDto } from './payload.dto'
+import { OfflineRecipientsDto } from './offline-recipients.dto'
+import { ChurnDto } from './churn.dto'
+import { AssertionsDto } from './assertions.dto'
+import { ARRIVAL_DISTRIBUTIONS, ARRIVAL_MODES, ArrivalDistribution, ArrivalMode } from '../utils/arrival-schedule.util'
+import { Topology, TOPOLOGIES } from '../utils/topology.util'
+import { MediatorPickupStrategy } from '@credo-ts/core'
+import { PICKUP_STRATEGIES } from '../../lib/agents/agent.options'
 
 export class SimulateTestDto {
   @ApiProperty({
@@ -58,4 +78,149 @@ export class SimulateTestDto {
   @IsOptional()
   @Min(10)
   messageRate?: number
+
+  @ApiProperty({
+    description: 'Optional size of the timeline buckets in milliseconds',
+    example: 1000,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(100)
+  timelineBucketMs?: number
+
+  @ApiProperty({
+    description:
+      'Optional load profile: ordered stages with duration and target rate (messages per second across all agents). ' +
+      'When set, it replaces messagesPerConnection per messageRate tick and its total duration defines the sending phase.',
+    type: [LoadStageDto],
+    required: false,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LoadStageDto)
+  @IsOptional()
+  loadProfile?: LoadStageDto[]
+
+  @ApiProperty({
+    description:
+      'Optional arrival mode: closed (per-agent batches limited by concurrency, default) or open (constant arrival rate)',
+    enum: ARRIVAL_MODES,
+    example: 'open',
+    required: false,
+  })
+  @IsIn(ARRIVAL_MODES)
+  @IsOptional()
+  arrivalMode?: ArrivalMode
+
+  @ApiProperty({
+    description: 'Global target rate in messages per second for the open-loop mode (required without loadProfile)',
+    example: 200,
+    required: false,
+  })
+  @ValidateIf((dto: SimulateTestDto) => dto.arrivalMode === 'open' && !dto.loadProfile)
+  @IsNumber()
+  @Min(0.1)
+  targetRatePerSecond?: number
+
+  @ApiProperty({
+    description: 'Optional distribution of open-loop arrivals: constant or poisson',
+    enum: ARRIVAL_DISTRIBUTIONS,
+    example: 'poisson',
+    required: false,
+  })
+  @IsIn(ARRIVAL_DISTRIBUTIONS)
+  @IsOptional()
+  arrivalDistribution?: ArrivalDistribution
+
+  @ApiProperty({
+    description:
+      'Optional connection topology: full-mesh (default), star (first agent is the hub), ring, random or pairs (disjoint sender→receiver pairs)',
+    enum: TOPOLOGIES,
+    example: 'full-mesh',
+    required: false,
+  })
+  @IsIn(TOPOLOGIES)
+  @IsOptional()
+  topology?: Topology
+
+  @ApiProperty({
+    description: 'Minimum number of neighbours per agent for the random topology',
+    example: 2,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  topologyDegree?: number
+
+  @ApiProperty({
+    description: 'Optional payload size distribution and content generator (defaults to a short text message)',
+    type: PayloadDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => PayloadDto)
+  @IsOptional()
+  payload?: PayloadDto
+
+  @ApiProperty({
+    description: 'Mediator pickup strategy used by the simulated agents',
+    enum: PICKUP_STRATEGIES,
+    example: 'PickUpV2LiveMode',
+    required: false,
+  })
+  @IsIn(PICKUP_STRATEGIES)
+  @IsOptional()
+  pickupStrategy?: MediatorPickupStrategy
+
+  @ApiProperty({
+    description: 'Mediator polling interval in ms (PickUpV1 and PickUpV2 polling)',
+    example: 5000,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(100)
+  pollingIntervalMs?: number
+
+  @ApiProperty({
+    description: 'Optional offline-recipient scenario: recipients go offline, receive queued messages and reconnect',
+    type: OfflineRecipientsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => OfflineRecipientsDto)
+  @IsOptional()
+  offlineRecipients?: OfflineRecipientsDto
+
+  @ApiProperty({
+    description: 'Optional agent churn: tenants are disconnected and reconnected while messages are sent',
+    type: ChurnDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ChurnDto)
+  @IsOptional()
+  churn?: ChurnDto
+
+  @ApiProperty({
+    description: 'Mediator DID or out-of-band invitation URL (defaults to the configured AGENT_PUBLIC_DID)',
+    example: 'did:web:ca.dev.2060.io',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  mediator?: string
+
+  @ApiProperty({
+    description: 'Optional SLO assertions evaluated into a pass/fail verdict when the run finishes',
+    type: AssertionsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => AssertionsDto)
+  @IsOptional()
+  assertions?: AssertionsDto
 }
@@ -0,0 +1,30 @@
+import { IsOptional, IsString, ValidateNested } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { SimulateTestDto } from './simulate-test.dto'
+
+export class TemplateDto {
+  @ApiProperty({
+    description: 'Name of the template',
+    example: 'Nightly baseline',
+  })
+  @IsString()
+  name: string
+
+  @ApiProperty({
+    description: 'Optional description of the template',
+    example: 'Four agents, full mesh, 60 seconds',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string
+
+  @ApiProperty({
+    description: 'Test configuration run by the template',
+    type: SimulateTestDto,
+  })
+  @ValidateNested()
+  @Type(() => SimulateTestDto)
+  config: SimulateTestDto
+}
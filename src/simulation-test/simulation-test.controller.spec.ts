@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { ConflictException, NotFoundException } from '@nestjs/common'
 import { SimulationTestController } from './simulation-test.controller'
 import { SimulationTestService } from './simulation-test.service'
+import { lastValueFrom, of } from 'rxjs'
 
 jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
 
@@ -12,18 +14,43 @@ describe('SimulationTestController', () => {
     const serviceMock = {
       simulateTest: jest.fn().mockResolvedValue({ status: 'Simulation test is running', testId: 'test-uuid' }),
       getMessagesByTestId: jest.fn().mockResolvedValue([]),
+      getFailuresByTestId: jest.fn().mockResolvedValue([]),
       calculateMetricsByAgent: jest.fn().mockResolvedValue({}),
+      calculateFailuresByAgent: jest.fn().mockResolvedValue({}),
       calculateTotals: jest.fn().mockResolvedValue({}),
+      calculateDelivery: jest.fn().mockResolvedValue({}),
+      calculateOfflineDelivery: jest.fn().mockResolvedValue({ queued: 4, delivered: 4 }),
+      calculateChurnImpact: jest.fn().mockResolvedValue({ events: 2 }),
+      calculateTimeline: jest.fn().mockResolvedValue({ bucketMs: 1000, buckets: [] }),
       getTests: jest.fn().mockResolvedValue([]),
       activateTenantsForTest: jest.fn().mockResolvedValue({
         status: 'Tenants activated',
         tenantIds: ['Agent-1'],
         cleanupDelayMs: 10000,
       }),
+      streamProgress: jest.fn().mockReturnValue(of({ data: { testId: 'test-uuid', finished: true } })),
+      deleteTest: jest
+        .fn()
+        .mockRejectedValue(new ConflictException('[deleteTest] Test test-uuid is running; stop it first')),
       stopSimulation: jest.fn().mockResolvedValue({ status: 'Stop requested', testId: 'test-uuid' }),
       generateConsolidatedReport: jest.fn().mockResolvedValue({ reportPath: '/tmp/report-test-uuid.json' }),
+      generateHtmlReport: jest.fn().mockResolvedValue({ reportPath: '/tmp/report-test-uuid.html', html: '' }),
+      exportReport: jest.fn().mockResolvedValue({ reportPath: '/tmp/report-test-uuid.csv' }),
       generateReport: jest.fn().mockResolvedValue({ reportPath: '/tmp/report-test-uuid.json' }),
       clearDatabase: jest.fn().mockResolvedValue({ status: 'Database cleared' }),
+      runMediatorComparison: jest
+        .fn()
+        .mockResolvedValue({ status: 'Comparison is running', comparisonId: 'comparison-uuid' }),
+      validateScenario: jest.fn(),
+      runTemplate: jest.fn().mockResolvedValue({ status: 'Simulation test is running', testId: 'test-uuid' }),
+      getTemplate: jest.fn().mockRejectedValue(new Error('Template missing not found')),
+      rerunTest: jest.fn().mockResolvedValue({ status: 'Simulation test is running', testId: 'test-uuid-2' }),
+      runScenario: jest.fn().mockResolvedValue({ status: 'Scenario is running', testId: 'test-uuid' }),
+      compareTests: jest.fn().mockResolvedValue({ regressions: [], regressed: false }),
+      getComparison: jest.fn().mockRejectedValue(new Error('Comparison missing not found')),
+      generateComparisonReport: jest
+        .fn()
+        .mockResolvedValue({ reportPath: '/tmp/report-comparison-comparison-uuid.json' }),
     }
 
     const module: TestingModule = await Test.createTestingModule({
@@ -91,8 +118,68 @@ describe('SimulationTestController', () => {
       await controller.getMetrics('test-uuid', mockResponse as any)
 
       expect(service.calculateMetricsByAgent).toHaveBeenCalledWith('test-uuid')
+      expect(service.calculateFailuresByAgent).toHaveBeenCalledWith('test-uuid')
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', metrics: {}, failures: {} })
+    })
+  })
+
+  describe('getFailuresByTestId', () => {
+    it('should return send failures for a test', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getFailuresByTestId('test-uuid', mockResponse as any)
+
+      expect(service.getFailuresByTestId).toHaveBeenCalledWith('test-uuid')
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', failures: [] })
+    })
+  })
+
+  describe('deleteTest', () => {
+    it('should refuse to delete a running test with 409', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.deleteTest('test-uuid', mockResponse as any)
+
+      expect(service.deleteTest).toHaveBeenCalledWith('test-uuid', false)
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+    })
+
+    it('should return 404 for a missing test', async () => {
+      jest
+        .spyOn(service, 'deleteTest')
+        .mockRejectedValueOnce(new NotFoundException('[deleteTest] Test missing not found'))
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.deleteTest('missing', mockResponse as any)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'error', error: '[deleteTest] Test missing not found' })
+    })
+
+    it('should force the deletion of a test', async () => {
+      jest
+        .spyOn(service, 'deleteTest')
+        .mockResolvedValueOnce({ status: 'Test deleted', testId: 'test-uuid', deleted: {} })
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.deleteTest('test-uuid', mockResponse as any, 'true')
+
+      expect(service.deleteTest).toHaveBeenCalledWith('test-uuid', true)
       expect(mockResponse.status).toHaveBeenCalledWith(200)
-      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', metrics: {} })
     })
   })
 
@@ -111,6 +198,69 @@ describe('SimulationTestController', () => {
     })
   })
 
+  describe('getDelivery', () => {
+    it('should return delivery accounting for a test', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getDelivery('test-uuid', mockResponse as any)
+
+      expect(service.calculateDelivery).toHaveBeenCalledWith('test-uuid')
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', delivery: {} })
+    })
+  })
+
+  describe('getOfflineDelivery', () => {
+    it('should return the offline-recipient delivery for a test', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getOfflineDelivery('test-uuid', mockResponse as any)
+
+      expect(service.calculateOfflineDelivery).toHaveBeenCalledWith('test-uuid')
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'success',
+        offlineDelivery: { queued: 4, delivered: 4 },
+      })
+    })
+  })
+
+  describe('getChurnImpact', () => {
+    it('should return the churn impact for a test', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getChurnImpact('test-uuid', mockResponse as any)
+
+      expect(service.calculateChurnImpact).toHaveBeenCalledWith('test-uuid')
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', churnImpact: { events: 2 } })
+    })
+  })
+
+  describe('getTimeline', () => {
+    it('should return the timeline for a test using the requested bucket size', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getTimeline('test-uuid', '5000', mockResponse as any)
+
+      expect(service.calculateTimeline).toHaveBeenCalledWith('test-uuid', 5000)
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'success', timeline: { bucketMs: 1000, buckets: [] } })
+    })
+  })
+
   describe('clearDatabase', () => {
     it('should clear the database and return success response', async () => {
       const mockResponse = {
@@ -160,6 +310,15 @@ describe('SimulationTestController', () => {
     })
   })
 
+  describe('streamProgress', () => {
+    it('should stream progress events for a test', async () => {
+      const event = await lastValueFrom(controller.streamProgress('test-uuid'))
+
+      expect(service.streamProgress).toHaveBeenCalledWith('test-uuid')
+      expect(event).toEqual({ data: { testId: 'test-uuid', finished: true } })
+    })
+  })
+
   describe('stopSimulation', () => {
     it('should request stop for a running simulation', async () => {
       const mockResponse = {
@@ -189,4 +348,197 @@ describe('SimulationTestController', () => {
       expect(mockResponse.download).toHaveBeenCalledWith('/tmp/report-test-uuid.json', 'report-test-uuid.json')
     })
   })
+
+  describe('getReport', () => {
+    it('should export the report in the requested format', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        download: jest.fn(),
+      }
+
+      await controller.getReport('test-uuid', mockResponse as any, 'csv')
+
+      expect(service.exportReport).toHaveBeenCalledWith('test-uuid', 'csv')
+      expect(mockResponse.download).toHaveBeenCalledWith('/tmp/report-test-uuid.csv', 'report-test-uuid.csv')
+    })
+
+    it('should reject an unknown format', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getReport('test-uuid', mockResponse as any, 'pdf')
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({ status: 'error', error: 'Unknown report format "pdf"' })
+    })
+  })
+
+  describe('getHtmlReport', () => {
+    it('should download the HTML report of a test', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        download: jest.fn(),
+      }
+
+      await controller.getHtmlReport('test-uuid', mockResponse as any)
+
+      expect(service.generateHtmlReport).toHaveBeenCalledWith('test-uuid')
+      expect(mockResponse.download).toHaveBeenCalledWith('/tmp/report-test-uuid.html', 'report-test-uuid.html')
+    })
+  })
+
+  describe('runScenario', () => {
+    const mockResponse = () => ({
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    })
+
+    it('should start a valid scenario', async () => {
+      const scenario = { version: 1, name: 'S', agents: { count: 2 }, phases: [] }
+      jest.spyOn(service, 'validateScenario').mockResolvedValueOnce({ scenario: scenario as any, errors: [] })
+      const res = mockResponse()
+
+      await controller.runScenario('version: 1', res as any)
+
+      expect(service.validateScenario).toHaveBeenCalledWith('version: 1')
+      expect(service.runScenario).toHaveBeenCalledWith(scenario)
+      expect(res.status).toHaveBeenCalledWith(200)
+      expect(res.json).toHaveBeenCalledWith({ status: 'Scenario is running', testId: 'test-uuid' })
+    })
+
+    it('should return the validation errors of an invalid scenario', async () => {
+      jest
+        .spyOn(service, 'validateScenario')
+        .mockResolvedValueOnce({ errors: ['phases[0].rate: rate must not be less than 0.1'] })
+      const res = mockResponse()
+
+      await controller.runScenario({ version: 1 }, res as any)
+
+      expect(service.runScenario).not.toHaveBeenCalled()
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(res.json).toHaveBeenCalledWith({
+        status: 'error',
+        error: 'Invalid scenario',
+        errors: ['phases[0].rate: rate must not be less than 0.1'],
+      })
+    })
+  })
+
+  describe('templates', () => {
+    const mockResponse = () => ({
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    })
+
+    it('should run a template', async () => {
+      const res = mockResponse()
+
+      await controller.runTemplate('tpl-1', res as any)
+
+      expect(service.runTemplate).toHaveBeenCalledWith('tpl-1')
+      expect(res.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should return 404 for an unknown template', async () => {
+      const res = mockResponse()
+
+      await controller.getTemplate('missing', res as any)
+
+      expect(res.status).toHaveBeenCalledWith(404)
+      expect(res.json).toHaveBeenCalledWith({ status: 'error', error: 'Template missing not found' })
+    })
+
+    it('should re-run a past test', async () => {
+      const res = mockResponse()
+
+      await controller.rerunTest('test-uuid', res as any)
+
+      expect(service.rerunTest).toHaveBeenCalledWith('test-uuid')
+      expect(res.json).toHaveBeenCalledWith({ status: 'Simulation test is running', testId: 'test-uuid-2' })
+    })
+  })
+
+  describe('compareMediators', () => {
+    it('should start a comparison run', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+      const dto = {
+        mediators: ['did:web:a', 'did:web:b'],
+        scenario: { messagesPerConnection: 1, timestampTestInterval: 1000, numAgent: 2, nameAgent: 'A', testName: 'T' },
+      }
+
+      await controller.compareMediators(dto, mockResponse as any)
+
+      expect(service.runMediatorComparison).toHaveBeenCalledWith(dto)
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        status: 'Comparison is running',
+        comparisonId: 'comparison-uuid',
+      })
+    })
+  })
+
+  describe('getComparison', () => {
+    it('should return 404 for an unknown comparison', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.getComparison('missing', mockResponse as any)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404)
+    })
+  })
+
+  describe('getComparisonReport', () => {
+    it('should download the side-by-side report of a comparison', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        download: jest.fn(),
+      }
+
+      await controller.getComparisonReport('comparison-uuid', mockResponse as any)
+
+      expect(service.generateComparisonReport).toHaveBeenCalledWith('comparison-uuid')
+      expect(mockResponse.download).toHaveBeenCalledWith(
+        '/tmp/report-comparison-comparison-uuid.json',
+        'report-comparison-comparison-uuid.json',
+      )
+    })
+  })
+
+  describe('compareTests', () => {
+    it('should compare two runs with the threshold overrides', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.compareTests('base-uuid', 'candidate-uuid', '5', undefined, '', mockResponse as any)
+
+      expect(service.compareTests).toHaveBeenCalledWith('base-uuid', 'candidate-uuid', {
+        latencyPct: 5,
+        deliveryRatioDrop: undefined,
+        failuresPct: undefined,
+      })
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should require both test IDs', async () => {
+      const mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      }
+
+      await controller.compareTests('base-uuid', undefined, undefined, undefined, undefined, mockResponse as any)
+
+      expect(service.compareTests).not.toHaveBeenCalled()
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+    })
+  })
 })
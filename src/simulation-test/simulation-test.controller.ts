@@ -1,8 +1,34 @@
-import { Controller, Post, Body, Res, HttpStatus, Get, Param } from '@nestjs/common'
-import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam } from '@nestjs/swagger'
+import {
+  Controller,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Res,
+  HttpStatus,
+  HttpException,
+  Get,
+  Param,
+  Query,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam, ApiQuery, ApiConsumes } from '@nestjs/swagger'
 import { SimulationTestService } from './simulation-test.service'
 import { SimulateTestDto } from './dto/simulate-test.dto'
+import { CompareMediatorsDto } from './dto/compare-mediators.dto'
+import { ScenarioDto } from './dto/scenario.dto'
+import { TemplateDto } from './dto/template.dto'
+import { isReportFormat, REPORT_FORMATS } from './utils/export.util'
 import * as path from 'path'
+import { Observable } from 'rxjs'
+
+const REPORT_FORMAT_QUERY = {
+  name: 'format',
+  required: false,
+  enum: REPORT_FORMATS,
+  description: 'json (default), csv (one row per message) or junit (one testcase per SLO assertion and phase)',
+}
 
 @ApiTags('Simulation Test')
 @Controller('simulation-test')
@@ -26,6 +52,117 @@ export class SimulationTestController {
           description: 'Optional description of the test',
         },
         messageRate: { type: 'number', example: 100, description: 'Optional message rate in milliseconds' },
+        timelineBucketMs: {
+          type: 'number',
+          example: 1000,
+          description: 'Optional timeline bucket size in milliseconds',
+        },
+        loadProfile: {
+          type: 'array',
+          description: 'Optional load profile stages (rates in messages per second across all agents)',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['ramp', 'step', 'spike', 'soak'], example: 'ramp' },
+              durationMs: { type: 'number', example: 30000 },
+              targetRate: { type: 'number', example: 50 },
+              name: { type: 'string', example: 'warm-up' },
+            },
+          },
+        },
+        arrivalMode: {
+          type: 'string',
+          enum: ['closed', 'open'],
+          example: 'closed',
+          description: 'Optional arrival mode: closed (per-agent batches) or open (constant arrival rate)',
+        },
+        targetRatePerSecond: { type: 'number', example: 200, description: 'Global open-loop rate (messages/s)' },
+        arrivalDistribution: {
+          type: 'string',
+          enum: ['constant', 'poisson'],
+          example: 'constant',
+          description: 'Optional distribution of open-loop arrivals',
+        },
+        topology: {
+          type: 'string',
+          enum: ['full-mesh', 'star', 'ring', 'random', 'pairs'],
+          example: 'full-mesh',
+          description: 'Optional connection topology',
+        },
+        topologyDegree: { type: 'number', example: 2, description: 'Neighbours per agent for the random topology' },
+        payload: {
+          type: 'object',
+          description: 'Optional payload size distribution and content generator',
+          properties: {
+            sizeMode: { type: 'string', enum: ['fixed', 'range', 'weighted'], example: 'fixed' },
+            sizeBytes: { type: 'number', example: 4096 },
+            minBytes: { type: 'number', example: 512 },
+            maxBytes: { type: 'number', example: 65536 },
+            weights: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { sizeBytes: { type: 'number', example: 1024 }, weight: { type: 'number', example: 3 } },
+              },
+            },
+            content: { type: 'string', enum: ['text', 'json', 'base64'], example: 'json' },
+          },
+        },
+        pickupStrategy: {
+          type: 'string',
+          enum: ['PickUpV1', 'PickUpV2', 'PickUpV2LiveMode', 'Implicit'],
+          example: 'PickUpV2LiveMode',
+          description: 'Optional mediator pickup strategy of the agents',
+        },
+        pollingIntervalMs: {
+          type: 'number',
+          example: 5000,
+          description: 'Mediator polling interval in ms (PickUpV1 and PickUpV2 polling)',
+        },
+        offlineRecipients: {
+          type: 'object',
+          description: 'Optional offline-recipient scenario',
+          properties: {
+            share: { type: 'number', example: 0.25, description: 'Share of recipients taken offline' },
+            offlineDurationMs: { type: 'number', example: 30000, description: 'Time offline before reconnecting' },
+          },
+        },
+        mediator: {
+          type: 'string',
+          example: 'did:web:ca.dev.2060.io',
+          description: 'Optional mediator DID or invitation URL (defaults to AGENT_PUBLIC_DID)',
+        },
+        assertions: {
+          type: 'object',
+          description: 'Optional SLO assertions evaluated into a pass/fail verdict',
+          properties: {
+            maxP95LatencyMs: { type: 'number', example: 500 },
+            maxP99LatencyMs: { type: 'number', example: 1000 },
+            minDeliveryRatio: { type: 'number', example: 0.99 },
+            maxErrorRate: { type: 'number', example: 0.01 },
+            minThroughputPerSecond: { type: 'number', example: 20 },
+          },
+        },
+        churn: {
+          type: 'object',
+          description: 'Optional agent churn during the sending phase',
+          properties: {
+            target: { type: 'string', enum: ['transport', 'agent'], example: 'transport' },
+            ratePerMinute: { type: 'number', example: 6, description: 'Disconnections per minute' },
+            outageMs: { type: 'number', example: 5000, description: 'Time a tenant stays disconnected' },
+            schedule: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  atMs: { type: 'number', example: 15000 },
+                  tenantId: { type: 'string', example: 'Agent-2' },
+                  outageMs: { type: 'number', example: 5000 },
+                },
+              },
+            },
+          },
+        },
       },
     },
   })
@@ -46,6 +183,26 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Run a multi-phase scenario (YAML or JSON document)' })
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ description: 'Versioned scenario with agents, topology and ordered phases', type: ScenarioDto })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Scenario started successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid scenario, with one error per offending field' })
+  @Post('scenarios/run')
+  async runScenario(@Body() document: unknown, @Res() res: any) {
+    try {
+      const { scenario, errors } = await this.simulationTestService.validateScenario(document)
+      if (!scenario) {
+        return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: 'Invalid scenario', errors })
+      }
+
+      const result = await this.simulationTestService.runScenario(scenario)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: error.message })
+    }
+  }
+
   @ApiOperation({ summary: 'Fetch all messages stored in Redis for a test' })
   @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Messages retrieved successfully' })
@@ -64,6 +221,24 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Fetch classified send failures for a test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Failures retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch failures' })
+  @Get('failures/:testId')
+  async getFailuresByTestId(@Param('testId') testId: string, @Res() res: any) {
+    try {
+      const failures = await this.simulationTestService.getFailuresByTestId(testId)
+      return res.status(HttpStatus.OK).json({ status: 'success', failures })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch failures',
+        error: error.message,
+      })
+    }
+  }
+
   @ApiOperation({ summary: 'Fetch metrics grouped by agent for a test' })
   @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Metrics retrieved successfully' })
@@ -72,7 +247,8 @@ export class SimulationTestController {
   async getMetrics(@Param('testId') testId: string, @Res() res: any) {
     try {
       const metrics = await this.simulationTestService.calculateMetricsByAgent(testId)
-      return res.status(HttpStatus.OK).json({ status: 'success', metrics })
+      const failures = await this.simulationTestService.calculateFailuresByAgent(testId)
+      return res.status(HttpStatus.OK).json({ status: 'success', metrics, failures })
     } catch (error) {
       return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
         status: 'error',
@@ -100,6 +276,83 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Fetch delivery accounting (sent, received, lost messages) for a test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Delivery accounting retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch delivery accounting' })
+  @Get('metrics/:testId/delivery')
+  async getDelivery(@Param('testId') testId: string, @Res() res: any) {
+    try {
+      const delivery = await this.simulationTestService.calculateDelivery(testId)
+      return res.status(HttpStatus.OK).json({ status: 'success', delivery })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch delivery accounting',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch queued-message delivery of the recipients taken offline during a test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Offline delivery retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch offline delivery' })
+  @Get('metrics/:testId/offline')
+  async getOfflineDelivery(@Param('testId') testId: string, @Res() res: any) {
+    try {
+      const offlineDelivery = await this.simulationTestService.calculateOfflineDelivery(testId)
+      return res.status(HttpStatus.OK).json({ status: 'success', offlineDelivery })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch offline delivery',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch the impact of agent churn (reconnect time, lost and queued messages) on a test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Churn impact retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch churn impact' })
+  @Get('metrics/:testId/churn')
+  async getChurnImpact(@Param('testId') testId: string, @Res() res: any) {
+    try {
+      const churnImpact = await this.simulationTestService.calculateChurnImpact(testId)
+      return res.status(HttpStatus.OK).json({ status: 'success', churnImpact })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch churn impact',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch the throughput and latency timeline for a test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiQuery({ name: 'bucketMs', required: false, description: 'Bucket size in milliseconds', example: 1000 })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Timeline retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch timeline' })
+  @Get('metrics/:testId/timeline')
+  async getTimeline(@Param('testId') testId: string, @Query('bucketMs') bucketMs: string, @Res() res: any) {
+    try {
+      const parsedBucketMs = bucketMs ? parseInt(bucketMs, 10) : undefined
+      const timeline = await this.simulationTestService.calculateTimeline(
+        testId,
+        parsedBucketMs > 0 ? parsedBucketMs : undefined,
+      )
+      return res.status(HttpStatus.OK).json({ status: 'success', timeline })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch timeline',
+        error: error.message,
+      })
+    }
+  }
+
   @ApiOperation({ summary: 'Fetch all tests stored in Redis' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Tests retrieved successfully' })
   @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch tests' })
@@ -117,6 +370,29 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Delete a test with its stats, messages, failures and stored reports' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiQuery({ name: 'force', required: false, type: Boolean, description: 'Also delete a running test' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Test deleted, with counts of the removed data' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Test not found' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Test is running and force is not set' })
+  @Delete('tests/:testId')
+  async deleteTest(@Param('testId') testId: string, @Res() res: any, @Query('force') force?: string) {
+    try {
+      const result = await this.simulationTestService.deleteTest(testId, force === 'true')
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return res.status(error.getStatus()).json({ status: 'error', error: error.message })
+      }
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to delete test',
+        error: error.message,
+      })
+    }
+  }
+
   @ApiOperation({ summary: 'Activate tenants for a test to receive delayed messages' })
   @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
   @ApiBody({
@@ -144,6 +420,14 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Stream live progress of a simulation (server-sent events)' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Progress events streamed until the run finishes' })
+  @Sse('progress/:testId')
+  streamProgress(@Param('testId') testId: string): Observable<MessageEvent> {
+    return this.simulationTestService.streamProgress(testId)
+  }
+
   @ApiOperation({ summary: 'Stop a running simulation' })
   @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Stop requested' })
@@ -158,14 +442,225 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Start a new test with the same parameters as a past test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test to re-run', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Re-run started successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Test not found' })
+  @Post('rerun/:testId')
+  async rerunTest(@Param('testId') testId: string, @Res() res: any) {
+    try {
+      const result = await this.simulationTestService.rerunTest(testId)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Save a named test template' })
+  @ApiBody({ type: TemplateDto })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template created successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid template' })
+  @Post('templates')
+  async createTemplate(@Body() dto: TemplateDto, @Res() res: any) {
+    try {
+      const template = await this.simulationTestService.createTemplate(dto)
+      return res.status(HttpStatus.OK).json({ status: 'success', template })
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch all test templates' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Templates retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch templates' })
+  @Get('templates')
+  async getTemplates(@Res() res: any) {
+    try {
+      const templates = await this.simulationTestService.getTemplates()
+      return res.status(HttpStatus.OK).json({ status: 'success', templates })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch templates',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch a test template' })
+  @ApiParam({ name: 'templateId', description: 'ID of the template', example: 'template-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Template not found' })
+  @Get('templates/:templateId')
+  async getTemplate(@Param('templateId') templateId: string, @Res() res: any) {
+    try {
+      const template = await this.simulationTestService.getTemplate(templateId)
+      return res.status(HttpStatus.OK).json({ status: 'success', template })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Replace the name, description and configuration of a test template' })
+  @ApiParam({ name: 'templateId', description: 'ID of the template', example: 'template-uuid' })
+  @ApiBody({ type: TemplateDto })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template updated successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Template not found' })
+  @Put('templates/:templateId')
+  async updateTemplate(@Param('templateId') templateId: string, @Body() dto: TemplateDto, @Res() res: any) {
+    try {
+      const template = await this.simulationTestService.updateTemplate(templateId, dto)
+      return res.status(HttpStatus.OK).json({ status: 'success', template })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Delete a test template' })
+  @ApiParam({ name: 'templateId', description: 'ID of the template', example: 'template-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Template deleted successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Template not found' })
+  @Delete('templates/:templateId')
+  async deleteTemplate(@Param('templateId') templateId: string, @Res() res: any) {
+    try {
+      const result = await this.simulationTestService.deleteTemplate(templateId)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Start a test with the configuration of a template' })
+  @ApiParam({ name: 'templateId', description: 'ID of the template', example: 'template-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Test started successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Template not found' })
+  @Post('templates/:templateId/run')
+  async runTemplate(@Param('templateId') templateId: string, @Res() res: any) {
+    try {
+      const result = await this.simulationTestService.runTemplate(templateId)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch the tests run from a template, oldest first' })
+  @ApiParam({ name: 'templateId', description: 'ID of the template', example: 'template-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Tests retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to fetch tests' })
+  @Get('templates/:templateId/tests')
+  async getTestsByTemplate(@Param('templateId') templateId: string, @Res() res: any) {
+    try {
+      const tests = await this.simulationTestService.getTestsByTemplate(templateId)
+      return res.status(HttpStatus.OK).json({ status: 'success', tests })
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to fetch tests',
+        error: error.message,
+      })
+    }
+  }
+
+  @ApiOperation({ summary: 'Compare a candidate test run with a base run and flag regressions' })
+  @ApiQuery({ name: 'base', description: 'ID of the reference test', example: 'base-test-uuid' })
+  @ApiQuery({ name: 'candidate', description: 'ID of the test being checked', example: 'candidate-test-uuid' })
+  @ApiQuery({ name: 'latencyPct', required: false, description: 'Allowed latency increase (%)', example: 10 })
+  @ApiQuery({ name: 'deliveryRatioDrop', required: false, description: 'Allowed delivery ratio drop', example: 0.01 })
+  @ApiQuery({ name: 'failuresPct', required: false, description: 'Allowed failure increase (%)', example: 10 })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Comparison computed successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Missing test IDs or tests not found' })
+  @Get('compare')
+  async compareTests(
+    @Query('base') base: string,
+    @Query('candidate') candidate: string,
+    @Query('latencyPct') latencyPct: string,
+    @Query('deliveryRatioDrop') deliveryRatioDrop: string,
+    @Query('failuresPct') failuresPct: string,
+    @Res() res: any,
+  ) {
+    if (!base || !candidate) {
+      return res
+        .status(HttpStatus.BAD_REQUEST)
+        .json({ status: 'error', error: 'Both base and candidate test IDs are required' })
+    }
+
+    const toNumber = (value?: string) => (value !== undefined && value !== '' ? Number(value) : undefined)
+    try {
+      const comparison = await this.simulationTestService.compareTests(base, candidate, {
+        latencyPct: toNumber(latencyPct),
+        deliveryRatioDrop: toNumber(deliveryRatioDrop),
+        failuresPct: toNumber(failuresPct),
+      })
+      return res.status(HttpStatus.OK).json({ status: 'success', comparison })
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Run the same scenario against several mediators, one after another' })
+  @ApiBody({ type: CompareMediatorsDto })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Comparison started' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid input or comparison failed' })
+  @Post('comparisons')
+  async compareMediators(@Body() dto: CompareMediatorsDto, @Res() res: any) {
+    try {
+      const result = await this.simulationTestService.runMediatorComparison(dto)
+      return res.status(HttpStatus.OK).json(result)
+    } catch (error) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Fetch the status and test IDs of a mediator comparison' })
+  @ApiParam({ name: 'comparisonId', description: 'ID of the comparison', example: 'comparison-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Comparison retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Comparison not found' })
+  @Get('comparisons/:comparisonId')
+  async getComparison(@Param('comparisonId') comparisonId: string, @Res() res: any) {
+    try {
+      const comparison = await this.simulationTestService.getComparison(comparisonId)
+      return res.status(HttpStatus.OK).json({ status: 'success', comparison })
+    } catch (error) {
+      return res.status(HttpStatus.NOT_FOUND).json({ status: 'error', error: error.message })
+    }
+  }
+
+  @ApiOperation({ summary: 'Generate and download the side-by-side report of a mediator comparison' })
+  @ApiParam({ name: 'comparisonId', description: 'ID of the comparison', example: 'comparison-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Comparison report generated successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to generate comparison report' })
+  @Get('reports/comparisons/:comparisonId')
+  async getComparisonReport(@Param('comparisonId') comparisonId: string, @Res() res: any) {
+    try {
+      const { reportPath } = await this.simulationTestService.generateComparisonReport(comparisonId)
+      return res.status(HttpStatus.OK).download(reportPath, path.basename(reportPath))
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to generate comparison report',
+        error: error.message,
+      })
+    }
+  }
+
   @ApiOperation({ summary: 'Generate and download a report for a test' })
   @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiQuery(REPORT_FORMAT_QUERY)
   @ApiResponse({ status: HttpStatus.OK, description: 'Report generated successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Unknown report format' })
   @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to generate report' })
   @Get('reports/:testId')
-  async getReport(@Param('testId') testId: string, @Res() res: any) {
+  async getReport(@Param('testId') testId: string, @Res() res: any, @Query('format') format = 'json') {
+    if (!isReportFormat(format)) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: `Unknown report format "${format}"` })
+    }
+
     try {
-      const { reportPath } = await this.simulationTestService.generateReport(testId)
+      const { reportPath } =
+        format === 'json'
+          ? await this.simulationTestService.generateReport(testId)
+          : await this.simulationTestService.exportReport(testId, format)
       return res.status(HttpStatus.OK).download(reportPath, path.basename(reportPath))
     } catch (error) {
       return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
@@ -176,14 +671,41 @@ export class SimulationTestController {
     }
   }
 
+  @ApiOperation({ summary: 'Generate and download a self-contained HTML report with charts for a test' })
+  @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'HTML report generated successfully' })
+  @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to generate HTML report' })
+  @Get('reports/:testId/html')
+  async getHtmlReport(@Param('testId') testId: string, @Res() res: any) {
+    try {
+      const { reportPath } = await this.simulationTestService.generateHtmlReport(testId)
+      return res.status(HttpStatus.OK).download(reportPath, path.basename(reportPath))
+    } catch (error) {
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        status: 'error',
+        message: 'Failed to generate HTML report',
+        error: error.message,
+      })
+    }
+  }
+
   @ApiOperation({ summary: 'Download a consolidated report (config, totals, messages) for a test' })
   @ApiParam({ name: 'testId', description: 'ID of the test', example: 'test-uuid' })
+  @ApiQuery(REPORT_FORMAT_QUERY)
   @ApiResponse({ status: HttpStatus.OK, description: 'Consolidated report generated successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Unknown report format' })
   @ApiResponse({ status: HttpStatus.INTERNAL_SERVER_ERROR, description: 'Failed to generate consolidated report' })
   @Get('reports/:testId/consolidated')
-  async getConsolidatedReport(@Param('testId') testId: string, @Res() res: any) {
+  async getConsolidatedReport(@Param('testId') testId: string, @Res() res: any, @Query('format') format = 'json') {
+    if (!isReportFormat(format)) {
+      return res.status(HttpStatus.BAD_REQUEST).json({ status: 'error', error: `Unknown report format "${format}"` })
+    }
+
     try {
-      const { reportPath } = await this.simulationTestService.generateConsolidatedReport(testId)
+      const { reportPath } =
+        format === 'json'
+          ? await this.simulationTestService.generateConsolidatedReport(testId)
+          : await this.simulationTestService.exportReport(testId, format)
       return res.status(HttpStatus.OK).download(reportPath, path.basename(reportPath))
     } catch (error) {
       return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
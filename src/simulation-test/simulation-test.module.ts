@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common'
 import { SimulationTestService } from './simulation-test.service'
 import { SimulationTestController } from './simulation-test.controller'
 import { TenantsModule } from 'src/tenants/tenants.module'
+import { ReportsModule } from 'src/reports/reports.module'
 
 @Module({
-  imports: [TenantsModule],
+  imports: [TenantsModule, ReportsModule],
   controllers: [SimulationTestController],
   providers: [SimulationTestService],
+  exports: [SimulationTestService],
 })
 export class SimulationTestModule {}
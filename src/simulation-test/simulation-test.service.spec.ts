@@ -1,9 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing'
 import { SimulationTestService } from './simulation-test.service'
+import { MediatorPickupStrategy } from '@credo-ts/core'
 import { TenantsService } from '../tenants/tenants.service'
 import Redis from 'ioredis'
 import { ConfigService } from '@nestjs/config'
 import * as fs from 'fs'
+import * as path from 'path'
+import { lastValueFrom, toArray } from 'rxjs'
+import { MetricsService } from '../metrics/metrics.service'
+import { TracingService } from '../tracing/tracing.service'
+import { ReportsService } from '../reports/reports.service'
+import { Readable } from 'stream'
 
 jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
 
@@ -14,6 +21,7 @@ describe('SimulationTestService', () => {
   let tenantsServiceMock: Partial<TenantsService>
   let redisMock: Redis
   let configServiceMock: ConfigService
+  let reportsServiceMock: Partial<ReportsService>
 
   beforeEach(async () => {
     // Mock Redis
@@ -21,6 +29,8 @@ describe('SimulationTestService', () => {
       set: jest.fn().mockResolvedValue('OK'),
       get: jest.fn(),
       hgetall: jest.fn(),
+      hincrby: jest.fn().mockResolvedValue(1),
+      del: jest.fn().mockResolvedValue(1),
       flushall: jest.fn().mockResolvedValue('OK'),
     } as unknown as Redis
 
@@ -31,6 +41,11 @@ describe('SimulationTestService', () => {
       createConnection: jest.fn().mockResolvedValue({ status: 'Connection established successfully' }),
       sendMessage: jest.fn().mockResolvedValue({ status: 'Message sent successfully', response: { threadId: '123' } }),
       getConnections: jest.fn().mockResolvedValue([]),
+      isTenantLive: jest.fn().mockReturnValue(true),
+    }
+
+    reportsServiceMock = {
+      deleteReportsByTestId: jest.fn().mockResolvedValue(['report-test-uuid.json', 'report-test-uuid.html']),
     }
 
     configServiceMock = {
@@ -56,6 +71,9 @@ describe('SimulationTestService', () => {
         { provide: TenantsService, useValue: tenantsServiceMock },
         { provide: 'default_IORedisModuleConnectionToken', useValue: redisMock },
         { provide: ConfigService, useValue: configServiceMock },
+        { provide: ReportsService, useValue: reportsServiceMock },
+        MetricsService,
+        TracingService,
       ],
     }).compile()
 
@@ -90,6 +108,200 @@ describe('SimulationTestService', () => {
       expect(redisMock.set).toHaveBeenCalledWith('test:test-uuid', expect.stringContaining('"testName":"Load Test"'))
       expect(runSimulationSpy).toHaveBeenCalled()
     })
+
+    it('should store the pickup strategy and polling interval in the test record', async () => {
+      jest.spyOn(service as any, 'runSimulation').mockResolvedValue(undefined)
+
+      const { testId } = await service.simulateTest({
+        messagesPerConnection: 5,
+        timestampTestInterval: 60000,
+        numAgent: 2,
+        nameAgent: 'Agent',
+        testName: 'Polling',
+        pickupStrategy: MediatorPickupStrategy.PickUpV2,
+        pollingIntervalMs: 1000,
+      })
+
+      const record = JSON.parse((redisMock.set as jest.Mock).mock.calls[0][1])
+      expect(record.parameters).toMatchObject({ pickupStrategy: 'PickUpV2', pollingIntervalMs: 1000 })
+      expect(service['runSimulation']).toHaveBeenCalledWith(
+        testId,
+        expect.objectContaining({ pickupStrategy: 'PickUpV2', pollingIntervalMs: 1000 }),
+        expect.anything(),
+      )
+    })
+  })
+
+  describe('runSimulation', () => {
+    it('should only record the end of the run once churn is over', async () => {
+      let endChurn: () => void
+      jest.spyOn(service as any, 'runChurn').mockReturnValue(new Promise<void>((resolve) => (endChurn = resolve)))
+      jest.spyOn(service as any, 'createAgents').mockResolvedValue([])
+      jest.spyOn(service as any, 'connectTopology').mockResolvedValue({})
+      jest.spyOn(service as any, 'finishRun').mockResolvedValue(undefined)
+      const updateSpy = jest.spyOn(service as any, 'updateTestRecord').mockResolvedValue(undefined)
+      const stopSignal = { stopRequested: false }
+      ;(service as any).activeRuns.set('test-uuid', stopSignal)
+
+      const run = (service as any).runSimulation(
+        'test-uuid',
+        { numAgent: 0, timestampTestInterval: 0, churn: { schedule: [{ atMs: 0, tenantId: 'Agent-1' }] } },
+        stopSignal,
+      )
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(updateSpy).not.toHaveBeenCalledWith('test-uuid', expect.objectContaining({ status: 'completed' }))
+      expect((service as any).activeRuns.has('test-uuid')).toBe(true)
+
+      endChurn()
+      await run
+
+      expect(updateSpy).toHaveBeenCalledWith('test-uuid', expect.objectContaining({ status: 'completed' }))
+      expect((service as any).activeRuns.has('test-uuid')).toBe(false)
+    })
+  })
+
+  describe('runMessageInterval', () => {
+    const runInterval = () =>
+      (service as any).runMessageInterval({
+        testId: 'test-uuid',
+        fromAgent: 'Agent-1',
+        messagesPerConnection: 2,
+        messageRate: 1000,
+        endTime: Date.now() + 50,
+        maxConcurrentMessages: 5,
+        stopSignal: { stopRequested: false },
+      })
+
+    it('should record a failure instead of rejecting when the sender cannot list its connections', async () => {
+      ;(tenantsServiceMock.getConnections as jest.Mock).mockRejectedValue(new Error('Agent is shut down'))
+
+      await expect(runInterval()).resolves.toBeUndefined()
+
+      expect(tenantsServiceMock.sendMessage).not.toHaveBeenCalled()
+      expect(redisMock.hincrby).toHaveBeenCalledTimes(4)
+      expect(redisMock.hincrby).toHaveBeenCalledWith('test:test-uuid:stats', 'failedMessages', 1)
+      const failure = JSON.parse((redisMock.set as jest.Mock).mock.calls[0][1])
+      expect(failure).toMatchObject({ fromTenantId: 'Agent-1', toTenantId: null, error: 'Agent is shut down' })
+    })
+
+    it('should skip sends while the sender is churned offline', async () => {
+      ;(tenantsServiceMock.isTenantLive as jest.Mock).mockReturnValue(false)
+
+      await expect(runInterval()).resolves.toBeUndefined()
+
+      expect(tenantsServiceMock.getConnections).not.toHaveBeenCalled()
+      expect(tenantsServiceMock.sendMessage).not.toHaveBeenCalled()
+      expect(redisMock.hincrby).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sendSimulatedMessage', () => {
+    it('should record only the header and size of a payload', async () => {
+      await (service as any).sendSimulatedMessage({
+        testId: 'test-uuid',
+        fromAgent: 'Agent-1',
+        toAgent: 'Agent-2',
+        messageNumber: 1,
+        payload: { sizeMode: 'fixed', sizeBytes: 4096 },
+      })
+
+      const [, , message, , metadata, recordedMessage] = (tenantsServiceMock.sendMessage as jest.Mock).mock.calls[0]
+      expect(message).toHaveLength(4096)
+      expect(metadata).toEqual({ payloadBytes: 4096 })
+      expect(recordedMessage).toBe('Message #1 from Agent-1 to Agent-2')
+    })
+  })
+
+  describe('runOpenLoop', () => {
+    it('should send at the target rate and record the intended send time', async () => {
+      jest.spyOn(service as any, 'getRandomConnection').mockResolvedValue('Agent-2')
+
+      await (service as any).runOpenLoop({
+        testId: 'test-uuid',
+        agentIds: ['Agent-1'],
+        endTime: Date.now() + 100,
+        stopSignal: { stopRequested: false },
+        rateAt: () => 100,
+        distribution: 'constant',
+      })
+
+      const calls = (tenantsServiceMock.sendMessage as jest.Mock).mock.calls
+      expect(calls.length).toBeGreaterThanOrEqual(9)
+      expect(calls.length).toBeLessThanOrEqual(11)
+      expect(calls[0][0]).toBe('Agent-1')
+      expect(calls[0][1]).toBe('Agent-2')
+      expect(calls[0][4]).toEqual({ intendedTimestamp: expect.any(String) })
+      expect(redisMock.hincrby).toHaveBeenCalledWith('test:test-uuid:stats', 'sentMessages', 1)
+      expect(await service['metricsService'].getMetrics([])).toContain(
+        `mediator_test_messages_sent_total{test_id="test-uuid",test_name=""} ${calls.length}`,
+      )
+    })
+
+    it('should not send while the target rate is zero', async () => {
+      await (service as any).runOpenLoop({
+        testId: 'test-uuid',
+        agentIds: ['Agent-1'],
+        endTime: Date.now() + 50,
+        stopSignal: { stopRequested: false },
+        rateAt: () => 0,
+        distribution: 'poisson',
+      })
+
+      expect(tenantsServiceMock.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should only send from senders that are online', async () => {
+      ;(tenantsServiceMock.isTenantLive as jest.Mock).mockImplementation((agentId: string) => agentId === 'Agent-2')
+      jest.spyOn(service as any, 'getRandomConnection').mockResolvedValue('Agent-3')
+
+      await (service as any).runOpenLoop({
+        testId: 'test-uuid',
+        agentIds: ['Agent-1', 'Agent-2'],
+        endTime: Date.now() + 50,
+        stopSignal: { stopRequested: false },
+        rateAt: () => 100,
+        distribution: 'constant',
+      })
+
+      const senders = (tenantsServiceMock.sendMessage as jest.Mock).mock.calls.map((call) => call[0])
+      expect(senders.length).toBeGreaterThan(0)
+      expect(new Set(senders)).toEqual(new Set(['Agent-2']))
+    })
+  })
+
+  describe('connectAllAgents', () => {
+    it('should connect every agent pair by default', async () => {
+      await service.connectAllAgents(['Agent-1', 'Agent-2', 'Agent-3'])
+
+      expect(tenantsServiceMock.createConnection).toHaveBeenCalledTimes(3)
+    })
+
+    it('should only connect the given topology pairs and report progress', async () => {
+      const onProgress = jest.fn()
+
+      await service.connectAllAgents(['Agent-1', 'Agent-2', 'Agent-3'], onProgress, [
+        ['Agent-1', 'Agent-2'],
+        ['Agent-1', 'Agent-3'],
+      ])
+
+      expect(tenantsServiceMock.createConnection).toHaveBeenCalledTimes(2)
+      expect(tenantsServiceMock.createConnection).toHaveBeenCalledWith('Agent-1', 'Agent-3')
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2)
+    })
+  })
+
+  describe('getRandomConnection', () => {
+    it('should only pick targets allowed by the topology', async () => {
+      ;(tenantsServiceMock.getConnections as jest.Mock).mockResolvedValue([
+        { state: 'completed', theirDid: 'did:1', theirLabel: 'Agent-2' },
+        { state: 'completed', theirDid: 'did:2', theirLabel: 'Agent-3' },
+      ])
+
+      const target = await (service as any).getRandomConnection('Agent-1', ['Agent-3'])
+
+      expect(target).toBe('Agent-3')
+    })
   })
 
   describe('getMessagesByTestId', () => {
@@ -147,12 +359,335 @@ describe('SimulationTestService', () => {
 
   describe('calculateTotals', () => {
     it('should calculate total metrics using aggregated stats', async () => {
-      jest.spyOn(redisMock, 'hgetall').mockResolvedValue({ totalMessages: '2', totalProcessingTimeMs: '80' })
+      jest.spyOn(redisMock, 'hgetall').mockResolvedValue({
+        totalMessages: '2',
+        totalProcessingTimeMs: '80',
+        failedMessages: '3',
+        'failures:timeout': '2',
+        'failures:transport_error': '1',
+      })
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (_pattern: string, onRecord: (record: any) => void) => {
+          onRecord({ processingTimeMs: 30 })
+          onRecord({ processingTimeMs: 50 })
+          onRecord({ processingTimeMs: null })
+        })
 
       const result = await service.calculateTotals('test-uuid')
 
       expect(result.totalMessages).toBe(2)
       expect(result.averageProcessingTimeMs).toBe(40)
+      expect(result.latency.count).toBe(2)
+      expect(result.latency.minMs).toBe(30)
+      expect(result.latency.maxMs).toBe(50)
+      expect(result.latency.p99Ms).toBe(50)
+      expect(result.failures).toEqual({ total: 3, byType: { timeout: 2, transport_error: 1 } })
+    })
+  })
+
+  describe('calculateTimeline', () => {
+    it('should bucket messages from the start of the sending phase', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          testId: 'test-uuid',
+          startDate: '2024-01-01T00:00:00.000Z',
+          sendStartDate: '2024-01-01T00:00:10.000Z',
+          parameters: { timelineBucketMs: 2000 },
+        }),
+      )
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (pattern: string, onRecord: (record: any) => Promise<void>) => {
+          if (pattern.startsWith('message:')) {
+            await onRecord({
+              timestamp: '2024-01-01T00:00:10.500Z',
+              processedTimestamp: '2024-01-01T00:00:12.500Z',
+              processingTimeMs: 2000,
+            })
+          } else {
+            onRecord({ timestamp: '2024-01-01T00:00:11.000Z' })
+          }
+        })
+
+      const result = await service.calculateTimeline('test-uuid')
+
+      expect(result.bucketMs).toBe(2000)
+      expect(result.startDate).toBe('2024-01-01T00:00:10.000Z')
+      expect(result.buckets).toHaveLength(2)
+      expect(result.buckets[0]).toMatchObject({ sent: 1, failed: 1, processed: 0 })
+      expect(result.buckets[1]).toMatchObject({ processed: 1, meanLatencyMs: 2000, p95LatencyMs: 2000 })
+    })
+  })
+
+  describe('calculateTimeline with load profile', () => {
+    it('should tag each bucket with the load stage it belongs to', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          testId: 'test-uuid',
+          sendStartDate: '2024-01-01T00:00:00.000Z',
+          parameters: {
+            timelineBucketMs: 1000,
+            loadProfile: [
+              { type: 'ramp', durationMs: 1000, targetRate: 10 },
+              { type: 'spike', durationMs: 1000, targetRate: 100, name: 'burst' },
+            ],
+          },
+        }),
+      )
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (pattern: string, onRecord: (record: any) => Promise<void>) => {
+          if (pattern.startsWith('message:')) {
+            await onRecord({ timestamp: '2024-01-01T00:00:00.500Z' })
+            onRecord({ timestamp: '2024-01-01T00:00:01.500Z' })
+          }
+        })
+
+      const result = await service.calculateTimeline('test-uuid')
+
+      expect(result.stages).toHaveLength(2)
+      expect(result.buckets[0].stage).toEqual({ index: 0, name: 'ramp-1', type: 'ramp' })
+      expect(result.buckets[1].stage).toEqual({ index: 1, name: 'burst', type: 'spike' })
+    })
+  })
+
+  describe('calculateFailuresByAgent', () => {
+    it('should count send failures per agent and error class', async () => {
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (_pattern: string, onRecord: (record: any) => void) => {
+          onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-2', errorType: 'timeout' })
+          onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-3', errorType: 'timeout' })
+          onRecord({ fromTenantId: 'Agent-2', toTenantId: 'Agent-1', errorType: 'no_active_connection' })
+        })
+
+      const result = await service.calculateFailuresByAgent('test-uuid')
+
+      expect(result['Agent-1']).toEqual({ total: 2, byType: { timeout: 2 } })
+      expect(result['Agent-2']).toEqual({ total: 1, byType: { no_active_connection: 1 } })
+    })
+  })
+
+  describe('calculateTotals for open-loop tests', () => {
+    it('should report corrected latency and schedule lag', async () => {
+      jest.spyOn(redisMock, 'hgetall').mockResolvedValue({ totalMessages: '1', totalProcessingTimeMs: '100' })
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (_pattern: string, onRecord: (record: any) => void) => {
+          onRecord({
+            intendedTimestamp: '2024-01-01T00:00:00.000Z',
+            timestamp: '2024-01-01T00:00:00.250Z',
+            processingTimeMs: 100,
+            correctedProcessingTimeMs: 350,
+          })
+        })
+
+      const result = await service.calculateTotals('test-uuid')
+
+      expect(result.latency.p50Ms).toBe(100)
+      expect(result.correctedLatency.p50Ms).toBe(350)
+      expect(result.scheduleLag.maxMs).toBe(250)
+    })
+  })
+
+  describe('calculateDelivery', () => {
+    it('should account for sent, failed, delivered and undelivered messages', async () => {
+      jest.spyOn(redisMock, 'hgetall').mockResolvedValue({ attemptedMessages: '5', failedMessages: '1' })
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (_pattern: string, onRecord: (record: any) => void) => {
+          onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-2', threadId: 't1', processedTimestamp: 'x' })
+          onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-2', threadId: 't2', processedTimestamp: 'x' })
+          onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-2', threadId: 't3' })
+          onRecord({ fromTenantId: 'Agent-2', toTenantId: 'Agent-1', threadId: 't4', processedTimestamp: 'x' })
+        })
+
+      const result = await service.calculateDelivery('test-uuid')
+
+      expect(result.attempted).toBe(5)
+      expect(result.sent).toBe(4)
+      expect(result.failedToSend).toBe(1)
+      expect(result.delivered).toBe(3)
+      expect(result.undelivered).toBe(1)
+      expect(result.deliveryRatio).toBe(0.75)
+      expect(result.undeliveredByPair).toEqual([
+        { fromTenantId: 'Agent-1', toTenantId: 'Agent-2', count: 1, threadIds: ['t3'] },
+      ])
+    })
+  })
+
+  describe('calculatePayloadBreakdown', () => {
+    it('should group latency and delivery by payload size bucket', async () => {
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (_pattern: string, onRecord: (record: any) => void) => {
+          onRecord({ payloadBytes: 200, processedTimestamp: 'x', processingTimeMs: 20 })
+          onRecord({ payloadBytes: 5000, processedTimestamp: 'x', processingTimeMs: 80 })
+          onRecord({ payloadBytes: 6000 })
+          onRecord({ message: 'no payload configured', processedTimestamp: 'x', processingTimeMs: 10 })
+        })
+
+      const result = await service.calculatePayloadBreakdown('test-uuid')
+
+      expect(result.map((entry) => entry.bucket)).toEqual(['<=256B', '<=16KB'])
+      expect(result[0]).toMatchObject({ sent: 1, delivered: 1, undelivered: 0, deliveryRatio: 1 })
+      expect(result[0].latency.p50Ms).toBe(20)
+      expect(result[1]).toMatchObject({ sent: 2, delivered: 1, undelivered: 1, deliveryRatio: 0.5 })
+      expect(result[1].latency.histogram).toBeUndefined()
+    })
+  })
+
+  describe('calculateOfflineDelivery', () => {
+    it('should return null when the test did not take recipients offline', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', parameters: {} }))
+
+      await expect(service.calculateOfflineDelivery('test-uuid')).resolves.toBeNull()
+    })
+
+    it('should measure queued delivery for each offline recipient', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          testId: 'test-uuid',
+          parameters: { offlineRecipients: { share: 0.5, offlineDurationMs: 10000 } },
+          offlineRecipients: {
+            share: 0.5,
+            tenants: [
+              {
+                tenantId: 'Agent-2',
+                offlineAt: '2024-01-01T00:00:00.000Z',
+                onlineAt: '2024-01-01T00:00:10.000Z',
+                reconnectMs: 1500,
+              },
+            ],
+          },
+        }),
+      )
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (_pattern: string, onRecord: (record: any) => void) => {
+          onRecord({
+            toTenantId: 'Agent-2',
+            timestamp: '2024-01-01T00:00:02.000Z',
+            processedTimestamp: '2024-01-01T00:00:12.000Z',
+            processingTimeMs: 10000,
+          })
+          onRecord({ toTenantId: 'Agent-2', timestamp: '2024-01-01T00:00:03.000Z' })
+          onRecord({ toTenantId: 'Agent-1', timestamp: '2024-01-01T00:00:03.000Z' })
+        })
+
+      const result = await service.calculateOfflineDelivery('test-uuid')
+
+      expect(result).toMatchObject({ share: 0.5, offlineDurationMs: 10000, queued: 2, delivered: 1, drainTimeMs: 2000 })
+      expect(result.byTenant).toEqual([
+        expect.objectContaining({ tenantId: 'Agent-2', reconnectMs: 1500, queued: 2, completeness: 0.5 }),
+      ])
+    })
+  })
+
+  describe('runChurn', () => {
+    it('should not reject when a churn event fails', async () => {
+      jest.spyOn(service as any, 'churnTenant').mockRejectedValue(new Error('reconnect failed'))
+      const updateSpy = jest.spyOn(service as any, 'updateTestRecord').mockResolvedValue(undefined)
+      const startTime = Date.now()
+
+      await expect(
+        (service as any).runChurn({
+          testId: 'test-uuid',
+          agentIds: ['Agent-1'],
+          churn: { schedule: [{ atMs: 0, tenantId: 'Agent-1' }] },
+          startTime,
+          endTime: startTime + 1000,
+          stopSignal: { stopRequested: false },
+        }),
+      ).resolves.toBeUndefined()
+      expect(updateSpy).toHaveBeenCalledWith('test-uuid', { churn: { target: 'transport', events: [] } })
+    })
+  })
+
+  describe('calculateChurnImpact', () => {
+    it('should measure reconnect time and messages lost or queued during churn outages', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          testId: 'test-uuid',
+          churn: {
+            target: 'transport',
+            events: [
+              {
+                tenantId: 'Agent-1',
+                target: 'transport',
+                offlineAt: '2024-01-01T00:00:00.000Z',
+                onlineAt: '2024-01-01T00:00:05.000Z',
+                reconnectMs: 400,
+              },
+              { tenantId: 'Agent-2', target: 'transport', offlineAt: '2024-01-01T00:00:01.000Z', error: 'boom' },
+            ],
+          },
+        }),
+      )
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (pattern: string, onRecord: (record: any) => Promise<void>) => {
+          if (pattern.startsWith('message:')) {
+            await onRecord({
+              toTenantId: 'Agent-1',
+              timestamp: '2024-01-01T00:00:02.000Z',
+              processedTimestamp: '2024-01-01T00:00:06.000Z',
+              processingTimeMs: 4000,
+            })
+            onRecord({ toTenantId: 'Agent-1', timestamp: '2024-01-01T00:00:03.000Z' })
+          } else {
+            onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-3', timestamp: '2024-01-01T00:00:01.000Z' })
+            onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-3', timestamp: '2024-01-01T00:00:09.000Z' })
+          }
+        })
+
+      const result = await service.calculateChurnImpact('test-uuid')
+
+      expect(result.events).toBe(2)
+      expect(result.failedEvents).toBe(1)
+      expect(result.reconnect).toMatchObject({ count: 1, maxMs: 400 })
+      expect(result.lostWhileOffline).toEqual({ failedToSend: 1, undeliveredQueued: 1, total: 2 })
+      expect(result.queuedDuringOutage).toMatchObject({ queued: 2, delivered: 1, drainTimeMs: 1000 })
+    })
+
+    it('should return null when the test did not use churn', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid' }))
+
+      await expect(service.calculateChurnImpact('test-uuid')).resolves.toBeNull()
+    })
+  })
+
+  describe('evaluateVerdict', () => {
+    it('should evaluate the assertions of a test against its results', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          testId: 'test-uuid',
+          status: 'completed',
+          sendStartDate: '2024-01-01T00:00:00.000Z',
+          endDate: '2024-01-01T00:00:10.000Z',
+          parameters: { assertions: { maxP95LatencyMs: 100, maxErrorRate: 0.05, minThroughputPerSecond: 5 } },
+        }),
+      )
+      jest.spyOn(service, 'calculateTotals').mockResolvedValue({ latency: { count: 90, p95Ms: 150, p99Ms: 300 } })
+      jest
+        .spyOn(service, 'calculateDelivery')
+        .mockResolvedValue({ attempted: 100, sent: 98, failedToSend: 2, delivered: 90, deliveryRatio: 0.9184 })
+
+      const verdict = await service.evaluateVerdict('test-uuid')
+
+      expect(verdict.status).toBe('fail')
+      expect(verdict.results).toEqual([
+        { assertion: 'maxP95LatencyMs', threshold: 100, actual: 150, passed: false },
+        { assertion: 'maxErrorRate', threshold: 0.05, actual: 0.02, passed: true },
+        { assertion: 'minThroughputPerSecond', threshold: 5, actual: 9, passed: true },
+      ])
+    })
+
+    it('should return null for tests without assertions', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', parameters: {} }))
+
+      await expect(service.evaluateVerdict('test-uuid')).resolves.toBeNull()
     })
   })
 
@@ -164,7 +699,14 @@ describe('SimulationTestService', () => {
           JSON.stringify({ testId: 'test-uuid', testName: 'Load Test', startDate: '2024-01-01T00:00:00Z' }),
         )
       jest.spyOn(service, 'calculateMetricsByAgent').mockResolvedValue({})
+      jest.spyOn(service, 'calculateFailuresByAgent').mockResolvedValue({})
       jest.spyOn(service, 'calculateTotals').mockResolvedValue({})
+      jest.spyOn(service, 'calculateDelivery').mockResolvedValue({})
+      jest.spyOn(service, 'calculateTimeline').mockResolvedValue({})
+      jest.spyOn(service, 'calculatePayloadBreakdown').mockResolvedValue([])
+      jest.spyOn(service, 'calculateOfflineDelivery').mockResolvedValue(null)
+      jest.spyOn(service, 'calculateChurnImpact').mockResolvedValue(null)
+      jest.spyOn(service, 'calculatePhaseResults').mockResolvedValue(null)
 
       const mkdirSpy = jest.spyOn(fs.promises, 'mkdir').mockResolvedValue(undefined)
       const writeSpy = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined)
@@ -177,6 +719,126 @@ describe('SimulationTestService', () => {
     })
   })
 
+  describe('generateHtmlReport', () => {
+    it('should render the report of a test into an HTML file', async () => {
+      jest
+        .spyOn(redisMock, 'get')
+        .mockResolvedValueOnce(
+          JSON.stringify({ testId: 'test-uuid', testName: 'Load Test', startDate: '2024-01-01T00:00:00Z' }),
+        )
+      jest.spyOn(service, 'calculateMetricsByAgent').mockResolvedValue({})
+      jest.spyOn(service, 'calculateFailuresByAgent').mockResolvedValue({})
+      jest.spyOn(service, 'calculateTotals').mockResolvedValue({})
+      jest.spyOn(service, 'calculateDelivery').mockResolvedValue({})
+      jest.spyOn(service, 'calculateTimeline').mockResolvedValue({})
+      jest.spyOn(service, 'calculatePayloadBreakdown').mockResolvedValue([])
+      jest.spyOn(service, 'calculateOfflineDelivery').mockResolvedValue(null)
+      jest.spyOn(service, 'calculateChurnImpact').mockResolvedValue(null)
+      jest.spyOn(service, 'calculatePhaseResults').mockResolvedValue(null)
+
+      jest.spyOn(fs.promises, 'mkdir').mockResolvedValue(undefined)
+      const writeSpy = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined)
+
+      const result = await service.generateHtmlReport('test-uuid')
+
+      expect(result.reportPath).toContain('report-test-uuid.html')
+      expect(result.html).toContain('<h1>Load Test</h1>')
+      expect(writeSpy).toHaveBeenCalledWith(result.reportPath, result.html)
+    })
+
+    it('should reject an unknown test', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(null)
+
+      await expect(service.generateHtmlReport('missing')).rejects.toThrow('[generateHtmlReport] Test missing not found')
+    })
+  })
+
+  describe('exportReport', () => {
+    beforeEach(() => {
+      // Earlier report tests stub fs.promises.mkdir
+      fs.mkdirSync('/tmp/reports', { recursive: true })
+    })
+
+    it('should stream one CSV row per sent and failed message', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', status: 'completed' }))
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (pattern: string, onRecord: (record: any) => Promise<void>) => {
+          if (pattern.startsWith('message:')) {
+            await onRecord({
+              fromTenantId: 'Agent-1',
+              toTenantId: 'Agent-2',
+              threadId: 'thread-1',
+              timestamp: '2024-01-01T00:00:00.000Z',
+              processedTimestamp: '2024-01-01T00:00:00.120Z',
+              processingTimeMs: 120,
+            })
+          } else {
+            await onRecord({
+              fromTenantId: 'Agent-2',
+              toTenantId: 'Agent-1',
+              timestamp: '2024-01-01T00:00:01.000Z',
+              errorType: 'timeout',
+            })
+          }
+        })
+
+      const { reportPath } = await service.exportReport('test-uuid', 'csv')
+
+      expect(path.basename(reportPath)).toBe('report-test-uuid.csv')
+      expect(fs.readFileSync(reportPath, 'utf8').split('\n')).toEqual([
+        'fromTenantId,toTenantId,threadId,sentTimestamp,processedTimestamp,latencyMs,status,errorType',
+        'Agent-1,Agent-2,thread-1,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.120Z,120,processed,',
+        'Agent-2,Agent-1,,2024-01-01T00:00:01.000Z,,,failed,timeout',
+        '',
+      ])
+    })
+
+    it('should wait for the file stream to drain when exporting many messages', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', status: 'completed' }))
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (pattern: string, onRecord: (record: any) => Promise<void>) => {
+          if (!pattern.startsWith('message:')) {
+            return
+          }
+          for (let i = 0; i < 5000; i++) {
+            await onRecord({ fromTenantId: 'Agent-1', toTenantId: 'Agent-2', threadId: `thread-${i}` })
+          }
+        })
+
+      const { reportPath } = await service.exportReport('test-uuid', 'csv')
+
+      const lines = fs.readFileSync(reportPath, 'utf8').trim().split('\n')
+      expect(lines).toHaveLength(5001)
+      expect(lines[5000]).toBe('Agent-1,Agent-2,thread-4999,,,,pending,')
+    })
+
+    it('should write the stored verdict and phase results as JUnit XML', async () => {
+      const verdict = {
+        status: 'fail',
+        results: [{ assertion: 'minDeliveryRatio', threshold: 0.99, actual: 0.9, passed: false }],
+      }
+      jest
+        .spyOn(redisMock, 'get')
+        .mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', testName: 'Gate', status: 'completed', verdict }))
+      jest.spyOn(service, 'calculatePhaseResults').mockResolvedValue(null)
+
+      const { reportPath } = await service.exportReport('test-uuid', 'junit')
+
+      expect(path.basename(reportPath)).toBe('report-test-uuid.junit.xml')
+      expect(fs.readFileSync(reportPath, 'utf8')).toContain(
+        '<failure message="minDeliveryRatio: actual 0.9 &lt; threshold 0.99" type="SloAssertion"/>',
+      )
+    })
+
+    it('should reject an unknown test', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(null)
+
+      await expect(service.exportReport('missing', 'csv')).rejects.toThrow('[exportReport] Test missing not found')
+    })
+  })
+
   describe('generateConsolidatedReport', () => {
     it('should generate a consolidated report file for a test', async () => {
       jest
@@ -185,7 +847,14 @@ describe('SimulationTestService', () => {
           JSON.stringify({ testId: 'test-uuid', testName: 'Load Test', startDate: '2024-01-01T00:00:00Z' }),
         )
       jest.spyOn(service, 'calculateTotals').mockResolvedValue({})
+      jest.spyOn(service, 'calculateDelivery').mockResolvedValue({})
+      jest.spyOn(service, 'calculateTimeline').mockResolvedValue({})
+      jest.spyOn(service, 'calculatePayloadBreakdown').mockResolvedValue([])
+      jest.spyOn(service, 'calculateOfflineDelivery').mockResolvedValue(null)
+      jest.spyOn(service, 'calculateChurnImpact').mockResolvedValue(null)
+      jest.spyOn(service, 'calculatePhaseResults').mockResolvedValue(null)
       jest.spyOn(service, 'getMessagesByTestId').mockResolvedValue([])
+      jest.spyOn(service, 'getFailuresByTestId').mockResolvedValue([])
 
       const mkdirSpy = jest.spyOn(fs.promises, 'mkdir').mockResolvedValue(undefined)
       const writeSpy = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined)
@@ -198,6 +867,331 @@ describe('SimulationTestService', () => {
     })
   })
 
+  describe('compareTests', () => {
+    it('should diff parameters and metrics and flag regressions', async () => {
+      jest
+        .spyOn(redisMock, 'get')
+        .mockResolvedValueOnce(JSON.stringify({ testId: 'base', parameters: { numAgent: 4, mediator: 'did:web:a' } }))
+        .mockResolvedValueOnce(
+          JSON.stringify({ testId: 'candidate', parameters: { numAgent: 4, mediator: 'did:web:b' } }),
+        )
+      jest
+        .spyOn(service, 'calculateTotals')
+        .mockImplementation(async (testId) =>
+          testId === 'base'
+            ? { latency: { p95Ms: 100 }, failures: { total: 1, byType: { timeout: 1 } } }
+            : { latency: { p95Ms: 150 }, failures: { total: 1, byType: { transport_error: 1 } } },
+        )
+      jest.spyOn(service, 'calculateDelivery').mockResolvedValue({ deliveryRatio: 1 })
+
+      const result = await service.compareTests('base', 'candidate', { latencyPct: 20 })
+
+      expect(result.thresholds.latencyPct).toBe(20)
+      expect(result.thresholds.deliveryRatioDrop).toBe(0.01)
+      expect(result.parameters).toEqual([{ parameter: 'mediator', base: 'did:web:a', candidate: 'did:web:b' }])
+      expect(result.regressions).toEqual(['latencyP95Ms'])
+      expect(result.regressed).toBe(true)
+      expect(result.errorsByType).toEqual([
+        { type: 'timeout', base: 1, candidate: 0, delta: -1 },
+        { type: 'transport_error', base: 0, candidate: 1, delta: 1 },
+      ])
+    })
+
+    it('should throw when a test does not exist', async () => {
+      jest
+        .spyOn(redisMock, 'get')
+        .mockResolvedValueOnce(JSON.stringify({ testId: 'base' }))
+        .mockResolvedValueOnce(null)
+
+      await expect(service.compareTests('base', 'missing')).rejects.toThrow('Test missing not found')
+    })
+  })
+
+  describe('validateScenario', () => {
+    it('should parse a YAML scenario', async () => {
+      const { scenario, errors } = await service.validateScenario(
+        [
+          'version: 1',
+          'name: Star with offline recipients',
+          'agents:',
+          '  count: 20',
+          'topology: star',
+          'phases:',
+          '  - { name: warm-up, type: send, durationMs: 30000, rate: 10 }',
+          '  - { name: offline, type: offline, durationMs: 20000, agents: 5, rate: 10 }',
+          '  - { name: drain, type: drain, durationMs: 10000 }',
+        ].join('\n'),
+      )
+
+      expect(errors).toEqual([])
+      expect(scenario.agents.count).toBe(20)
+      expect(scenario.phases.map((phase) => phase.type)).toEqual(['send', 'offline', 'drain'])
+    })
+
+    it('should report each invalid field with its path', async () => {
+      const { scenario, errors } = await service.validateScenario({
+        version: 2,
+        name: 'Invalid',
+        agents: { count: 20 },
+        phases: [
+          { name: 'load', type: 'send', durationMs: 30000 },
+          { name: 'offline', type: 'offline', durationMs: 10, agents: 5 },
+        ],
+      })
+
+      expect(scenario).toBeUndefined()
+      expect(errors).toEqual([
+        'version: version must be one of the following values: 1',
+        'phases[0].rate: rate must not be less than 0.1',
+        'phases[0].rate: rate must be a number conforming to the specified constraints',
+        'phases[1].durationMs: durationMs must not be less than 1000',
+      ])
+    })
+
+    it('should check rules spanning several fields', async () => {
+      const { errors } = await service.validateScenario({
+        version: 1,
+        name: 'Inconsistent',
+        agents: { count: 3 },
+        phases: [
+          { name: 'load', type: 'send', durationMs: 1000, rate: 1 },
+          { name: 'load', type: 'offline', durationMs: 1000, agents: 3 },
+        ],
+      })
+
+      expect(errors).toEqual([
+        'phases[1].name: phase name "load" is used more than once',
+        'phases[1].agents: cannot take 3 agents offline out of 3, at least one must stay online',
+      ])
+    })
+
+    it('should report YAML syntax errors', async () => {
+      const { errors } = await service.validateScenario('version: 1\nphases: [')
+
+      expect(errors[0]).toMatch(/^Invalid scenario document: /)
+    })
+  })
+
+  describe('calculatePhaseResults', () => {
+    it('should return null for tests that are not scenarios', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', parameters: {} }))
+
+      await expect(service.calculatePhaseResults('test-uuid')).resolves.toBeNull()
+    })
+
+    it('should summarize the messages of each phase window', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          testId: 'test-uuid',
+          phases: [
+            {
+              index: 0,
+              name: 'load',
+              type: 'send',
+              startDate: '2024-01-01T00:00:00.000Z',
+              endDate: '2024-01-01T00:00:10.000Z',
+            },
+            {
+              index: 1,
+              name: 'drain',
+              type: 'drain',
+              startDate: '2024-01-01T00:00:10.000Z',
+              endDate: '2024-01-01T00:00:20.000Z',
+            },
+          ],
+        }),
+      )
+      jest
+        .spyOn(service as any, 'scanJsonRecords')
+        .mockImplementation(async (pattern: string, onRecord: (record: any) => void) => {
+          if (pattern.startsWith('failure:')) {
+            onRecord({ timestamp: '2024-01-01T00:00:05.000Z' })
+            return
+          }
+          onRecord({
+            timestamp: '2024-01-01T00:00:01.000Z',
+            processedTimestamp: '2024-01-01T00:00:02.000Z',
+            processingTimeMs: 1000,
+          })
+          onRecord({
+            timestamp: '2024-01-01T00:00:09.000Z',
+            processedTimestamp: '2024-01-01T00:00:12.000Z',
+            processingTimeMs: 3000,
+          })
+        })
+
+      const [load, drain] = await service.calculatePhaseResults('test-uuid')
+
+      expect(load).toMatchObject({ name: 'load', sent: 2, delivered: 2, processed: 1, failed: 1, deliveryRatio: 1 })
+      expect(load.latency.maxMs).toBe(3000)
+      expect(drain).toMatchObject({ name: 'drain', sent: 0, processed: 1, throughputPerSecond: 0.1 })
+    })
+  })
+
+  describe('runMediatorComparison', () => {
+    it('should run the scenario against each mediator one after another', async () => {
+      const order: string[] = []
+      const simulateSpy = jest.spyOn(service, 'simulateTest').mockImplementation(async (config) => {
+        order.push(`start ${config.mediator}`)
+        return { status: 'Simulation test is running', testId: `test-${config.mediator}` }
+      })
+      jest.spyOn(service, 'waitForCompletion').mockImplementation(async (testId) => {
+        order.push(`done ${testId}`)
+        return { testId, status: 'completed' }
+      })
+      const records: Record<string, string> = {}
+      jest.spyOn(redisMock, 'set').mockImplementation(async (key: string, value: string) => {
+        records[key] = value
+        return 'OK'
+      })
+      jest.spyOn(redisMock, 'get').mockImplementation(async (key: string) => records[key] ?? null)
+
+      const { comparisonId } = await service.runMediatorComparison({
+        mediators: ['did:web:a', 'https://mediator-b/invitation?oob=abc'],
+        scenario: { messagesPerConnection: 1, timestampTestInterval: 1000, numAgent: 2, nameAgent: 'A', testName: 'T' },
+      })
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(order).toEqual([
+        'start did:web:a',
+        'done test-did:web:a',
+        'start https://mediator-b/invitation?oob=abc',
+        'done test-https://mediator-b/invitation?oob=abc',
+      ])
+      expect(simulateSpy).toHaveBeenCalledWith(expect.objectContaining({ testName: 'T [did:web:a]' }))
+      const comparison = await service.getComparison(comparisonId)
+      expect(comparison.status).toBe('completed')
+      expect(comparison.runs.map((run) => run.status)).toEqual(['completed', 'completed'])
+    })
+  })
+
+  describe('generateComparisonReport', () => {
+    it('should lay the runs of a comparison out side by side', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          comparisonId: 'comparison-uuid',
+          runs: [
+            { mediator: 'did:web:a', testId: 'test-a' },
+            { mediator: 'did:web:b', testId: 'test-b' },
+          ],
+        }),
+      )
+      jest
+        .spyOn(service, 'calculateTotals')
+        .mockImplementation(async (testId) => ({ latency: { p95Ms: testId === 'test-a' ? 80 : 120 } }))
+      jest.spyOn(service, 'calculateDelivery').mockResolvedValue({ deliveryRatio: 1 })
+      jest.spyOn(fs.promises, 'mkdir').mockResolvedValue(undefined)
+      jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined)
+
+      const { reportPath, report } = await service.generateComparisonReport('comparison-uuid')
+
+      expect(reportPath).toContain('report-comparison-comparison-uuid.json')
+      expect(report.sideBySide).toContainEqual({
+        metric: 'latencyP95Ms',
+        values: { 'did:web:a': 80, 'did:web:b': 120 },
+      })
+    })
+  })
+
+  describe('templates', () => {
+    const config = { messagesPerConnection: 1, timestampTestInterval: 1000, numAgent: 2, nameAgent: 'A', testName: 'T' }
+    let records: Record<string, string>
+
+    beforeEach(() => {
+      records = {}
+      jest.spyOn(redisMock, 'set').mockImplementation(async (key: string, value: string) => {
+        records[key] = value
+        return 'OK'
+      })
+      jest.spyOn(redisMock, 'get').mockImplementation(async (key: string) => records[key] ?? null)
+    })
+
+    it('should create, update and fetch a template', async () => {
+      const created = await service.createTemplate({ name: 'Baseline', config })
+      const updated = await service.updateTemplate(created.templateId, {
+        name: 'Baseline',
+        description: 'Four agents',
+        config: { ...config, numAgent: 4 },
+      })
+
+      expect(records['template:test-uuid']).toBeDefined()
+      expect(updated).toMatchObject({
+        templateId: 'test-uuid',
+        description: 'Four agents',
+        createdAt: created.createdAt,
+      })
+      await expect(service.getTemplate('test-uuid')).resolves.toMatchObject({ config: { numAgent: 4 } })
+      await expect(service.getTemplate('missing')).rejects.toThrow('Template missing not found')
+    })
+
+    it('should run a template and keep its ID on the test', async () => {
+      const simulateSpy = jest
+        .spyOn(service, 'simulateTest')
+        .mockResolvedValue({ status: 'Simulation test is running', testId: 'run-1' })
+      records['template:tpl-1'] = JSON.stringify({ templateId: 'tpl-1', name: 'Baseline', config })
+
+      await service.runTemplate('tpl-1')
+
+      expect(simulateSpy).toHaveBeenCalledWith(config, { templateId: 'tpl-1' })
+    })
+
+    it('should re-run a past test with the same parameters', async () => {
+      const simulateSpy = jest
+        .spyOn(service, 'simulateTest')
+        .mockResolvedValue({ status: 'Simulation test is running', testId: 'run-2' })
+      records['test:run-1'] = JSON.stringify({
+        testId: 'run-1',
+        testName: 'T',
+        templateId: 'tpl-1',
+        parameters: {
+          messagesPerConnection: 1,
+          timestampTestInterval: 1000,
+          numAgent: 2,
+          nameAgent: 'A',
+          messageRate: 100,
+          mediator: 'did:web:a',
+        },
+      })
+
+      await service.rerunTest('run-1')
+
+      expect(simulateSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ testName: 'T', numAgent: 2, messageRate: 100, mediator: 'did:web:a' }),
+        { templateId: 'tpl-1', rerunOf: 'run-1' },
+      )
+    })
+
+    it('should re-run a scenario test as a scenario', async () => {
+      const runScenarioSpy = jest
+        .spyOn(service, 'runScenario')
+        .mockResolvedValue({ status: 'Scenario is running', testId: 'run-2' })
+      const scenario = { version: 1, name: 'S', agents: { count: 2 }, phases: [] }
+      records['test:run-1'] = JSON.stringify({ testId: 'run-1', testName: 'S', scenario, parameters: {} })
+
+      await service.rerunTest('run-1')
+
+      expect(runScenarioSpy).toHaveBeenCalledWith(scenario, { templateId: undefined, rerunOf: 'run-1' })
+    })
+
+    it('should group the tests of a template', async () => {
+      jest.spyOn(service, 'getTests').mockResolvedValue([
+        { testId: 'b', templateId: 'tpl-1', startDate: '2024-01-02T00:00:00.000Z' },
+        { testId: 'c', templateId: 'tpl-2', startDate: '2024-01-01T00:00:00.000Z' },
+        { testId: 'a', templateId: 'tpl-1', startDate: '2024-01-01T00:00:00.000Z' },
+      ])
+
+      const tests = await service.getTestsByTemplate('tpl-1')
+
+      expect(tests.map((test) => test.testId)).toEqual(['a', 'b'])
+    })
+
+    it('should fail to delete a missing template', async () => {
+      jest.spyOn(redisMock, 'del').mockResolvedValueOnce(0)
+
+      await expect(service.deleteTemplate('missing')).rejects.toThrow('Template missing not found')
+    })
+  })
+
   describe('getTests', () => {
     it('should fetch test records from Redis', async () => {
       const scanSpy = jest
@@ -216,20 +1210,74 @@ describe('SimulationTestService', () => {
 
   describe('activateTenantsForTest', () => {
     it('should activate tenants from test record and schedule cleanup', async () => {
-      jest
-        .spyOn(redisMock, 'get')
-        .mockResolvedValueOnce(JSON.stringify({ parameters: { numAgent: 2, nameAgent: 'Agent' } }))
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(
+        JSON.stringify({
+          parameters: { numAgent: 2, nameAgent: 'Agent', pickupStrategy: 'PickUpV1', pollingIntervalMs: 2000 },
+        }),
+      )
       const createAgentsSpy = jest.spyOn(service as any, 'createAgents').mockResolvedValue(['Agent-1', 'Agent-2'])
       jest.spyOn(global, 'setTimeout')
 
       const result = await service.activateTenantsForTest('test-uuid', 5000)
 
-      expect(createAgentsSpy).toHaveBeenCalledWith(2, 'Agent')
+      expect(createAgentsSpy).toHaveBeenCalledWith(2, 'Agent', { pickupStrategy: 'PickUpV1', pollingIntervalMs: 2000 })
       expect(result.cleanupDelayMs).toBe(5000)
       expect(result.tenantIds).toEqual(['Agent-1', 'Agent-2'])
     })
   })
 
+  describe('getProgress', () => {
+    it('should combine the run phase with message counters', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValueOnce(JSON.stringify({ testId: 'test-uuid', status: 'running' }))
+      jest.spyOn(redisMock, 'hgetall').mockResolvedValueOnce({
+        attemptedMessages: '10',
+        sentMessages: '8',
+        totalMessages: '6',
+        failedMessages: '2',
+      })
+      ;(service as any).updateProgress('test-uuid', {
+        phase: 'sending',
+        agents: { created: 3, total: 3 },
+        connections: { established: 3, total: 3 },
+      })
+
+      const result = await service.getProgress('test-uuid')
+
+      expect(result.phase).toBe('sending')
+      expect(result.agents).toEqual({ created: 3, total: 3 })
+      expect(result.counters).toEqual({ attempted: 10, sent: 8, processed: 6, failed: 2 })
+      expect(result.finished).toBe(false)
+    })
+  })
+
+  describe('streamProgress', () => {
+    it('should complete once the run has finished', async () => {
+      jest.spyOn(service, 'getProgress').mockResolvedValue({
+        testId: 'test-uuid',
+        status: 'completed',
+        counters: { attempted: 1, sent: 1, processed: 1, failed: 0 },
+        timestamp: new Date().toISOString(),
+        finished: true,
+      })
+
+      const events = await lastValueFrom(service.streamProgress('test-uuid', 10).pipe(toArray()))
+
+      expect(events).toHaveLength(1)
+      expect(events[0].data.status).toBe('completed')
+      expect(events[0].data.throughput).toEqual({ sentPerSecond: 0, processedPerSecond: 0 })
+    })
+
+    it('should emit an error event when the test does not exist', async () => {
+      jest.spyOn(service, 'getProgress').mockRejectedValue(new Error('Test test-uuid not found'))
+
+      const events = await lastValueFrom(service.streamProgress('test-uuid', 10).pipe(toArray()))
+
+      expect(events).toEqual([
+        { data: { testId: 'test-uuid', status: 'error', error: 'Test test-uuid not found', finished: true } },
+      ])
+    })
+  })
+
   describe('stopSimulation', () => {
     it('should request stop for an active simulation', async () => {
       const stopSignal = { stopRequested: false }
@@ -242,4 +1290,60 @@ describe('SimulationTestService', () => {
       expect(stopSignal.stopRequested).toBe(true)
     })
   })
+
+  describe('deleteTest', () => {
+    const keysByPattern: Record<string, string[][]> = {
+      'message:test-uuid:*': [['message:test-uuid:thread-1', 'message:test-uuid:thread-2'], []],
+      'failure:test-uuid:*': [['failure:test-uuid:f-1']],
+    }
+
+    beforeEach(() => {
+      ;(redisMock as any).scanStream = jest.fn(({ match }) => Readable.from(keysByPattern[match] ?? []))
+      jest.spyOn(redisMock, 'del').mockImplementation(async (...keys: any[]) => keys.length)
+    })
+
+    it('should delete only the data of the test and count what was removed', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValue(JSON.stringify({ testId: 'test-uuid', status: 'completed' }))
+
+      const result = await service.deleteTest('test-uuid')
+
+      expect(result).toEqual({
+        status: 'Test deleted',
+        testId: 'test-uuid',
+        deleted: { test: 1, stats: 1, messages: 2, messageIndexes: 2, failures: 1, reports: 2 },
+      })
+      expect(redisMock.del).toHaveBeenCalledWith('message-index:thread-1', 'message-index:thread-2')
+      expect(redisMock.del).toHaveBeenCalledWith('test:test-uuid:stats')
+      expect(redisMock.del).toHaveBeenCalledWith('test:test-uuid')
+      expect(redisMock.flushall).not.toHaveBeenCalled()
+      expect(reportsServiceMock.deleteReportsByTestId).toHaveBeenCalledWith('test-uuid')
+    })
+
+    it('should refuse to delete a running test unless forced', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValue(JSON.stringify({ testId: 'test-uuid', status: 'running' }))
+      const stopSignal = { stopRequested: false }
+      ;(service as any).activeRuns.set('test-uuid', stopSignal)
+
+      await expect(service.deleteTest('test-uuid')).rejects.toThrow('Test test-uuid is running')
+      expect(redisMock.del).not.toHaveBeenCalled()
+
+      let finishRun: () => void
+      ;(service as any).runCompletions.set('test-uuid', new Promise<void>((resolve) => (finishRun = resolve)))
+
+      const deletion = service.deleteTest('test-uuid', true)
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(stopSignal.stopRequested).toBe(true)
+      expect(redisMock.del).not.toHaveBeenCalled()
+
+      finishRun()
+      await deletion
+      expect(redisMock.del).toHaveBeenCalledWith('test:test-uuid')
+    })
+
+    it('should fail to delete a missing test', async () => {
+      jest.spyOn(redisMock, 'get').mockResolvedValue(null)
+
+      await expect(service.deleteTest('missing')).rejects.toThrow('Test missing not found')
+    })
+  })
 })
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common'
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common'
 import { TenantsService } from '../tenants/tenants.service'
 import Redis from 'ioredis'
 import { InjectRedis } from '@nestjs-modules/ioredis'
@@ -6,61 +6,153 @@ import { SimulateTestDto } from './dto/simulate-test.dto'
 import { ConfigService } from '@nestjs/config'
 import { v4 as uuidv4 } from 'uuid'
 import pLimit = require('p-limit')
+import { catchError, concatMap, from, map, Observable, of, takeWhile, timer } from 'rxjs'
 import * as fs from 'fs'
+import { once } from 'events'
 import * as path from 'path'
+import { calculateLatencyStats, calculateLatencySummary, DEFAULT_LATENCY_BUCKETS_MS } from './utils/latency-stats.util'
+import { classifySendError } from './utils/send-error.util'
+import { buildTimeline } from './utils/timeline.util'
+import { getLoadProfileDuration, getLoadStageWindows, resolveLoadStage } from './utils/load-profile.util'
+import { ArrivalDistribution, nextArrivalDelayMs } from './utils/arrival-schedule.util'
+import { buildTopology, Topology } from './utils/topology.util'
+import { analyzeOutageDelivery, isDuringOutage, selectOfflineRecipients, TenantOutage } from './utils/outage.util'
+import { buildChurnSchedule, ChurnConfig, ChurnTarget } from './utils/churn.util'
+import {
+  buildSideBySide,
+  compareRuns,
+  DEFAULT_REGRESSION_THRESHOLDS,
+  diffParameters,
+  RegressionThresholds,
+  summarizeRun,
+} from './utils/comparison.util'
+import { CompareMediatorsDto } from './dto/compare-mediators.dto'
+import { evaluateAssertions, Verdict } from './utils/slo.util'
+import {
+  AgentOptions,
+  DEFAULT_MEDIATOR_POLLING_INTERVAL_MS,
+  DEFAULT_PICKUP_STRATEGY,
+} from '../lib/agents/agent.options'
+import { generatePayload, getPayloadSizeBucket, PayloadConfig, pickPayloadSize } from './utils/payload.util'
+import { ScenarioDto } from './dto/scenario.dto'
+import { TemplateDto } from './dto/template.dto'
+import { getScenarioDuration, ScenarioPhaseType, ScenarioPhaseWindow, summarizePhase } from './utils/scenario.util'
+import { validateScenarioDocument } from './utils/validation.util'
+import { renderHtmlReport } from './utils/html-report.util'
+import {
+  buildJUnitReport,
+  CSV_MESSAGE_COLUMNS,
+  failureToCsvRow,
+  messageToCsvRow,
+  ReportFormat,
+  toCsvRow,
+} from './utils/export.util'
+import { MetricsService } from '../metrics/metrics.service'
+import { TracingService } from '../tracing/tracing.service'
+import { ReportsService } from '../reports/reports.service'
+
+/**
+ * Phases a simulation goes through while it runs.
+ */
+export type SimulationPhase = 'creating_agents' | 'connecting' | 'sending' | 'draining' | 'cleanup'
+
+export interface SimulationProgress {
+  phase: SimulationPhase
+  agents: { created: number; total: number }
+  connections: { established: number; total: number }
+  /** Phase of the scenario being run, for scenario tests. */
+  scenarioPhase?: { index: number; name: string; type: ScenarioPhaseType }
+  updatedAt: string
+}
+
+/**
+ * Where a test comes from: the template it was run from, the test it re-runs and/or the schedule that
+ * launched it.
+ */
+export interface TestOrigin {
+  templateId?: string
+  rerunOf?: string
+  scheduleId?: string
+}
 
 @Injectable()
 export class SimulationTestService {
   private readonly logger = new Logger(SimulationTestService.name)
   private readonly reportsDir: string
   private readonly activeRuns = new Map<string, { stopRequested: boolean }>()
+  private readonly runProgress = new Map<string, SimulationProgress>()
+  private readonly runCompletions = new Map<string, Promise<void>>()
 
   constructor(
     private readonly tenantsService: TenantsService,
     @InjectRedis() private readonly redisClient: Redis,
     private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+    private readonly tracingService: TracingService,
+    private readonly reportsService: ReportsService,
   ) {
     this.reportsDir = this.configService.get<string>('appConfig.reportsDir') || path.join(process.cwd(), 'reports')
   }
 
   /**
    * Simulates a test involving multiple agents, connections, and message exchanges.
-   * @param messagesPerConnection - Number of messages per connection.
-   * @param timestampTestInterval - Total duration of the test (in milliseconds).
-   * @param numAgent - Number of agents to create.
-   * @param nameAgent - Base name for the agents.
-   * @param messageRate - Optional rate at which messages are sent (in milliseconds).
-   * @param testName - Name of the test.
-   * @param testDescription - Optional description of the test.
+   * @param config - Simulation parameters (see {@link SimulateTestDto}).
+   * @param config.messagesPerConnection - Number of messages per connection.
+   * @param config.timestampTestInterval - Total duration of the test (in milliseconds).
+   * @param config.numAgent - Number of agents to create.
+   * @param config.nameAgent - Base name for the agents.
+   * @param config.messageRate - Optional rate at which messages are sent (in milliseconds).
+   * @param config.testName - Name of the test.
+   * @param config.testDescription - Optional description of the test.
+   * @param config.timelineBucketMs - Optional size of the timeline buckets (in milliseconds).
+   * @param config.loadProfile - Optional stages (ramp, step, spike, soak) driving the send rate.
+   * @param config.arrivalMode - `closed` (per-agent batches, default) or `open` (constant arrival rate).
+   * @param config.targetRatePerSecond - Global rate targeted by the open-loop mode.
+   * @param config.arrivalDistribution - Open-loop arrival distribution: `constant` or `poisson`.
+   * @param config.topology - Connection topology: full-mesh (default), star, ring, random or pairs.
+   * @param config.topologyDegree - Minimum neighbours per agent for the random topology.
+   * @param config.payload - Optional payload size distribution and content generator.
+   * @param config.pickupStrategy - Mediator pickup strategy of the agents (default: PickUpV2LiveMode).
+   * @param config.pollingIntervalMs - Mediator polling interval for the polling pickup strategies.
+   * @param config.offlineRecipients - Optional share of recipients taken offline during sending, and for how long.
+   * @param config.churn - Optional churn rate or schedule of tenant disconnections during sending.
+   * @param config.mediator - Mediator DID or invitation URL (default: the configured public DID).
+   * @param config.assertions - Optional SLO assertions evaluated into a verdict when the run finishes.
+   * @param origin - Template and/or test the run comes from, stored on the test record.
    * @returns Status of the simulation and the test ID.
    */
-  async simulateTest({
-    messagesPerConnection,
-    timestampTestInterval,
-    numAgent,
-    nameAgent,
-    messageRate = 100,
-    testName,
-    testDescription,
-  }: SimulateTestDto): Promise<{ status: string; testId: string }> {
+  async simulateTest(config: SimulateTestDto, origin: TestOrigin = {}): Promise<{ status: string; testId: string }> {
     this.logger.debug('[simulateTest] Starting simulation test...')
 
+    const {
+      testName,
+      testDescription,
+      messageRate = 100,
+      pickupStrategy = DEFAULT_PICKUP_STRATEGY,
+      pollingIntervalMs = DEFAULT_MEDIATOR_POLLING_INTERVAL_MS,
+      mediator = this.configService.get<string>('appConfig.publicDid'),
+      ...parameters
+    } = config
     const testId = uuidv4()
     const stopSignal = { stopRequested: false }
     this.activeRuns.set(testId, stopSignal)
     const startDate = new Date()
-    const estimatedEndDate = new Date(startDate.getTime() + timestampTestInterval)
+    const testDurationMs = config.loadProfile?.length
+      ? getLoadProfileDuration(config.loadProfile)
+      : config.timestampTestInterval
+    const estimatedEndDate = new Date(startDate.getTime() + testDurationMs)
 
     const testRecord = {
       testId,
       testName,
       testDescription,
+      ...origin,
       parameters: {
-        messagesPerConnection,
-        timestampTestInterval,
-        numAgent,
-        nameAgent,
+        ...parameters,
         messageRate,
+        pickupStrategy,
+        pollingIntervalMs,
+        mediator,
       },
       startDate: startDate.toISOString(),
       estimatedEndDate: estimatedEndDate.toISOString(),
@@ -69,89 +161,346 @@ export class SimulationTestService {
 
     await this.redisClient.set(`test:${testId}`, JSON.stringify(testRecord))
 
-    this.runSimulation(
+    this.metricsService.startTest(testId, testName)
+    this.trackCompletion(
       testId,
-      {
-        messagesPerConnection,
-        timestampTestInterval,
-        numAgent,
-        nameAgent,
-        messageRate,
-        testName,
-        testDescription,
-      },
-      stopSignal,
-    ).catch(async (error) => {
-      this.logger.error(`[simulateTest] Simulation test failed: ${error.message}`)
-      await this.updateTestRecord(testId, { status: 'failed', error: error.message })
-      this.activeRuns.delete(testId)
-    })
+      this.runSimulation(testId, { ...config, messageRate, pickupStrategy, pollingIntervalMs, mediator }, stopSignal),
+    )
 
     return { status: 'Simulation test is running', testId }
   }
 
+  /**
+   * Registers the completion of a run so it can be awaited, recording the test as failed if the run rejects.
+   */
+  private trackCompletion(testId: string, run: Promise<void>): void {
+    const completion = run
+      .catch(async (error) => {
+        this.logger.error(`[simulateTest] Simulation test failed: ${error.message}`)
+        await this.updateTestRecord(testId, { status: 'failed', error: error.message })
+        this.activeRuns.delete(testId)
+        this.runProgress.delete(testId)
+        this.metricsService.endTest(testId)
+      })
+      .finally(() => this.runCompletions.delete(testId))
+    this.runCompletions.set(testId, completion)
+  }
+
+  /**
+   * Parses and validates a scenario document (YAML or JSON text, or a parsed object).
+   * @returns The scenario, or the list of errors prefixed with the path of the offending field.
+   */
+  async validateScenario(document: unknown): Promise<{ scenario?: ScenarioDto; errors: string[] }> {
+    return validateScenarioDocument(document)
+  }
+
+  /**
+   * Runs a multi-phase scenario: creates and connects the agents, then runs each phase in order and records
+   * the time window of every phase so its results can be reported separately.
+   * @param scenario - Validated scenario (see {@link validateScenario}).
+   * @param origin - Test the run re-runs, stored on the test record.
+   * @returns Status of the simulation and the test ID.
+   */
+  async runScenario(scenario: ScenarioDto, origin: TestOrigin = {}): Promise<{ status: string; testId: string }> {
+    this.logger.debug(`[runScenario] Starting scenario ${scenario.name}...`)
+
+    const testId = uuidv4()
+    const stopSignal = { stopRequested: false }
+    this.activeRuns.set(testId, stopSignal)
+    const startDate = new Date()
+    const testDurationMs = getScenarioDuration(scenario.phases)
+
+    const testRecord = {
+      testId,
+      testName: scenario.name,
+      testDescription: scenario.description,
+      ...origin,
+      scenario,
+      parameters: {
+        numAgent: scenario.agents.count,
+        nameAgent: scenario.agents.namePrefix ?? 'Agent',
+        timestampTestInterval: testDurationMs,
+        arrivalMode: 'open',
+        topology: scenario.topology ?? 'full-mesh',
+        topologyDegree: scenario.topologyDegree ?? 2,
+        payload: scenario.payload,
+        pickupStrategy: scenario.pickupStrategy ?? DEFAULT_PICKUP_STRATEGY,
+        pollingIntervalMs: scenario.pollingIntervalMs ?? DEFAULT_MEDIATOR_POLLING_INTERVAL_MS,
+        mediator: scenario.mediator ?? this.configService.get<string>('appConfig.publicDid'),
+        assertions: scenario.assertions,
+      },
+      phases: [],
+      startDate: startDate.toISOString(),
+      estimatedEndDate: new Date(startDate.getTime() + testDurationMs).toISOString(),
+      status: 'running',
+    }
+
+    await this.redisClient.set(`test:${testId}`, JSON.stringify(testRecord))
+    this.metricsService.startTest(testId, scenario.name)
+    this.trackCompletion(testId, this.runScenarioPhases(testId, scenario, testRecord.parameters, stopSignal))
+
+    return { status: 'Scenario is running', testId }
+  }
+
   private async runSimulation(
     testId: string,
     config: SimulateTestDto,
     stopSignal: { stopRequested: boolean },
   ): Promise<void> {
-    const { messagesPerConnection, timestampTestInterval, numAgent, nameAgent, messageRate = 100 } = config
+    const {
+      messagesPerConnection,
+      timestampTestInterval,
+      numAgent,
+      nameAgent,
+      messageRate = 100,
+      loadProfile,
+      arrivalMode = 'closed',
+      targetRatePerSecond,
+      arrivalDistribution = 'constant',
+      topology = 'full-mesh',
+      topologyDegree = 2,
+      payload,
+      pickupStrategy,
+      pollingIntervalMs,
+      offlineRecipients,
+      churn,
+      mediator,
+    } = config
 
     const startTime = Date.now()
     const endTime = startTime + timestampTestInterval
     const maxConcurrentMessages = this.configService.get<number>('appConfig.maxConcurrentMessages') || 5
 
     let agentIds: string[] = []
+    let reconnection: Promise<void> = Promise.resolve()
+    let churnRun: Promise<void> = Promise.resolve()
+    this.updateProgress(testId, {
+      phase: 'creating_agents',
+      agents: { created: 0, total: numAgent },
+      connections: { established: 0, total: 0 },
+    })
     try {
       // Step 1: Generate agent IDs and create agents
-      agentIds = await this.createAgents(numAgent, nameAgent)
+      agentIds = await this.tracingService.withSpan('test.create_agents', { 'test.id': testId }, () =>
+        this.createAgents(numAgent, nameAgent, { pickupStrategy, pollingIntervalMs, mediator }, (created, total) =>
+          this.updateProgress(testId, { agents: { created, total } }),
+        ),
+      )
+      this.metricsService.setTestAgents(testId, agentIds)
       this.logger.debug(`[simulateTest] Agents created: ${agentIds.join(', ')}`)
       await new Promise((resolve) => setTimeout(resolve, numAgent * 1000))
 
-      if (stopSignal.stopRequested) {
-        await this.updateTestRecord(testId, {
-          status: 'stopped',
-          endDate: new Date().toISOString(),
-        })
+      if (await this.stopIfRequested(testId, stopSignal)) {
         return
       }
 
-      // Step 2: Establish connections between all agents
-      this.logger.debug('[simulateTest] Establishing connections...')
-      await this.connectAllAgents(agentIds)
+      // Step 2: Establish connections between agents following the topology
+      const targets = await this.connectTopology(testId, agentIds, topology, topologyDegree)
+      let senderIds = agentIds.filter((agentId) => targets[agentId].length > 0)
 
       await new Promise((resolve) => setTimeout(resolve, numAgent * 1000))
 
-      if (stopSignal.stopRequested) {
-        await this.updateTestRecord(testId, {
-          status: 'stopped',
-          endDate: new Date().toISOString(),
-        })
+      if (await this.stopIfRequested(testId, stopSignal)) {
         return
       }
 
       // Step 3: Send messages concurrently for the specified duration
       this.logger.debug('[simulateTest] Sending messages...')
-      await Promise.all(
-        agentIds.map((fromAgent) =>
-          this.runMessageInterval({
+      this.updateProgress(testId, { phase: 'sending' })
+
+      let offlineIds: string[] = []
+      if (offlineRecipients) {
+        // Offline recipients only receive: the mediator queues their messages until they reconnect
+        offlineIds = selectOfflineRecipients(agentIds, targets, offlineRecipients.share)
+        senderIds = senderIds.filter((agentId) => !offlineIds.includes(agentId))
+        await this.takeRecipientsOffline(testId, offlineIds, offlineRecipients.share)
+        reconnection = new Promise((resolve) => setTimeout(resolve, offlineRecipients.offlineDurationMs))
+          .then(() => this.bringRecipientsOnline(testId, offlineIds))
+          .catch((error) =>
+            this.logger.error(`[simulateTest] Failed to bring recipients of test ${testId} online: ${error.message}`),
+          )
+      }
+
+      const sendStartTime = Date.now()
+      await this.updateTestRecord(testId, { sendStartDate: new Date(sendStartTime).toISOString() })
+
+      const sendEndTime = loadProfile?.length ? sendStartTime + getLoadProfileDuration(loadProfile) : endTime
+
+      if (churn) {
+        churnRun = this.runChurn({
+          testId,
+          agentIds: agentIds.filter((agentId) => !offlineIds.includes(agentId)),
+          churn,
+          startTime: sendStartTime,
+          endTime: sendEndTime,
+          stopSignal,
+        })
+      }
+      const rateAt = (nowMs: number) => {
+        if (!loadProfile?.length) {
+          return targetRatePerSecond
+        }
+        const stage = resolveLoadStage(loadProfile, nowMs - sendStartTime)
+        return stage ? stage.rate : 0
+      }
+
+      if (arrivalMode === 'open') {
+        await this.runOpenLoop({
+          testId,
+          agentIds: senderIds,
+          targets,
+          endTime: sendEndTime,
+          stopSignal,
+          rateAt,
+          distribution: arrivalDistribution,
+          payload,
+        })
+      } else {
+        // With a load profile, each agent sends its share of the stage rate on every messageRate tick
+        const batchSizeAt = loadProfile?.length
+          ? (nowMs: number) => (rateAt(nowMs) * messageRate) / 1000 / senderIds.length
+          : undefined
+
+        await Promise.all(
+          senderIds.map((fromAgent) =>
+            this.runMessageInterval({
+              testId,
+              fromAgent,
+              allowedTargets: targets[fromAgent],
+              messagesPerConnection,
+              messageRate,
+              endTime: sendEndTime,
+              maxConcurrentMessages,
+              stopSignal,
+              batchSizeAt,
+              payload,
+            }),
+          ),
+        )
+      }
+
+      // The run only ends once recipients are back online and churn is over
+      await Promise.allSettled([reconnection, churnRun])
+      await this.updateTestRecord(testId, {
+        status: stopSignal.stopRequested ? 'stopped' : 'completed',
+        endDate: new Date().toISOString(),
+      })
+    } catch (error) {
+      this.logger.error(`[simulateTest] Simulation test failed: ${error.message}`)
+      await Promise.allSettled([reconnection, churnRun])
+      await this.updateTestRecord(testId, {
+        status: 'failed',
+        error: error.message,
+        endDate: new Date().toISOString(),
+      })
+    } finally {
+      // Agents are cleaned up and the run recorded however bringing recipients back online or churning ended
+      await Promise.allSettled([reconnection, churnRun])
+      this.activeRuns.delete(testId)
+      await this.finishRun(testId, agentIds)
+    }
+  }
+
+  private async runScenarioPhases(
+    testId: string,
+    scenario: ScenarioDto,
+    parameters: {
+      numAgent: number
+      nameAgent: string
+      topology: Topology
+      topologyDegree: number
+      payload?: PayloadConfig
+    } & AgentOptions,
+    stopSignal: { stopRequested: boolean },
+  ): Promise<void> {
+    const { numAgent, nameAgent, topology, topologyDegree, payload, pickupStrategy, pollingIntervalMs, mediator } =
+      parameters
+
+    let agentIds: string[] = []
+    const phases: ScenarioPhaseWindow[] = []
+    this.updateProgress(testId, {
+      phase: 'creating_agents',
+      agents: { created: 0, total: numAgent },
+      connections: { established: 0, total: 0 },
+    })
+    try {
+      agentIds = await this.tracingService.withSpan('test.create_agents', { 'test.id': testId }, () =>
+        this.createAgents(numAgent, nameAgent, { pickupStrategy, pollingIntervalMs, mediator }, (created, total) =>
+          this.updateProgress(testId, { agents: { created, total } }),
+        ),
+      )
+      this.metricsService.setTestAgents(testId, agentIds)
+      await new Promise((resolve) => setTimeout(resolve, numAgent * 1000))
+
+      if (await this.stopIfRequested(testId, stopSignal)) {
+        return
+      }
+
+      const targets = await this.connectTopology(testId, agentIds, topology, topologyDegree)
+      const senderIds = agentIds.filter((agentId) => targets[agentId].length > 0)
+      await new Promise((resolve) => setTimeout(resolve, numAgent * 1000))
+
+      if (await this.stopIfRequested(testId, stopSignal)) {
+        return
+      }
+
+      await this.updateTestRecord(testId, { sendStartDate: new Date().toISOString() })
+
+      for (const [index, phase] of scenario.phases.entries()) {
+        if (stopSignal.stopRequested) {
+          break
+        }
+
+        this.logger.debug(`[runScenario] Phase ${index + 1}/${scenario.phases.length}: ${phase.name} (${phase.type})`)
+        this.updateProgress(testId, {
+          phase: phase.type === 'drain' ? 'draining' : 'sending',
+          scenarioPhase: { index, name: phase.name, type: phase.type },
+        })
+        const window: ScenarioPhaseWindow = {
+          index,
+          name: phase.name,
+          type: phase.type,
+          startDate: new Date().toISOString(),
+        }
+        const endTime = Date.now() + phase.durationMs
+
+        let offlineIds: string[] = []
+        if (phase.type === 'offline') {
+          // Offline recipients only receive: the mediator queues their messages until the phase ends
+          offlineIds = selectOfflineRecipients(agentIds, targets, phase.agents ? { count: phase.agents } : phase.share)
+          window.offline = await this.suspendRecipients(offlineIds)
+        }
+
+        if (phase.type !== 'drain' && phase.rate) {
+          await this.runOpenLoop({
             testId,
-            fromAgent,
-            messagesPerConnection,
-            messageRate,
+            agentIds: senderIds.filter((agentId) => !offlineIds.includes(agentId)),
+            targets,
             endTime,
-            maxConcurrentMessages,
             stopSignal,
-          }),
-        ),
-      )
+            rateAt: () => phase.rate,
+            distribution: phase.arrivalDistribution ?? 'constant',
+            payload,
+          })
+        }
+        await this.waitUntil(endTime, stopSignal)
+
+        if (offlineIds.length) {
+          const reconnected = await this.resumeRecipients(offlineIds)
+          window.offline = window.offline.map((outage) => ({ ...outage, ...reconnected[outage.tenantId] }))
+        }
+
+        window.endDate = new Date().toISOString()
+        phases.push(window)
+        await this.updateTestRecord(testId, { phases })
+      }
 
       await this.updateTestRecord(testId, {
         status: stopSignal.stopRequested ? 'stopped' : 'completed',
         endDate: new Date().toISOString(),
       })
     } catch (error) {
-      this.logger.error(`[simulateTest] Simulation test failed: ${error.message}`)
+      this.logger.error(`[runScenario] Scenario failed: ${error.message}`)
       await this.updateTestRecord(testId, {
         status: 'failed',
         error: error.message,
@@ -159,23 +508,274 @@ export class SimulationTestService {
       })
     } finally {
       this.activeRuns.delete(testId)
-      const cleanupDelayMs = this.configService.get<number>('appConfig.agentCleanupDelayMs') || 0
-      this.logger.debug(`cleanupDelayMs: ${cleanupDelayMs}`)
-      if (cleanupDelayMs > 0) {
-        this.logger.debug(`[simulateTest] Waiting ${cleanupDelayMs}ms before cleanup...`)
-        await new Promise((resolve) => setTimeout(resolve, cleanupDelayMs))
+      await this.finishRun(testId, agentIds)
+    }
+  }
+
+  /**
+   * Records the test as stopped if a stop was requested.
+   * @returns True if the run must stop.
+   */
+  private async stopIfRequested(testId: string, stopSignal: { stopRequested: boolean }): Promise<boolean> {
+    if (!stopSignal.stopRequested) {
+      return false
+    }
+
+    await this.updateTestRecord(testId, {
+      status: 'stopped',
+      endDate: new Date().toISOString(),
+    })
+    return true
+  }
+
+  /**
+   * Connects the agents of a test following a topology and records the connections on the test record.
+   * @returns The allowed message targets of each agent.
+   */
+  private async connectTopology(
+    testId: string,
+    agentIds: string[],
+    topology: Topology,
+    topologyDegree: number,
+  ): Promise<Record<string, string[]>> {
+    this.logger.debug(`[simulateTest] Establishing connections (${topology})...`)
+    this.updateProgress(testId, { phase: 'connecting' })
+    const { connections, targets } = buildTopology(agentIds, topology, topologyDegree)
+    await this.updateTestRecord(testId, { topology: { type: topology, degree: topologyDegree, connections } })
+    await this.tracingService.withSpan('test.connect', { 'test.id': testId, 'test.topology': topology }, () =>
+      this.connectAllAgents(
+        agentIds,
+        (established, total) => {
+          this.updateProgress(testId, { connections: { established, total } })
+          this.metricsService.setTestConnections(testId, established)
+        },
+        connections,
+      ),
+    )
+    return targets
+  }
+
+  /**
+   * Ends a run: waits for the configured cleanup delay, records its delivery and verdict, and deletes its agents.
+   */
+  private async finishRun(testId: string, agentIds: string[]): Promise<void> {
+    const cleanupDelayMs = this.configService.get<number>('appConfig.agentCleanupDelayMs') || 0
+    this.logger.debug(`cleanupDelayMs: ${cleanupDelayMs}`)
+    if (cleanupDelayMs > 0) {
+      this.logger.debug(`[simulateTest] Waiting ${cleanupDelayMs}ms before cleanup...`)
+      this.updateProgress(testId, { phase: 'draining' })
+      await new Promise((resolve) => setTimeout(resolve, cleanupDelayMs))
+    }
+
+    try {
+      const delivery = await this.calculateDelivery(testId)
+      await this.updateTestRecord(testId, { delivery })
+    } catch (error) {
+      this.logger.error(`[simulateTest] Failed to record delivery for test ${testId}: ${error.message}`)
+    }
+
+    try {
+      const verdict = await this.evaluateVerdict(testId)
+      if (verdict) {
+        await this.updateTestRecord(testId, { verdict })
+        this.logger.log(`[simulateTest] Test ${testId} verdict: ${verdict.status}`)
+      }
+    } catch (error) {
+      this.logger.error(`[simulateTest] Failed to evaluate verdict for test ${testId}: ${error.message}`)
+    }
+
+    this.logger.debug('[simulateTest] Cleaning up agents...')
+    this.updateProgress(testId, { phase: 'cleanup' })
+    for (const agentId of agentIds) {
+      try {
+        await this.tenantsService.deleteTenant(agentId)
+        this.logger.log(`[simulateTest] Agent deleted: ${agentId}`)
+      } catch (error) {
+        this.logger.error(`[simulateTest] Failed to delete agent ${agentId}: ${error.message}`)
       }
+    }
+    this.runProgress.delete(testId)
+    this.metricsService.endTest(testId)
+  }
+
+  /**
+   * Shuts down the agents of the offline recipients, keeping their wallets, and records the outage.
+   * @param share - Configured share of recipients, stored with the outage.
+   */
+  private async takeRecipientsOffline(testId: string, tenantIds: string[], share: number): Promise<void> {
+    const tenants = await this.suspendRecipients(tenantIds)
+    await this.updateTestRecord(testId, { offlineRecipients: { share, tenants } })
+  }
+
+  /**
+   * Recreates the agents of the offline recipients on their existing wallets and records when each one is
+   * back online and how long reconnecting took.
+   */
+  private async bringRecipientsOnline(testId: string, tenantIds: string[]): Promise<void> {
+    const reconnected = await this.resumeRecipients(tenantIds)
+
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    const offlineRecipients = testRecordData ? JSON.parse(testRecordData).offlineRecipients : undefined
+    if (offlineRecipients) {
+      await this.updateTestRecord(testId, {
+        offlineRecipients: {
+          ...offlineRecipients,
+          tenants: offlineRecipients.tenants.map((tenant: TenantOutage) => ({
+            ...tenant,
+            ...reconnected[tenant.tenantId],
+          })),
+        },
+      })
+    }
+  }
+
+  /**
+   * Shuts down the agents of the given recipients, keeping their wallets.
+   * @returns The outage of each recipient, open until it is resumed.
+   */
+  private async suspendRecipients(tenantIds: string[]): Promise<TenantOutage[]> {
+    this.logger.debug(`[suspendRecipients] Taking recipients offline: ${tenantIds.join(', ')}`)
+    const outages: TenantOutage[] = []
+
+    for (const tenantId of tenantIds) {
+      await this.tenantsService.suspendTenant(tenantId)
+      outages.push({ tenantId, offlineAt: new Date().toISOString() })
+    }
+    return outages
+  }
 
-      this.logger.debug('[simulateTest] Cleaning up agents...')
-      for (const agentId of agentIds) {
+  /**
+   * Recreates the agents of suspended recipients on their existing wallets. Failures are logged so the run
+   * can still be cleaned up.
+   * @returns When each recipient came back online and how long reconnecting took, or the error.
+   */
+  private async resumeRecipients(
+    tenantIds: string[],
+  ): Promise<Record<string, { onlineAt?: string; reconnectMs?: number; error?: string }>> {
+    this.logger.debug(`[resumeRecipients] Bringing recipients back online: ${tenantIds.join(', ')}`)
+    const reconnected: Record<string, { onlineAt?: string; reconnectMs?: number; error?: string }> = {}
+
+    await Promise.all(
+      tenantIds.map(async (tenantId) => {
+        const startMs = Date.now()
         try {
-          await this.tenantsService.deleteTenant(agentId)
-          this.logger.log(`[simulateTest] Agent deleted: ${agentId}`)
+          await this.tenantsService.resumeTenant(tenantId)
+          reconnected[tenantId] = { onlineAt: new Date().toISOString(), reconnectMs: Date.now() - startMs }
         } catch (error) {
-          this.logger.error(`[simulateTest] Failed to delete agent ${agentId}: ${error.message}`)
+          this.logger.error(`[resumeRecipients] Failed to resume tenant ${tenantId}: ${error.message}`)
+          reconnected[tenantId] = { error: error.message }
+        }
+      }),
+    )
+    return reconnected
+  }
+
+  /**
+   * Disconnects and reconnects tenants following the churn schedule while messages are sent, then records
+   * every churn event (outage period and reconnect time) on the test record. Errors are logged rather than
+   * thrown, so the run can still be cleaned up.
+   */
+  private async runChurn({
+    testId,
+    agentIds,
+    churn,
+    startTime,
+    endTime,
+    stopSignal,
+  }: {
+    testId: string
+    agentIds: string[]
+    churn: ChurnConfig
+    startTime: number
+    endTime: number
+    stopSignal: { stopRequested: boolean }
+  }): Promise<void> {
+    const target = churn.target ?? 'transport'
+    const offline = new Set<string>()
+    const outages: Promise<void>[] = []
+    const events: Record<string, any>[] = []
+
+    try {
+      const plan = buildChurnSchedule(churn, agentIds, endTime - startTime)
+      this.logger.debug(`[runChurn] ${plan.length} churn events planned (${target})`)
+
+      for (const planned of plan) {
+        await this.waitUntil(startTime + planned.atMs, stopSignal)
+        if (stopSignal.stopRequested || Date.now() >= endTime) {
+          break
+        }
+        if (offline.has(planned.tenantId)) {
+          continue
+        }
+
+        offline.add(planned.tenantId)
+        outages.push(
+          this.churnTenant(planned.tenantId, target, planned.outageMs).then((event) => {
+            events.push(event)
+            offline.delete(planned.tenantId)
+          }),
+        )
+      }
+
+      // Wait for every outage to end, even if one failed, so no tenant is left offline during cleanup
+      const results = await Promise.allSettled(outages)
+      results.forEach((result) => {
+        if (result.status === 'rejected') {
+          this.logger.error(`[runChurn] Churn event failed for test ${testId}: ${result.reason?.message}`)
         }
+      })
+      events.sort((a, b) => Date.parse(a.offlineAt) - Date.parse(b.offlineAt))
+      await this.updateTestRecord(testId, { churn: { target, events } })
+    } catch (error) {
+      this.logger.error(`[runChurn] Churn failed for test ${testId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Waits until a point in time, in short steps so a stop request ends the wait promptly.
+   */
+  private async waitUntil(timeMs: number, stopSignal: { stopRequested: boolean }): Promise<void> {
+    while (!stopSignal.stopRequested && Date.now() < timeMs) {
+      await new Promise((resolve) => setTimeout(resolve, Math.min(timeMs - Date.now(), 500)))
+    }
+  }
+
+  /**
+   * Takes a tenant offline for `outageMs` and brings it back, measuring how long reconnecting takes.
+   * @returns The churn event; it holds an `error` instead of timings if the tenant could not be churned.
+   */
+  private async churnTenant(tenantId: string, target: ChurnTarget, outageMs: number): Promise<Record<string, any>> {
+    const event: Record<string, any> = { tenantId, target, outageMs }
+
+    try {
+      if (target === 'agent') {
+        await this.tenantsService.suspendTenant(tenantId)
+      } else {
+        await this.tenantsService.disconnectTenant(tenantId)
+      }
+    } catch (error) {
+      this.logger.error(`[churnTenant] Failed to disconnect tenant ${tenantId}: ${error.message}`)
+      return { ...event, offlineAt: new Date().toISOString(), error: error.message }
+    }
+
+    event.offlineAt = new Date().toISOString()
+    await new Promise((resolve) => setTimeout(resolve, outageMs))
+
+    const reconnectStartMs = Date.now()
+    try {
+      if (target === 'agent') {
+        await this.tenantsService.resumeTenant(tenantId)
+      } else {
+        await this.tenantsService.reconnectTenant(tenantId)
       }
+      event.onlineAt = new Date().toISOString()
+      event.reconnectMs = Date.now() - reconnectStartMs
+    } catch (error) {
+      this.logger.error(`[churnTenant] Failed to reconnect tenant ${tenantId}: ${error.message}`)
+      event.error = error.message
     }
+
+    return event
   }
 
   private async runMessageInterval({
@@ -186,18 +786,26 @@ export class SimulationTestService {
     endTime,
     maxConcurrentMessages,
     stopSignal,
+    batchSizeAt,
+    allowedTargets,
+    payload,
   }: {
     testId: string
     fromAgent: string
+    allowedTargets?: string[]
+    payload?: PayloadConfig
     messagesPerConnection: number
     messageRate: number
     endTime: number
     maxConcurrentMessages: number
     stopSignal: { stopRequested: boolean }
+    batchSizeAt?: (nowMs: number) => number
   }): Promise<void> {
     const limit = pLimit(Math.max(maxConcurrentMessages, 1))
     const activeTasks = new Set<Promise<void>>()
     let messageCount = 0
+    // Fractional messages carried over between ticks when the batch size comes from a load profile
+    let pendingMessages = 0
 
     return new Promise((resolve) => {
       const queueBatch = () => {
@@ -205,42 +813,48 @@ export class SimulationTestService {
           return false
         }
 
-        this.logger.debug(`[simulateTest] Agent ${fromAgent} sending batch of messages...`)
+        let batchSize = messagesPerConnection
+        if (batchSizeAt) {
+          pendingMessages += batchSizeAt(Date.now())
+          batchSize = Math.floor(pendingMessages)
+          pendingMessages -= batchSize
+        }
+
+        this.logger.debug(`[simulateTest] Agent ${fromAgent} sending batch of ${batchSize} messages...`)
 
-        for (let i = 0; i < messagesPerConnection; i++) {
+        for (let i = 0; i < batchSize; i++) {
           if (stopSignal.stopRequested) {
             break
           }
           const task = limit(async () => {
-            if (stopSignal.stopRequested) {
-              return
-            }
-            const toAgent = await this.getRandomConnection(fromAgent)
-            if (!toAgent) {
+            // A churned sender is offline (its agent may be shut down) until it reconnects
+            if (stopSignal.stopRequested || !this.tenantsService.isTenantLive(fromAgent)) {
               return
             }
 
-            const currentMessageCount = ++messageCount
-
+            const messageNumber = ++messageCount
+            let toAgent: string | null = null
             try {
-              await this.tenantsService.sendMessage(
+              toAgent = await this.getRandomConnection(fromAgent, allowedTargets)
+              if (!toAgent) {
+                return
+              }
+              await this.sendSimulatedMessage({ testId, fromAgent, toAgent, messageNumber, payload })
+            } catch (error) {
+              await this.recordSendFailure(
+                testId,
                 fromAgent,
                 toAgent,
-                `Message #${currentMessageCount} from ${fromAgent} to ${toAgent}`,
-                testId,
-              )
-              this.logger.log(
-                `[simulateTest] Message #${currentMessageCount} sent from ${fromAgent} to ${toAgent} (testId: ${testId})`,
-              )
-            } catch (error) {
-              this.logger.error(
-                `[simulateTest] Failed to send message #${currentMessageCount} from ${fromAgent} to ${toAgent}: ${error.message}`,
+                `Message #${messageNumber} from ${fromAgent}`,
+                error,
               )
             }
           })
 
           activeTasks.add(task)
-          task.finally(() => activeTasks.delete(task))
+          task
+            .finally(() => activeTasks.delete(task))
+            .catch((error) => this.logger.error(`[runMessageInterval] Unexpected error: ${error.message}`))
         }
         return true
       }
@@ -262,44 +876,239 @@ export class SimulationTestService {
   }
 
   /**
-   * Retrieves messages stored in Redis for a specific test.
-   * @returns A list of messages with details.
+   * Sends messages following an open-loop schedule: arrivals are planned at the target rate regardless of
+   * how long previous sends take, so a slow mediator does not reduce the offered load. Each message
+   * records its intended send time next to the actual one to avoid coordinated omission.
    */
-  async getMessagesByTestId(testId: string): Promise<any[]> {
-    this.logger.debug(`[getMessagesByTestId] Fetching messages for test ${testId} from Redis...`)
-    const messages: any[] = []
+  private async runOpenLoop({
+    testId,
+    agentIds,
+    targets,
+    endTime,
+    stopSignal,
+    rateAt,
+    distribution,
+    payload,
+  }: {
+    testId: string
+    agentIds: string[]
+    targets?: Record<string, string[]>
+    payload?: PayloadConfig
+    endTime: number
+    stopSignal: { stopRequested: boolean }
+    rateAt: (nowMs: number) => number
+    distribution: ArrivalDistribution
+  }): Promise<void> {
+    const activeTasks = new Set<Promise<void>>()
+    // Re-check interval used while the target rate is zero (e.g. at the start of a ramp)
+    const idleStepMs = 100
+    let intendedTimeMs = Date.now()
+    let messageCount = 0
 
-    try {
-      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
-        messages.push(message)
-      })
+    const fire = (intendedTimestampMs: number) => {
+      // Churned senders are offline (their agent may be shut down) until they reconnect
+      const liveAgentIds = agentIds.filter((agentId) => this.tenantsService.isTenantLive(agentId))
+      if (!liveAgentIds.length) {
+        return
+      }
 
-      this.logger.log(`[getMessagesByTestId] Fetched ${messages.length} messages for test ${testId}.`)
-      return messages
-    } catch (error) {
-      this.logger.error(`[getMessagesByTestId] Error fetching messages: ${error.message}`)
+      const fromAgent = liveAgentIds[Math.floor(Math.random() * liveAgentIds.length)]
+      const messageNumber = ++messageCount
+      const task = (async () => {
+        const toAgent = await this.getRandomConnection(fromAgent, targets?.[fromAgent])
+        if (!toAgent) {
+          return
+        }
+        await this.sendSimulatedMessage({
+          testId,
+          fromAgent,
+          toAgent,
+          messageNumber,
+          intendedTimestamp: new Date(intendedTimestampMs).toISOString(),
+          payload,
+        })
+      })().catch((error) => this.logger.error(`[runOpenLoop] Unexpected error: ${error.message}`))
+
+      activeTasks.add(task)
+      task.finally(() => activeTasks.delete(task))
+    }
+
+    return new Promise((resolve) => {
+      const schedule = () => {
+        const now = Date.now()
+
+        // Fire every arrival that is due, even when late, so the offered load is preserved
+        while (!stopSignal.stopRequested && intendedTimeMs <= now && intendedTimeMs < endTime) {
+          const rate = rateAt(intendedTimeMs)
+          if (!rate || rate <= 0) {
+            intendedTimeMs += idleStepMs
+            continue
+          }
+          fire(intendedTimeMs)
+          intendedTimeMs += nextArrivalDelayMs(rate, distribution)
+        }
+
+        if (stopSignal.stopRequested || intendedTimeMs >= endTime) {
+          Promise.allSettled(Array.from(activeTasks)).then(() => resolve())
+          return
+        }
+
+        setTimeout(schedule, Math.max(intendedTimeMs - Date.now(), 0))
+      }
+
+      schedule()
+    })
+  }
+
+  /**
+   * Sends a single simulated message and records it in the test stats, or records the failure.
+   * @param intendedTimestamp - Optional planned send time (open-loop mode).
+   * @param payload - Optional payload configuration; defaults to a short text message.
+   */
+  private async sendSimulatedMessage({
+    testId,
+    fromAgent,
+    toAgent,
+    messageNumber,
+    intendedTimestamp,
+    payload,
+  }: {
+    testId: string
+    fromAgent: string
+    toAgent: string
+    messageNumber: number
+    intendedTimestamp?: string
+    payload?: PayloadConfig
+  }): Promise<void> {
+    const header = `Message #${messageNumber} from ${fromAgent} to ${toAgent}`
+    const message = payload ? generatePayload(pickPayloadSize(payload), payload.content, header) : header
+    const metadata =
+      intendedTimestamp || payload
+        ? {
+            ...(intendedTimestamp && { intendedTimestamp }),
+            ...(payload && { payloadBytes: Buffer.byteLength(message) }),
+          }
+        : undefined
+    await this.redisClient.hincrby(`test:${testId}:stats`, 'attemptedMessages', 1)
+
+    try {
+      // Message records keep only the header of a payload: its size is recorded as payloadBytes
+      await this.tenantsService.sendMessage(fromAgent, toAgent, message, testId, metadata, header)
+      await this.redisClient.hincrby(`test:${testId}:stats`, 'sentMessages', 1)
+      this.metricsService.recordSent(testId)
+      this.logger.log(
+        `[simulateTest] Message #${messageNumber} sent from ${fromAgent} to ${toAgent} (testId: ${testId})`,
+      )
+    } catch (error) {
+      await this.recordSendFailure(testId, fromAgent, toAgent, payload ? header : message, error, metadata)
+      this.logger.error(
+        `[simulateTest] Failed to send message #${messageNumber} from ${fromAgent} to ${toAgent}: ${error.message}`,
+      )
+    }
+  }
+
+  /**
+   * Persists a failed send against the test, classified by error type.
+   * @param testId - ID of the test.
+   * @param fromTenantId - Sender agent.
+   * @param toTenantId - Receiver agent, or null if the send failed before one was picked.
+   * @param message - Content that could not be sent.
+   * @param error - Error thrown by the send.
+   * @param metadata - Optional extra fields stored with the failure (e.g. intended send time).
+   */
+  private async recordSendFailure(
+    testId: string,
+    fromTenantId: string,
+    toTenantId: string | null,
+    message: string,
+    error: any,
+    metadata?: Record<string, any>,
+  ): Promise<void> {
+    const errorType = classifySendError(error)
+    this.metricsService.recordFailed(testId, errorType)
+    const failureRecord = {
+      ...metadata,
+      testId,
+      fromTenantId,
+      toTenantId,
+      message,
+      errorType,
+      error: error?.message,
+      timestamp: new Date().toISOString(),
+    }
+
+    try {
+      const statsKey = `test:${testId}:stats`
+      await this.redisClient.set(`failure:${testId}:${uuidv4()}`, JSON.stringify(failureRecord))
+      await this.redisClient.hincrby(statsKey, 'failedMessages', 1)
+      await this.redisClient.hincrby(statsKey, `failures:${errorType}`, 1)
+    } catch (redisError) {
+      this.logger.error(`[recordSendFailure] Failed to persist send failure for test ${testId}: ${redisError.message}`)
+    }
+  }
+
+  /**
+   * Retrieves send failures stored in Redis for a specific test.
+   * @returns A list of failure records with error class, timestamp and agent pair.
+   */
+  async getFailuresByTestId(testId: string): Promise<any[]> {
+    this.logger.debug(`[getFailuresByTestId] Fetching send failures for test ${testId} from Redis...`)
+    const failures: any[] = []
+
+    try {
+      await this.scanJsonRecords(`failure:${testId}:*`, (failure) => {
+        failures.push(failure)
+      })
+
+      this.logger.log(`[getFailuresByTestId] Fetched ${failures.length} failures for test ${testId}.`)
+      return failures
+    } catch (error) {
+      this.logger.error(`[getFailuresByTestId] Error fetching failures: ${error.message}`)
+      throw new Error('[getFailuresByTestId] Failed to retrieve failures')
+    }
+  }
+
+  /**
+   * Retrieves messages stored in Redis for a specific test.
+   * @returns A list of messages with details.
+   */
+  async getMessagesByTestId(testId: string): Promise<any[]> {
+    this.logger.debug(`[getMessagesByTestId] Fetching messages for test ${testId} from Redis...`)
+    const messages: any[] = []
+
+    try {
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        messages.push(message)
+      })
+
+      this.logger.log(`[getMessagesByTestId] Fetched ${messages.length} messages for test ${testId}.`)
+      return messages
+    } catch (error) {
+      this.logger.error(`[getMessagesByTestId] Error fetching messages: ${error.message}`)
       throw new Error('[getMessagesByTestId] Failed to retrieve messages')
     }
   }
 
   /**
-   * Establishes connections between all agents.
+   * Establishes connections between agents: a full mesh by default, or the given agent pairs.
    * @param agentIds - List of agent IDs.
+   * @param onProgress - Optional callback invoked with established/total connections after each success.
+   * @param connections - Optional agent pairs to connect (e.g. from a topology plan).
    */
-  async connectAllAgents(agentIds: string[]): Promise<void> {
+  async connectAllAgents(
+    agentIds: string[],
+    onProgress?: (established: number, total: number) => void,
+    connections: [string, string][] = buildTopology(agentIds).connections,
+  ): Promise<void> {
     this.logger.debug('[connectAllAgents] Connecting all agents with retries...')
 
-    const connectionTasks: Promise<void>[] = []
-
-    for (let i = 0; i < agentIds.length; i++) {
-      for (let j = i + 1; j < agentIds.length; j++) {
-        const from = agentIds[i]
-        const to = agentIds[j]
+    const total = connections.length
+    let established = 0
+    onProgress?.(established, total)
 
-        const task = this.retryConnection(from, to, 3)
-        connectionTasks.push(task)
-      }
-    }
+    const connectionTasks: Promise<void>[] = connections.map(([from, to]) =>
+      this.retryConnection(from, to, 3).then(() => onProgress?.(++established, total)),
+    )
 
     await Promise.all(connectionTasks)
 
@@ -328,21 +1137,30 @@ export class SimulationTestService {
    * Generates and creates agents.
    * @param numAgent - Number of agents.
    * @param nameAgent - Base name for agents.
+   * @param agentOptions - Pickup strategy and polling interval of the agents.
+   * @param onProgress - Optional callback invoked with created/total agents after each creation.
    * @returns List of agent IDs.
    */
-  private async createAgents(numAgent: number, nameAgent: string): Promise<string[]> {
+  private async createAgents(
+    numAgent: number,
+    nameAgent: string,
+    agentOptions?: AgentOptions,
+    onProgress?: (created: number, total: number) => void,
+  ): Promise<string[]> {
     const agentIds = Array.from({ length: numAgent }, (_, i) => `${nameAgent}-${i + 1}`)
     this.logger.debug(`[createAgents] Generated agent IDs: ${agentIds.join(', ')}`)
 
     const maxConcurrentAgentCreation = this.configService.get<number>('appConfig.maxConcurrentAgentCreation') || 2
     const limit = pLimit(Math.max(maxConcurrentAgentCreation, 1))
+    let created = 0
 
     await Promise.all(
       agentIds.map((agentId) =>
         limit(async () => {
           try {
-            await this.tenantsService.createTenant(agentId)
+            await this.tenantsService.createTenant(agentId, agentOptions)
             this.logger.log(`[createAgents] ✅ Agent created: ${agentId}`)
+            onProgress?.(++created, numAgent)
             await new Promise((resolve) => setTimeout(resolve, 1000))
           } catch (error) {
             this.logger.error(`[createAgents] ❌ Failed to create agent ${agentId}: ${error.message}`)
@@ -372,112 +1190,636 @@ export class SimulationTestService {
   /**
    * Gets a random connection for a specific agent.
    * @param fromAgent - Agent initiating the message.
-   * @param agentIds - List of agent IDs.
+   * @param allowedTargets - Optional agents the topology allows as targets.
    * @returns Randomly selected target agent ID.
    */
-  private async getRandomConnection(fromAgent: string): Promise<string | null> {
+  private async getRandomConnection(fromAgent: string, allowedTargets?: string[]): Promise<string | null> {
     const connections = await this.tenantsService.getConnections(fromAgent)
 
-    const completedConnections = connections.filter((conn) => conn.state === 'completed' && conn.theirDid)
+    const completedConnections = connections.filter(
+      (conn) =>
+        conn.state === 'completed' && conn.theirDid && (!allowedTargets || allowedTargets.includes(conn.theirLabel)),
+    )
+
+    if (completedConnections.length === 0) {
+      this.logger.warn(`[getRandomConnection] No completed connections found for ${fromAgent}`)
+      return null
+    }
+
+    const randomIndex = Math.floor(Math.random() * completedConnections.length)
+    const randomConn = completedConnections[randomIndex]
+
+    return randomConn.theirLabel
+  }
+
+  /**
+   * Calculates total metrics for a test using aggregated stats and per-message processing times.
+   * @returns Total metrics including total messages, average processing time and latency distribution.
+   * @throws Error if metrics calculation fails.
+   */
+  async calculateTotals(testId: string): Promise<any> {
+    this.logger.debug(`[calculateTotals] Calculating total metrics for test ${testId} from Redis...`)
+
+    try {
+      const statsKey = `test:${testId}:stats`
+      const stats = await this.redisClient.hgetall(statsKey)
+
+      if (!stats || Object.keys(stats).length === 0) {
+        this.logger.warn(`[calculateTotals] No stats found in Redis for test ${testId}.`)
+        return {}
+      }
+
+      const totalMessages = Number(stats.totalMessages || 0)
+      const totalProcessingTimeMs = Number(stats.totalProcessingTimeMs || 0)
+      const averageProcessingTimeMs = totalMessages > 0 ? Math.round(totalProcessingTimeMs / totalMessages) : 0
+
+      const processingTimes: number[] = []
+      const correctedProcessingTimes: number[] = []
+      const scheduleLags: number[] = []
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        if (typeof message.processingTimeMs === 'number') {
+          processingTimes.push(message.processingTimeMs)
+        }
+        if (typeof message.correctedProcessingTimeMs === 'number') {
+          correctedProcessingTimes.push(message.correctedProcessingTimeMs)
+        }
+        if (message.intendedTimestamp) {
+          scheduleLags.push(Date.parse(message.timestamp) - Date.parse(message.intendedTimestamp))
+        }
+      })
+      const bucketsMs =
+        this.configService.get<number[]>('appConfig.latencyHistogramBucketsMs') || DEFAULT_LATENCY_BUCKETS_MS
+      const latency = calculateLatencyStats(processingTimes, bucketsMs)
+      // Open-loop tests also report latency measured from the intended send time and the send lag
+      const openLoop = scheduleLags.length
+        ? {
+            correctedLatency: calculateLatencyStats(correctedProcessingTimes, bucketsMs),
+            scheduleLag: calculateLatencyStats(scheduleLags, bucketsMs),
+          }
+        : {}
+
+      const failuresByType: Record<string, number> = {}
+      Object.entries(stats)
+        .filter(([field]) => field.startsWith('failures:'))
+        .forEach(([field, value]) => {
+          failuresByType[field.slice('failures:'.length)] = Number(value)
+        })
+      const failures = { total: Number(stats.failedMessages || 0), byType: failuresByType }
+
+      this.logger.log(`[calculateTotals] Total metrics successfully calculated for test ${testId}.`)
+      return { totalMessages, averageProcessingTimeMs, latency, ...openLoop, failures }
+    } catch (error) {
+      this.logger.error(`Error calculating total metrics: ${error.message}`)
+      throw new Error('Failed to calculate total metrics from Redis.')
+    }
+  }
+
+  /**
+   * Calculates metrics grouped by agent based on messages stored in Redis.
+   * @returns Metrics grouped by agents, including message details and processing times.
+   * @throws Error if metrics calculation fails.
+   */
+  async calculateMetricsByAgent(testId: string): Promise<any> {
+    this.logger.debug(`[calculateMetricsByAgent] Calculating metrics for test ${testId} grouped by agent...`)
+
+    try {
+      const metricsByAgent: Record<string, { toTenantId: string; message: string; processingTimeMs: number | null }[]> =
+        {}
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        const { fromTenantId, toTenantId, message: content, processingTimeMs } = message
+
+        if (!metricsByAgent[fromTenantId]) {
+          metricsByAgent[fromTenantId] = []
+        }
+
+        metricsByAgent[fromTenantId].push({
+          toTenantId,
+          message: content,
+          processingTimeMs: processingTimeMs || null,
+        })
+      })
+
+      this.logger.log(`[calculateMetricsByAgent] Metrics grouped by agent successfully calculated for ${testId}.`)
+      return metricsByAgent
+    } catch (error) {
+      this.logger.error(`Error calculating grouped metrics: ${error.message}`)
+      throw new Error('Failed to calculate grouped metrics from Redis.')
+    }
+  }
+
+  /**
+   * Calculates latency and delivery broken down by payload size bucket.
+   * Only messages sent with a payload configuration (that record `payloadBytes`) are considered.
+   * @returns One entry per size bucket with sent/delivered counters and latency percentiles.
+   * @throws Error if the breakdown cannot be calculated.
+   */
+  async calculatePayloadBreakdown(testId: string): Promise<any[]> {
+    this.logger.debug(`[calculatePayloadBreakdown] Calculating payload size breakdown for test ${testId}...`)
+
+    try {
+      const buckets: Record<
+        string,
+        { bucket: string; minBytes: number; maxBytes: number | null; sent: number; latencies: number[] }
+      > = {}
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        if (typeof message.payloadBytes !== 'number') {
+          return
+        }
+
+        const { label, minBytes, maxBytes } = getPayloadSizeBucket(message.payloadBytes)
+        if (!buckets[label]) {
+          buckets[label] = { bucket: label, minBytes, maxBytes, sent: 0, latencies: [] }
+        }
+        buckets[label].sent++
+        if (message.processedTimestamp && typeof message.processingTimeMs === 'number') {
+          buckets[label].latencies.push(message.processingTimeMs)
+        }
+      })
+
+      const breakdown = Object.values(buckets)
+        .sort((a, b) => a.minBytes - b.minBytes)
+        .map(({ latencies, ...bucket }) => {
+          const latency = calculateLatencySummary(latencies)
+          return {
+            ...bucket,
+            delivered: latencies.length,
+            undelivered: bucket.sent - latencies.length,
+            deliveryRatio: bucket.sent > 0 ? Number((latencies.length / bucket.sent).toFixed(4)) : 0,
+            latency,
+          }
+        })
+
+      this.logger.log(`[calculatePayloadBreakdown] Payload size breakdown successfully calculated for ${testId}.`)
+      return breakdown
+    } catch (error) {
+      this.logger.error(`Error calculating payload size breakdown: ${error.message}`)
+      throw new Error('Failed to calculate payload size breakdown from Redis.')
+    }
+  }
+
+  /**
+   * Calculates a time series of sent, processed and failed messages for a test.
+   * Buckets start at the beginning of the sending phase (or the test start date when unavailable).
+   * @param testId - ID of the test.
+   * @param bucketMs - Optional bucket size overriding the one configured for the test.
+   * @returns Bucket size, timeline start date and the list of buckets.
+   * @throws Error if the test does not exist or the timeline cannot be calculated.
+   */
+  async calculateTimeline(testId: string, bucketMs?: number): Promise<any> {
+    this.logger.debug(`[calculateTimeline] Calculating timeline for test ${testId}...`)
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+
+    if (!testRecordData) {
+      throw new Error(`[calculateTimeline] Test ${testId} not found`)
+    }
+
+    const testRecord = JSON.parse(testRecordData)
+    const resolvedBucketMs =
+      bucketMs ||
+      testRecord.parameters?.timelineBucketMs ||
+      this.configService.get<number>('appConfig.timelineBucketMs') ||
+      1000
+    const startDate = testRecord.sendStartDate || testRecord.startDate
+
+    try {
+      const sentTimestamps: number[] = []
+      const processed: { timestampMs: number; latencyMs: number }[] = []
+      const failureTimestamps: number[] = []
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        sentTimestamps.push(Date.parse(message.timestamp))
+        if (message.processedTimestamp && typeof message.processingTimeMs === 'number') {
+          processed.push({ timestampMs: Date.parse(message.processedTimestamp), latencyMs: message.processingTimeMs })
+        }
+      })
+      await this.scanJsonRecords(`failure:${testId}:*`, (failure) => {
+        failureTimestamps.push(Date.parse(failure.timestamp))
+      })
+
+      const buckets: any[] = buildTimeline({
+        startMs: Date.parse(startDate),
+        bucketMs: resolvedBucketMs,
+        sentTimestamps,
+        processed,
+        failureTimestamps,
+      })
+
+      const loadProfile = testRecord.parameters?.loadProfile
+      if (!loadProfile?.length) {
+        this.logger.log(`[calculateTimeline] Timeline successfully calculated for test ${testId}.`)
+        return { bucketMs: resolvedBucketMs, startDate, buckets }
+      }
+
+      buckets.forEach((bucket) => {
+        const stage = resolveLoadStage(loadProfile, bucket.offsetMs)
+        bucket.stage = stage ? { index: stage.index, name: stage.name, type: stage.type } : null
+      })
+      const stages = getLoadStageWindows(loadProfile)
+
+      this.logger.log(`[calculateTimeline] Timeline successfully calculated for test ${testId}.`)
+      return { bucketMs: resolvedBucketMs, startDate, stages, buckets }
+    } catch (error) {
+      this.logger.error(`Error calculating timeline: ${error.message}`)
+      throw new Error('Failed to calculate timeline from Redis.')
+    }
+  }
+
+  /**
+   * Calculates send failure counts grouped by sending agent.
+   * @returns Failure totals and breakdown by error class for each agent.
+   * @throws Error if failure calculation fails.
+   */
+  async calculateFailuresByAgent(testId: string): Promise<any> {
+    this.logger.debug(`[calculateFailuresByAgent] Calculating send failures for test ${testId} grouped by agent...`)
+
+    try {
+      const failuresByAgent: Record<string, { total: number; byType: Record<string, number> }> = {}
+
+      await this.scanJsonRecords(`failure:${testId}:*`, (failure) => {
+        const { fromTenantId, errorType } = failure
+
+        if (!failuresByAgent[fromTenantId]) {
+          failuresByAgent[fromTenantId] = { total: 0, byType: {} }
+        }
+
+        failuresByAgent[fromTenantId].total++
+        failuresByAgent[fromTenantId].byType[errorType] = (failuresByAgent[fromTenantId].byType[errorType] || 0) + 1
+      })
+
+      this.logger.log(`[calculateFailuresByAgent] Failures grouped by agent successfully calculated for ${testId}.`)
+      return failuresByAgent
+    } catch (error) {
+      this.logger.error(`Error calculating grouped failures: ${error.message}`)
+      throw new Error('Failed to calculate grouped failures from Redis.')
+    }
+  }
+
+  /**
+   * Calculates delivery of the messages queued by the mediator for the recipients taken offline by the
+   * offline-recipient scenario: how many were queued, how many arrived after reconnecting and how long
+   * draining the queue took.
+   * @returns Overall and per-recipient queued delivery, or null if the test did not use the scenario.
+   * @throws Error if the test does not exist or the calculation fails.
+   */
+  async calculateOfflineDelivery(testId: string): Promise<any> {
+    this.logger.debug(`[calculateOfflineDelivery] Calculating offline delivery for test ${testId}...`)
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+
+    if (!testRecordData) {
+      throw new Error(`[calculateOfflineDelivery] Test ${testId} not found`)
+    }
+
+    const { parameters, offlineRecipients } = JSON.parse(testRecordData)
+    if (!offlineRecipients?.tenants?.length) {
+      return null
+    }
+
+    try {
+      const outages: (TenantOutage & { reconnectMs?: number; error?: string })[] = offlineRecipients.tenants
+      const tenantIds = outages.map((outage) => outage.tenantId)
+      const messages: any[] = []
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        if (tenantIds.includes(message.toTenantId)) {
+          messages.push(message)
+        }
+      })
+
+      const result = {
+        share: offlineRecipients.share,
+        offlineDurationMs: parameters?.offlineRecipients?.offlineDurationMs,
+        ...analyzeOutageDelivery(messages, outages),
+        byTenant: outages.map((outage) => {
+          const { queued, delivered, undelivered, completeness, drainTimeMs, firstDeliveryMs } = analyzeOutageDelivery(
+            messages,
+            [outage],
+          )
+          return { ...outage, queued, delivered, undelivered, completeness, drainTimeMs, firstDeliveryMs }
+        }),
+      }
+
+      this.logger.log(`[calculateOfflineDelivery] Offline delivery successfully calculated for ${testId}.`)
+      return result
+    } catch (error) {
+      this.logger.error(`Error calculating offline delivery: ${error.message}`)
+      throw new Error('Failed to calculate offline delivery from Redis.')
+    }
+  }
+
+  /**
+   * Calculates the impact of agent churn on a test: reconnect times, messages lost while tenants were
+   * offline (failed sends from or to them, and queued messages never delivered) and the latency of the
+   * messages queued by the mediator during the outages.
+   * @returns Churn impact, or null if the test did not use churn.
+   * @throws Error if the test does not exist or the calculation fails.
+   */
+  async calculateChurnImpact(testId: string): Promise<any> {
+    this.logger.debug(`[calculateChurnImpact] Calculating churn impact for test ${testId}...`)
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+
+    if (!testRecordData) {
+      throw new Error(`[calculateChurnImpact] Test ${testId} not found`)
+    }
+
+    const { churn } = JSON.parse(testRecordData)
+    if (!churn?.events) {
+      return null
+    }
+
+    try {
+      const outages: TenantOutage[] = churn.events.filter((event) => !event.error || event.onlineAt)
+      const tenantIds = new Set(outages.map((outage) => outage.tenantId))
+      const messages: any[] = []
+      let failedToSend = 0
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        if (tenantIds.has(message.toTenantId)) {
+          messages.push(message)
+        }
+      })
+      await this.scanJsonRecords(`failure:${testId}:*`, (failure) => {
+        const duringOutage = outages.some(
+          (outage) =>
+            (outage.tenantId === failure.fromTenantId || outage.tenantId === failure.toTenantId) &&
+            isDuringOutage(failure.timestamp, outage),
+        )
+        if (duringOutage) {
+          failedToSend++
+        }
+      })
+
+      const queuedDuringOutage = analyzeOutageDelivery(messages, outages)
+      const reconnect = calculateLatencySummary(
+        churn.events.filter((event) => typeof event.reconnectMs === 'number').map((event) => event.reconnectMs),
+      )
+
+      const result = {
+        target: churn.target,
+        events: churn.events.length,
+        failedEvents: churn.events.filter((event) => event.error).length,
+        reconnect,
+        lostWhileOffline: {
+          failedToSend,
+          undeliveredQueued: queuedDuringOutage.undelivered,
+          total: failedToSend + queuedDuringOutage.undelivered,
+        },
+        queuedDuringOutage,
+        eventLog: churn.events,
+      }
+
+      this.logger.log(`[calculateChurnImpact] Churn impact successfully calculated for ${testId}.`)
+      return result
+    } catch (error) {
+      this.logger.error(`Error calculating churn impact: ${error.message}`)
+      throw new Error('Failed to calculate churn impact from Redis.')
+    }
+  }
+
+  /**
+   * Calculates the results of each phase of a scenario test: messages sent, delivered and failed within the
+   * phase window, latency of the messages it sent, throughput and, for offline phases, queued delivery.
+   * @returns Results per phase in run order, or null if the test is not a scenario.
+   * @throws Error if the test does not exist or the calculation fails.
+   */
+  async calculatePhaseResults(testId: string): Promise<any[] | null> {
+    this.logger.debug(`[calculatePhaseResults] Calculating phase results for test ${testId}...`)
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+
+    if (!testRecordData) {
+      throw new Error(`[calculatePhaseResults] Test ${testId} not found`)
+    }
+
+    const { phases } = JSON.parse(testRecordData)
+    if (!phases) {
+      return null
+    }
+
+    try {
+      const messages: any[] = []
+      const failureTimestamps: number[] = []
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        messages.push(message)
+      })
+      await this.scanJsonRecords(`failure:${testId}:*`, (failure) => {
+        failureTimestamps.push(Date.parse(failure.timestamp))
+      })
+
+      const results = phases.map((phase: ScenarioPhaseWindow) => summarizePhase(phase, messages, failureTimestamps))
+
+      this.logger.log(`[calculatePhaseResults] Phase results successfully calculated for ${testId}.`)
+      return results
+    } catch (error) {
+      this.logger.error(`Error calculating phase results: ${error.message}`)
+      throw new Error('Failed to calculate phase results from Redis.')
+    }
+  }
+
+  /**
+   * Calculates delivery accounting for a test: attempted, sent, failed, delivered and undelivered messages.
+   * Undelivered messages are those that were sent but never produced an `AgentMessageProcessed` event.
+   * @returns Delivery counters, delivery ratio and undelivered messages grouped by sender/receiver pair.
+   * @throws Error if delivery calculation fails.
+   */
+  async calculateDelivery(testId: string): Promise<any> {
+    this.logger.debug(`[calculateDelivery] Calculating delivery accounting for test ${testId}...`)
+
+    try {
+      const stats = await this.redisClient.hgetall(`test:${testId}:stats`)
+      const undeliveredByPair: Record<
+        string,
+        { fromTenantId: string; toTenantId: string; count: number; threadIds: string[] }
+      > = {}
+      let sent = 0
+      let delivered = 0
+
+      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
+        sent++
+        if (message.processedTimestamp) {
+          delivered++
+          return
+        }
+
+        const pairKey = `${message.fromTenantId}->${message.toTenantId}`
+        if (!undeliveredByPair[pairKey]) {
+          undeliveredByPair[pairKey] = {
+            fromTenantId: message.fromTenantId,
+            toTenantId: message.toTenantId,
+            count: 0,
+            threadIds: [],
+          }
+        }
+        undeliveredByPair[pairKey].count++
+        undeliveredByPair[pairKey].threadIds.push(message.threadId)
+      })
+
+      const failedToSend = Number(stats?.failedMessages || 0)
+      const attempted = Number(stats?.attemptedMessages || sent + failedToSend)
+      const undelivered = sent - delivered
+      const deliveryRatio = sent > 0 ? Number((delivered / sent).toFixed(4)) : 0
+
+      this.logger.log(`[calculateDelivery] Delivery accounting successfully calculated for test ${testId}.`)
+      return {
+        attempted,
+        sent,
+        failedToSend,
+        delivered,
+        undelivered,
+        deliveryRatio,
+        undeliveredByPair: Object.values(undeliveredByPair),
+      }
+    } catch (error) {
+      this.logger.error(`Error calculating delivery accounting: ${error.message}`)
+      throw new Error('Failed to calculate delivery accounting from Redis.')
+    }
+  }
+
+  /**
+   * Evaluates the SLO assertions of a test (p95/p99 latency, delivery ratio, error rate, throughput)
+   * against its measured results.
+   * @returns The verdict with per-assertion results, or null if the test has no assertions.
+   * @throws Error if the test does not exist.
+   */
+  async evaluateVerdict(testId: string): Promise<Verdict | null> {
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    if (!testRecordData) {
+      throw new Error(`[evaluateVerdict] Test ${testId} not found`)
+    }
+
+    const testRecord = JSON.parse(testRecordData)
+    const assertions = testRecord.parameters?.assertions
+    if (!assertions) {
+      return null
+    }
+
+    const totals = await this.calculateTotals(testId)
+    const delivery = await this.calculateDelivery(testId)
+    const sendDurationMs =
+      testRecord.sendStartDate && testRecord.endDate
+        ? Date.parse(testRecord.endDate) - Date.parse(testRecord.sendStartDate)
+        : 0
+
+    return evaluateAssertions(
+      assertions,
+      {
+        p95LatencyMs: totals.latency?.count ? totals.latency.p95Ms : null,
+        p99LatencyMs: totals.latency?.count ? totals.latency.p99Ms : null,
+        deliveryRatio: delivery.sent > 0 ? delivery.deliveryRatio : null,
+        errorRate: delivery.attempted > 0 ? Number((delivery.failedToSend / delivery.attempted).toFixed(4)) : null,
+        throughputPerSecond:
+          sendDurationMs > 0 ? Number((delivery.delivered / (sendDurationMs / 1000)).toFixed(2)) : null,
+      },
+      testRecord.status,
+    )
+  }
 
-    if (completedConnections.length === 0) {
-      this.logger.warn(`[getRandomConnection] No completed connections found for ${fromAgent}`)
-      return null
-    }
+  async generateReport(testId: string): Promise<{ reportPath: string; report: any }> {
+    this.logger.debug(`[generateReport] Generating report for test ${testId}...`)
+    const report = await this.buildReport(testId, 'generateReport')
 
-    const randomIndex = Math.floor(Math.random() * completedConnections.length)
-    const randomConn = completedConnections[randomIndex]
+    await fs.promises.mkdir(this.reportsDir, { recursive: true })
+    const reportPath = path.join(this.reportsDir, `report-${testId}.json`)
+    await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2))
 
-    return randomConn.theirLabel
+    this.logger.log(`[generateReport] Report generated at ${reportPath}`)
+    return { reportPath, report }
   }
 
   /**
-   * Calculates total metrics for a test using aggregated stats.
-   * @returns Total metrics including total messages and average processing time.
-   * @throws Error if metrics calculation fails.
+   * Generates the report of a test as a self-contained HTML page with charts, to share it with people who
+   * do not use the API. It renders offline: styles and charts are inlined.
+   * @throws Error if the test does not exist.
    */
-  async calculateTotals(testId: string): Promise<any> {
-    this.logger.debug(`[calculateTotals] Calculating total metrics for test ${testId} from Redis...`)
-
-    try {
-      const statsKey = `test:${testId}:stats`
-      const stats = await this.redisClient.hgetall(statsKey)
-
-      if (!stats || Object.keys(stats).length === 0) {
-        this.logger.warn(`[calculateTotals] No stats found in Redis for test ${testId}.`)
-        return {}
-      }
+  async generateHtmlReport(testId: string): Promise<{ reportPath: string; html: string }> {
+    this.logger.debug(`[generateHtmlReport] Generating HTML report for test ${testId}...`)
+    const html = renderHtmlReport(await this.buildReport(testId, 'generateHtmlReport'))
 
-      const totalMessages = Number(stats.totalMessages || 0)
-      const totalProcessingTimeMs = Number(stats.totalProcessingTimeMs || 0)
-      const averageProcessingTimeMs = totalMessages > 0 ? Math.round(totalProcessingTimeMs / totalMessages) : 0
+    await fs.promises.mkdir(this.reportsDir, { recursive: true })
+    const reportPath = path.join(this.reportsDir, `report-${testId}.html`)
+    await fs.promises.writeFile(reportPath, html)
 
-      this.logger.log(`[calculateTotals] Total metrics successfully calculated for test ${testId}.`)
-      return { totalMessages, averageProcessingTimeMs }
-    } catch (error) {
-      this.logger.error(`Error calculating total metrics: ${error.message}`)
-      throw new Error('Failed to calculate total metrics from Redis.')
-    }
+    this.logger.log(`[generateHtmlReport] HTML report generated at ${reportPath}`)
+    return { reportPath, html }
   }
 
   /**
-   * Calculates metrics grouped by agent based on messages stored in Redis.
-   * @returns Metrics grouped by agents, including message details and processing times.
-   * @throws Error if metrics calculation fails.
+   * Exports the report of a test as CSV (one row per sent or failed message) or JUnit XML (one testcase per
+   * SLO assertion and scenario phase). Messages are written to the file as they are scanned from Redis, so
+   * large tests are never held in memory.
+   * @throws Error if the test does not exist.
    */
-  async calculateMetricsByAgent(testId: string): Promise<any> {
-    this.logger.debug(`[calculateMetricsByAgent] Calculating metrics for test ${testId} grouped by agent...`)
+  async exportReport(testId: string, format: Exclude<ReportFormat, 'json'>): Promise<{ reportPath: string }> {
+    this.logger.debug(`[exportReport] Exporting ${format} report for test ${testId}...`)
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
 
-    try {
-      const metricsByAgent: Record<string, { toTenantId: string; message: string; processingTimeMs: number | null }[]> =
-        {}
+    if (!testRecordData) {
+      throw new Error(`[exportReport] Test ${testId} not found`)
+    }
 
-      await this.scanJsonRecords(`message:${testId}:*`, (message) => {
-        const { fromTenantId, toTenantId, message: content, processingTimeMs } = message
+    const testRecord = JSON.parse(testRecordData)
+    await fs.promises.mkdir(this.reportsDir, { recursive: true })
+    const reportPath = path.join(this.reportsDir, `report-${testId}.${format === 'csv' ? 'csv' : 'junit.xml'}`)
 
-        if (!metricsByAgent[fromTenantId]) {
-          metricsByAgent[fromTenantId] = []
-        }
+    await this.writeReportStream(reportPath, async (write) => {
+      if (format === 'csv') {
+        await write(toCsvRow([...CSV_MESSAGE_COLUMNS]))
+        await this.scanJsonRecords(`message:${testId}:*`, (message) => write(messageToCsvRow(message)))
+        await this.scanJsonRecords(`failure:${testId}:*`, (failure) => write(failureToCsvRow(failure)))
+        return
+      }
 
-        metricsByAgent[fromTenantId].push({
-          toTenantId,
-          message: content,
-          processingTimeMs: processingTimeMs || null,
-        })
-      })
+      await write(
+        buildJUnitReport({
+          testId,
+          testName: testRecord.testName,
+          status: testRecord.status,
+          verdict: testRecord.verdict ?? (await this.evaluateVerdict(testId)),
+          phaseResults: await this.calculatePhaseResults(testId),
+        }),
+      )
+    })
 
-      this.logger.log(`[calculateMetricsByAgent] Metrics grouped by agent successfully calculated for ${testId}.`)
-      return metricsByAgent
-    } catch (error) {
-      this.logger.error(`Error calculating grouped metrics: ${error.message}`)
-      throw new Error('Failed to calculate grouped metrics from Redis.')
-    }
+    this.logger.log(`[exportReport] ${format} report generated at ${reportPath}`)
+    return { reportPath }
   }
 
-  async generateReport(testId: string): Promise<{ reportPath: string; report: any }> {
-    this.logger.debug(`[generateReport] Generating report for test ${testId}...`)
+  /**
+   * Gathers the test record and all its calculated metrics into a report.
+   * @param caller - Method named in the error message.
+   * @throws Error if the test does not exist.
+   */
+  private async buildReport(testId: string, caller: string): Promise<any> {
     const testRecordData = await this.redisClient.get(`test:${testId}`)
 
     if (!testRecordData) {
-      throw new Error(`[generateReport] Test ${testId} not found`)
+      throw new Error(`[${caller}] Test ${testId} not found`)
     }
 
     const testRecord = JSON.parse(testRecordData)
     const metricsByAgent = await this.calculateMetricsByAgent(testId)
+    const failuresByAgent = await this.calculateFailuresByAgent(testId)
     const totals = await this.calculateTotals(testId)
-
-    const report = {
+    const delivery = await this.calculateDelivery(testId)
+    const timeline = await this.calculateTimeline(testId)
+    const payloadBreakdown = await this.calculatePayloadBreakdown(testId)
+    const offlineDelivery = await this.calculateOfflineDelivery(testId)
+    const churnImpact = await this.calculateChurnImpact(testId)
+    const phaseResults = await this.calculatePhaseResults(testId)
+
+    return {
       ...testRecord,
       metricsByAgent,
+      failuresByAgent,
       totals,
+      delivery,
+      timeline,
+      payloadBreakdown,
+      offlineDelivery,
+      churnImpact,
+      phaseResults,
     }
-
-    await fs.promises.mkdir(this.reportsDir, { recursive: true })
-    const reportPath = path.join(this.reportsDir, `report-${testId}.json`)
-    await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2))
-
-    this.logger.log(`[generateReport] Report generated at ${reportPath}`)
-    return { reportPath, report }
   }
 
   async generateConsolidatedReport(testId: string): Promise<{ reportPath: string; report: any }> {
@@ -490,12 +1832,26 @@ export class SimulationTestService {
 
     const testRecord = JSON.parse(testRecordData)
     const totals = await this.calculateTotals(testId)
+    const delivery = await this.calculateDelivery(testId)
+    const timeline = await this.calculateTimeline(testId)
+    const payloadBreakdown = await this.calculatePayloadBreakdown(testId)
+    const offlineDelivery = await this.calculateOfflineDelivery(testId)
+    const churnImpact = await this.calculateChurnImpact(testId)
+    const phaseResults = await this.calculatePhaseResults(testId)
     const messages = await this.getMessagesByTestId(testId)
+    const failures = await this.getFailuresByTestId(testId)
 
     const report = {
       ...testRecord,
       totals,
+      delivery,
+      timeline,
+      payloadBreakdown,
+      offlineDelivery,
+      churnImpact,
+      phaseResults,
       messages,
+      failures,
     }
 
     await fs.promises.mkdir(this.reportsDir, { recursive: true })
@@ -539,13 +1895,13 @@ export class SimulationTestService {
     }
 
     const testRecord = JSON.parse(testRecordData)
-    const { numAgent, nameAgent } = testRecord.parameters || {}
+    const { numAgent, nameAgent, pickupStrategy, pollingIntervalMs, mediator } = testRecord.parameters || {}
 
     if (!numAgent || !nameAgent) {
       throw new Error(`[activateTenantsForTest] Test ${testId} missing parameters`)
     }
 
-    const tenantIds = await this.createAgents(numAgent, nameAgent)
+    const tenantIds = await this.createAgents(numAgent, nameAgent, { pickupStrategy, pollingIntervalMs, mediator })
 
     const delay =
       typeof cleanupDelayMs === 'number'
@@ -569,6 +1925,71 @@ export class SimulationTestService {
     return { status: 'Tenants activated', tenantIds, cleanupDelayMs: delay }
   }
 
+  /**
+   * Returns a snapshot of the progress of a test: current phase, setup progress and message counters.
+   * @returns Progress snapshot; `finished` is true once the run is no longer active.
+   * @throws Error if the test does not exist.
+   */
+  async getProgress(testId: string): Promise<any> {
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    if (!testRecordData) {
+      throw new Error(`[getProgress] Test ${testId} not found`)
+    }
+
+    const testRecord = JSON.parse(testRecordData)
+    const stats = (await this.redisClient.hgetall(`test:${testId}:stats`)) || {}
+    const progress = this.runProgress.get(testId)
+
+    return {
+      testId,
+      status: testRecord.status,
+      phase: progress?.phase || null,
+      agents: progress?.agents || null,
+      connections: progress?.connections || null,
+      scenarioPhase: progress?.scenarioPhase || null,
+      counters: {
+        attempted: Number(stats.attemptedMessages || 0),
+        sent: Number(stats.sentMessages || 0),
+        processed: Number(stats.totalMessages || 0),
+        failed: Number(stats.failedMessages || 0),
+      },
+      timestamp: new Date().toISOString(),
+      finished: !progress && !['running', 'stopping'].includes(testRecord.status),
+    }
+  }
+
+  /**
+   * Streams progress snapshots for a test until its run finishes.
+   * Each snapshot adds the sent/processed throughput observed since the previous one.
+   * @param testId - ID of the test.
+   * @param intervalMs - Interval between snapshots (in milliseconds).
+   * @returns An observable of server-sent events.
+   */
+  streamProgress(testId: string, intervalMs = 1000): Observable<{ data: any }> {
+    let previous: { timestampMs: number; sent: number; processed: number } | null = null
+
+    return timer(0, intervalMs).pipe(
+      concatMap(() => from(this.getProgress(testId))),
+      map((progress) => {
+        const timestampMs = Date.parse(progress.timestamp)
+        const elapsedSeconds = previous ? (timestampMs - previous.timestampMs) / 1000 : 0
+        const throughput = {
+          sentPerSecond:
+            elapsedSeconds > 0 ? Number(((progress.counters.sent - previous.sent) / elapsedSeconds).toFixed(2)) : 0,
+          processedPerSecond:
+            elapsedSeconds > 0
+              ? Number(((progress.counters.processed - previous.processed) / elapsedSeconds).toFixed(2))
+              : 0,
+        }
+        previous = { timestampMs, sent: progress.counters.sent, processed: progress.counters.processed }
+        return { ...progress, throughput }
+      }),
+      takeWhile((progress) => !progress.finished, true),
+      map((progress) => ({ data: progress })),
+      catchError((error) => of({ data: { testId, status: 'error', error: error.message, finished: true } })),
+    )
+  }
+
   async stopSimulation(testId: string): Promise<{ status: string; testId: string }> {
     const run = this.activeRuns.get(testId)
 
@@ -581,9 +2002,367 @@ export class SimulationTestService {
     return { status: 'Stop requested', testId }
   }
 
+  /**
+   * Compares a candidate run with a base run: parameter differences, totals, latency percentiles, delivery
+   * ratio and error counts, flagging the metrics that regressed beyond the thresholds.
+   * @param thresholds - Overrides of the configured regression thresholds.
+   * @returns The comparison, with `regressions` listing the regressed metrics.
+   * @throws Error if either test does not exist.
+   */
+  async compareTests(
+    baseTestId: string,
+    candidateTestId: string,
+    thresholds: Partial<RegressionThresholds> = {},
+  ): Promise<any> {
+    this.logger.debug(`[compareTests] Comparing test ${candidateTestId} against ${baseTestId}...`)
+    const [baseData, candidateData] = await Promise.all([
+      this.redisClient.get(`test:${baseTestId}`),
+      this.redisClient.get(`test:${candidateTestId}`),
+    ])
+
+    if (!baseData) {
+      throw new Error(`[compareTests] Test ${baseTestId} not found`)
+    }
+    if (!candidateData) {
+      throw new Error(`[compareTests] Test ${candidateTestId} not found`)
+    }
+
+    const base = JSON.parse(baseData)
+    const candidate = JSON.parse(candidateData)
+    const resolvedThresholds: RegressionThresholds = {
+      ...DEFAULT_REGRESSION_THRESHOLDS,
+      ...this.configService.get<RegressionThresholds>('appConfig.regressionThresholds'),
+      ...Object.fromEntries(Object.entries(thresholds).filter(([, value]) => typeof value === 'number')),
+    }
+
+    const baseTotals = await this.calculateTotals(baseTestId)
+    const candidateTotals = await this.calculateTotals(candidateTestId)
+    const metrics = compareRuns(
+      summarizeRun(baseTotals, await this.calculateDelivery(baseTestId)),
+      summarizeRun(candidateTotals, await this.calculateDelivery(candidateTestId)),
+      resolvedThresholds,
+    )
+
+    const baseErrors: Record<string, number> = baseTotals.failures?.byType || {}
+    const candidateErrors: Record<string, number> = candidateTotals.failures?.byType || {}
+    const errorsByType = Array.from(new Set([...Object.keys(baseErrors), ...Object.keys(candidateErrors)])).map(
+      (type) => ({
+        type,
+        base: baseErrors[type] || 0,
+        candidate: candidateErrors[type] || 0,
+        delta: (candidateErrors[type] || 0) - (baseErrors[type] || 0),
+      }),
+    )
+
+    const regressions = metrics.filter((metric) => metric.regression).map((metric) => metric.metric)
+    const describe = (record: any) => ({
+      testId: record.testId,
+      testName: record.testName,
+      startDate: record.startDate,
+      status: record.status,
+    })
+
+    return {
+      base: describe(base),
+      candidate: describe(candidate),
+      thresholds: resolvedThresholds,
+      parameters: diffParameters(base.parameters, candidate.parameters),
+      metrics,
+      errorsByType,
+      regressions,
+      regressed: regressions.length > 0,
+    }
+  }
+
+  /**
+   * Returns true while a test runs in this process (until its cleanup has finished).
+   */
+  isRunning(testId: string): boolean {
+    return this.runCompletions.has(testId)
+  }
+
+  async getTest(testId: string): Promise<any> {
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    if (!testRecordData) {
+      throw new Error(`[getTest] Test ${testId} not found`)
+    }
+    return JSON.parse(testRecordData)
+  }
+
+  /**
+   * Deletes a test and its data: the test record and stats, its messages with their thread index entries, its
+   * send failures and its stored reports. Other tests are left untouched.
+   * @param force - Also delete a running test: it is stopped and its cleanup awaited first, so the run writes
+   * nothing after its data is deleted.
+   * @throws NotFoundException if the test does not exist.
+   * @throws ConflictException if the test is running and `force` is not set.
+   */
+  async deleteTest(testId: string, force = false): Promise<{ status: string; testId: string; deleted: any }> {
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    if (!testRecordData) {
+      throw new NotFoundException(`[deleteTest] Test ${testId} not found`)
+    }
+
+    const { status } = JSON.parse(testRecordData)
+    const running = this.isRunning(testId) || ['running', 'stopping'].includes(status)
+    if (running && !force) {
+      throw new ConflictException(`[deleteTest] Test ${testId} is running; stop it first or force the deletion`)
+    }
+    if (running) {
+      await this.stopSimulation(testId)
+      await this.runCompletions.get(testId)
+    }
+
+    const messagePrefix = `message:${testId}:`
+    let messages = 0
+    let messageIndexes = 0
+    for await (const keys of this.redisClient.scanStream({ match: `${messagePrefix}*`, count: 1000 })) {
+      if (!keys.length) {
+        continue
+      }
+      messages += await this.redisClient.del(...keys)
+      messageIndexes += await this.redisClient.del(
+        ...keys.map((key: string) => `message-index:${key.slice(messagePrefix.length)}`),
+      )
+    }
+
+    let failures = 0
+    for await (const keys of this.redisClient.scanStream({ match: `failure:${testId}:*`, count: 1000 })) {
+      if (keys.length) {
+        failures += await this.redisClient.del(...keys)
+      }
+    }
+
+    const stats = await this.redisClient.del(`test:${testId}:stats`)
+    await this.redisClient.del(`test:${testId}`)
+    const reports = await this.reportsService.deleteReportsByTestId(testId)
+    this.metricsService.removeTest(testId)
+
+    this.logger.log(`[deleteTest] Test ${testId} deleted with ${messages} messages and ${reports.length} reports.`)
+    return {
+      status: 'Test deleted',
+      testId,
+      deleted: { test: 1, stats, messages, messageIndexes, failures, reports: reports.length },
+    }
+  }
+
+  /**
+   * Waits until a running simulation has finished (including cleanup) and returns its test record.
+   * Resolves immediately for tests that are not running in this process.
+   * @throws Error if the test does not exist.
+   */
+  async waitForCompletion(testId: string): Promise<any> {
+    await this.runCompletions.get(testId)
+
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    if (!testRecordData) {
+      throw new Error(`[waitForCompletion] Test ${testId} not found`)
+    }
+    return JSON.parse(testRecordData)
+  }
+
+  /**
+   * Starts a comparison run: the same scenario is executed against each mediator, one after another,
+   * so the results can be reported side by side.
+   * @returns Status of the comparison and its ID.
+   */
+  async runMediatorComparison(dto: CompareMediatorsDto): Promise<{ status: string; comparisonId: string }> {
+    const comparisonId = uuidv4()
+    const comparison = {
+      comparisonId,
+      name: dto.name || dto.scenario.testName,
+      mediators: dto.mediators,
+      runs: [],
+      startDate: new Date().toISOString(),
+      status: 'running',
+    }
+
+    await this.redisClient.set(`comparison:${comparisonId}`, JSON.stringify(comparison))
+
+    this.runComparison(comparisonId, dto).catch(async (error) => {
+      this.logger.error(`[runMediatorComparison] Comparison ${comparisonId} failed: ${error.message}`)
+      await this.updateComparisonRecord(comparisonId, { status: 'failed', error: error.message })
+    })
+
+    return { status: 'Comparison is running', comparisonId }
+  }
+
+  /**
+   * Returns the record of a comparison run, with the test ID and status of each mediator run.
+   * @throws Error if the comparison does not exist.
+   */
+  async getComparison(comparisonId: string): Promise<any> {
+    const comparisonData = await this.redisClient.get(`comparison:${comparisonId}`)
+    if (!comparisonData) {
+      throw new Error(`[getComparison] Comparison ${comparisonId} not found`)
+    }
+    return JSON.parse(comparisonData)
+  }
+
+  /**
+   * Generates the side-by-side report of a comparison run: one row per metric (latency percentiles,
+   * delivery, failures) with the value measured against every mediator.
+   * @throws Error if the comparison does not exist.
+   */
+  async generateComparisonReport(comparisonId: string): Promise<{ reportPath: string; report: any }> {
+    this.logger.debug(`[generateComparisonReport] Generating report for comparison ${comparisonId}...`)
+    const comparison = await this.getComparison(comparisonId)
+
+    const runs = []
+    for (const run of comparison.runs) {
+      const totals = await this.calculateTotals(run.testId)
+      const delivery = await this.calculateDelivery(run.testId)
+      runs.push({ ...run, summary: summarizeRun(totals, delivery) })
+    }
+
+    const report = {
+      ...comparison,
+      runs,
+      sideBySide: buildSideBySide(runs.map((run) => ({ label: run.mediator, summary: run.summary }))),
+    }
+
+    await fs.promises.mkdir(this.reportsDir, { recursive: true })
+    const reportPath = path.join(this.reportsDir, `report-comparison-${comparisonId}.json`)
+    await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2))
+
+    this.logger.log(`[generateComparisonReport] Report generated at ${reportPath}`)
+    return { reportPath, report }
+  }
+
+  /**
+   * Saves a named test template.
+   * @returns The stored template with its ID.
+   */
+  async createTemplate(dto: TemplateDto): Promise<any> {
+    const now = new Date().toISOString()
+    const template = { templateId: uuidv4(), ...dto, createdAt: now, updatedAt: now }
+
+    await this.redisClient.set(`template:${template.templateId}`, JSON.stringify(template))
+    this.logger.log(`[createTemplate] Template ${template.templateId} (${dto.name}) created.`)
+    return template
+  }
+
+  async getTemplates(): Promise<any[]> {
+    const templates: any[] = []
+    await this.scanJsonRecords('template:*', (record) => {
+      templates.push(record)
+    })
+    return templates.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getTemplate(templateId: string): Promise<any> {
+    const templateData = await this.redisClient.get(`template:${templateId}`)
+    if (!templateData) {
+      throw new Error(`[getTemplate] Template ${templateId} not found`)
+    }
+    return JSON.parse(templateData)
+  }
+
+  /**
+   * Replaces the name, description and configuration of a template.
+   * @throws Error if the template does not exist.
+   */
+  async updateTemplate(templateId: string, dto: TemplateDto): Promise<any> {
+    const existing = await this.getTemplate(templateId)
+    const template = {
+      templateId,
+      ...dto,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    }
+
+    await this.redisClient.set(`template:${templateId}`, JSON.stringify(template))
+    return template
+  }
+
+  /**
+   * Deletes a template. Tests run from it keep their `templateId`.
+   * @throws Error if the template does not exist.
+   */
+  async deleteTemplate(templateId: string): Promise<{ status: string; templateId: string }> {
+    const deleted = await this.redisClient.del(`template:${templateId}`)
+    if (!deleted) {
+      throw new Error(`[deleteTemplate] Template ${templateId} not found`)
+    }
+    return { status: 'Template deleted', templateId }
+  }
+
+  /**
+   * Starts a test with the configuration of a template; the test record keeps the `templateId`.
+   * @throws Error if the template does not exist.
+   */
+  async runTemplate(templateId: string): Promise<{ status: string; testId: string }> {
+    const template = await this.getTemplate(templateId)
+    return this.simulateTest(template.config, { templateId })
+  }
+
+  /**
+   * Starts a new test with the same parameters as a past one (a simulation or a scenario). The new test
+   * keeps the `templateId` of the original and records it in `rerunOf`.
+   * @throws Error if the test does not exist.
+   */
+  async rerunTest(testId: string): Promise<{ status: string; testId: string }> {
+    const testRecordData = await this.redisClient.get(`test:${testId}`)
+    if (!testRecordData) {
+      throw new Error(`[rerunTest] Test ${testId} not found`)
+    }
+
+    const { testName, testDescription, templateId, parameters, scenario } = JSON.parse(testRecordData)
+    const origin = { templateId, rerunOf: testId }
+
+    if (scenario) {
+      return this.runScenario(scenario, origin)
+    }
+    return this.simulateTest({ ...parameters, testName, testDescription }, origin)
+  }
+
+  /**
+   * Lists the tests run from a template (directly or as re-runs), oldest first.
+   */
+  async getTestsByTemplate(templateId: string): Promise<any[]> {
+    const tests = await this.getTests()
+    return tests
+      .filter((test) => test.templateId === templateId)
+      .sort((a, b) => Date.parse(a.startDate) - Date.parse(b.startDate))
+  }
+
+  private async runComparison(comparisonId: string, dto: CompareMediatorsDto): Promise<void> {
+    const runs: { mediator: string; testId: string; status?: string }[] = []
+
+    for (const mediator of dto.mediators) {
+      this.logger.debug(`[runComparison] Running ${comparisonId} against mediator ${mediator}...`)
+      const { testId } = await this.simulateTest({
+        ...dto.scenario,
+        testName: `${dto.scenario.testName} [${mediator}]`,
+        mediator,
+      })
+      runs.push({ mediator, testId })
+      await this.updateComparisonRecord(comparisonId, { runs })
+
+      const testRecord = await this.waitForCompletion(testId)
+      runs[runs.length - 1].status = testRecord.status
+      await this.updateComparisonRecord(comparisonId, { runs })
+    }
+
+    await this.updateComparisonRecord(comparisonId, { status: 'completed', endDate: new Date().toISOString() })
+  }
+
+  private async updateComparisonRecord(comparisonId: string, updates: Record<string, any>): Promise<void> {
+    const existing = await this.redisClient.get(`comparison:${comparisonId}`)
+    if (!existing) {
+      return
+    }
+
+    await this.redisClient.set(`comparison:${comparisonId}`, JSON.stringify({ ...JSON.parse(existing), ...updates }))
+  }
+
+  /**
+   * Scans the JSON records matching a key pattern, calling `onRecord` for each one. Scanning waits for the
+   * promise `onRecord` returns, if any, before reading more records.
+   */
   private async scanJsonRecords(
     pattern: string,
-    onRecord: (record: any) => void,
+    onRecord: (record: any) => void | Promise<void>,
     options?: { keyFilter?: (key: string) => boolean },
   ): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -601,23 +2380,25 @@ export class SimulationTestService {
 
         pipeline
           .exec()
-          .then((results) => {
+          .then(async (results) => {
             if (!results) {
               return
             }
 
-            results.forEach((result) => {
-              const [error, value] = result
+            for (const [error, value] of results) {
               if (error || !value) {
-                return
+                continue
               }
 
+              let record: any
               try {
-                onRecord(JSON.parse(value as string))
+                record = JSON.parse(value as string)
               } catch (parseError) {
                 this.logger.warn(`[scanJsonRecords] Failed to parse record for key pattern ${pattern}`)
+                continue
               }
-            })
+              await onRecord(record)
+            }
           })
           .then(() => stream.resume())
           .catch((error) => {
@@ -631,6 +2412,37 @@ export class SimulationTestService {
     })
   }
 
+  /**
+   * Writes a file through a stream, resolving once all content produced by `produce` has been flushed.
+   * `write` resolves once the stream can take more data, so awaiting it keeps the buffered content bounded.
+   */
+  private async writeReportStream(
+    filePath: string,
+    produce: (write: (chunk: string) => Promise<void>) => Promise<void>,
+  ): Promise<void> {
+    const stream = fs.createWriteStream(filePath)
+    const finished = new Promise<void>((resolve, reject) => {
+      stream.on('finish', () => resolve())
+      stream.on('error', (error) => reject(error))
+    })
+
+    try {
+      await produce(async (chunk) => {
+        if (!stream.write(chunk)) {
+          await once(stream, 'drain')
+        }
+      })
+    } finally {
+      stream.end()
+      await finished
+    }
+  }
+
+  private updateProgress(testId: string, updates: Partial<SimulationProgress>): void {
+    const current = this.runProgress.get(testId)
+    this.runProgress.set(testId, { ...current, ...updates, updatedAt: new Date().toISOString() })
+  }
+
   private async updateTestRecord(testId: string, updates: Record<string, any>): Promise<void> {
     const existing = await this.redisClient.get(`test:${testId}`)
     if (!existing) {
@@ -0,0 +1,21 @@
+import { nextArrivalDelayMs } from './arrival-schedule.util'
+
+describe('arrival-schedule.util', () => {
+  it('should space constant arrivals evenly', () => {
+    expect(nextArrivalDelayMs(200)).toBe(5)
+    expect(nextArrivalDelayMs(200, 'constant')).toBe(5)
+  })
+
+  it('should draw exponential inter-arrival times for poisson arrivals', () => {
+    expect(nextArrivalDelayMs(100, 'poisson', () => 0)).toBeCloseTo(0)
+    expect(nextArrivalDelayMs(100, 'poisson', () => 1 - Math.exp(-1))).toBeCloseTo(10)
+  })
+
+  it('should average the mean delay for poisson arrivals', () => {
+    const samples = Array.from({ length: 20000 }, () => nextArrivalDelayMs(100, 'poisson'))
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length
+
+    expect(mean).toBeGreaterThan(9)
+    expect(mean).toBeLessThan(11)
+  })
+})
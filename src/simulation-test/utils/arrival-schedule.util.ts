@@ -0,0 +1,28 @@
+export const ARRIVAL_MODES = ['closed', 'open'] as const
+
+export type ArrivalMode = (typeof ARRIVAL_MODES)[number]
+
+export const ARRIVAL_DISTRIBUTIONS = ['constant', 'poisson'] as const
+
+export type ArrivalDistribution = (typeof ARRIVAL_DISTRIBUTIONS)[number]
+
+/**
+ * Returns the delay (ms) until the next arrival of an open-loop schedule.
+ * Constant arrivals are evenly spaced; Poisson arrivals use exponentially distributed inter-arrival times.
+ * @param ratePerSecond - Target arrival rate in messages per second.
+ * @param distribution - Arrival distribution.
+ * @param random - Source of uniformly distributed numbers in [0, 1).
+ */
+export function nextArrivalDelayMs(
+  ratePerSecond: number,
+  distribution: ArrivalDistribution = 'constant',
+  random: () => number = Math.random,
+): number {
+  const meanDelayMs = 1000 / ratePerSecond
+
+  if (distribution === 'poisson') {
+    return -Math.log(1 - random()) * meanDelayMs
+  }
+
+  return meanDelayMs
+}
@@ -0,0 +1,36 @@
+import { buildChurnSchedule, DEFAULT_CHURN_OUTAGE_MS } from './churn.util'
+
+describe('churn.util', () => {
+  const agentIds = ['A-1', 'A-2', 'A-3']
+
+  it('should space rate-based events evenly over the sending phase', () => {
+    const events = buildChurnSchedule({ ratePerMinute: 6 }, agentIds, 35000, () => 0.5)
+
+    expect(events.map((event) => event.atMs)).toEqual([10000, 20000, 30000])
+    expect(events.every((event) => event.tenantId === 'A-2')).toBe(true)
+    expect(events[0].outageMs).toBe(DEFAULT_CHURN_OUTAGE_MS)
+  })
+
+  it('should use an explicit schedule sorted by time and drop events after the sending phase', () => {
+    const events = buildChurnSchedule(
+      {
+        ratePerMinute: 60,
+        outageMs: 2000,
+        schedule: [{ atMs: 20000, tenantId: 'A-3', outageMs: 8000 }, { atMs: 5000 }, { atMs: 90000, tenantId: 'A-1' }],
+      },
+      agentIds,
+      60000,
+      () => 0,
+    )
+
+    expect(events).toEqual([
+      { atMs: 5000, tenantId: 'A-1', outageMs: 2000 },
+      { atMs: 20000, tenantId: 'A-3', outageMs: 8000 },
+    ])
+  })
+
+  it('should not plan events without a rate, a schedule or tenants', () => {
+    expect(buildChurnSchedule({}, agentIds, 60000)).toEqual([])
+    expect(buildChurnSchedule({ ratePerMinute: 10 }, [], 60000)).toEqual([])
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * What is restarted on a churn event: only the outbound transport and message pickup (`transport`), or the
+ * whole agent on its existing wallet (`agent`).
+ */
+export const CHURN_TARGETS = ['transport', 'agent'] as const
+
+export type ChurnTarget = (typeof CHURN_TARGETS)[number]
+
+export const DEFAULT_CHURN_OUTAGE_MS = 5000
+
+export interface ChurnConfig {
+  target?: ChurnTarget
+  /** Disconnections per minute across all agents, at random tenants. */
+  ratePerMinute?: number
+  /** Default time a churned tenant stays disconnected. */
+  outageMs?: number
+  /** Explicit disconnections, relative to the start of the sending phase; overrides `ratePerMinute`. */
+  schedule?: { atMs: number; tenantId?: string; outageMs?: number }[]
+}
+
+export interface PlannedChurnEvent {
+  atMs: number
+  tenantId: string
+  outageMs: number
+}
+
+/**
+ * Builds the churn events of a test, sorted by time.
+ * With a `schedule`, its entries are used as-is (random tenant when not set); otherwise events are evenly
+ * spaced at `ratePerMinute`, each one at a random tenant.
+ * @param config - Churn configuration.
+ * @param agentIds - Tenants that can be churned.
+ * @param durationMs - Length of the sending phase; later events are dropped.
+ * @param random - Source of uniformly distributed numbers in [0, 1).
+ */
+export function buildChurnSchedule(
+  config: ChurnConfig,
+  agentIds: string[],
+  durationMs: number,
+  random: () => number = Math.random,
+): PlannedChurnEvent[] {
+  if (agentIds.length === 0) {
+    return []
+  }
+
+  const defaultOutageMs = config.outageMs ?? DEFAULT_CHURN_OUTAGE_MS
+  const pickTenant = () => agentIds[Math.floor(random() * agentIds.length)]
+
+  if (config.schedule?.length) {
+    return config.schedule
+      .filter((entry) => entry.atMs < durationMs)
+      .map((entry) => ({
+        atMs: entry.atMs,
+        tenantId: entry.tenantId ?? pickTenant(),
+        outageMs: entry.outageMs ?? defaultOutageMs,
+      }))
+      .sort((a, b) => a.atMs - b.atMs)
+  }
+
+  if (!config.ratePerMinute || config.ratePerMinute <= 0) {
+    return []
+  }
+
+  const intervalMs = 60000 / config.ratePerMinute
+  const events: PlannedChurnEvent[] = []
+  for (let atMs = intervalMs; atMs < durationMs; atMs += intervalMs) {
+    events.push({ atMs: Math.round(atMs), tenantId: pickTenant(), outageMs: defaultOutageMs })
+  }
+  return events
+}
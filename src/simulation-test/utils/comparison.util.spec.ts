@@ -0,0 +1,77 @@
+import { buildSideBySide, compareRuns, diffParameters, summarizeRun } from './comparison.util'
+
+describe('comparison.util', () => {
+  it('should summarize totals and delivery into flat metrics', () => {
+    const summary = summarizeRun(
+      { totalMessages: 90, latency: { p50Ms: 20, p95Ms: 80 }, failures: { total: 3 } },
+      { sent: 100, delivered: 90, deliveryRatio: 0.9 },
+    )
+
+    expect(summary).toMatchObject({
+      totalMessages: 90,
+      latencyP50Ms: 20,
+      latencyP95Ms: 80,
+      latencyP99Ms: null,
+      deliveryRatio: 0.9,
+      failures: 3,
+    })
+  })
+
+  it('should lay runs out side by side per metric', () => {
+    const rows = buildSideBySide([
+      { label: 'did:web:a', summary: { latencyP95Ms: 80, deliveryRatio: 1 } },
+      { label: 'did:web:b', summary: { latencyP95Ms: 120 } },
+    ])
+
+    expect(rows).toEqual([
+      { metric: 'latencyP95Ms', values: { 'did:web:a': 80, 'did:web:b': 120 } },
+      { metric: 'deliveryRatio', values: { 'did:web:a': 1, 'did:web:b': null } },
+    ])
+  })
+
+  describe('compareRuns', () => {
+    const thresholds = { latencyPct: 10, deliveryRatioDrop: 0.01, failuresPct: 10 }
+
+    it('should flag latency, delivery and failure regressions above the thresholds', () => {
+      const rows = compareRuns(
+        { latencyP50Ms: 100, latencyP95Ms: 200, deliveryRatio: 1, failures: 0, undelivered: 10, sent: 100 },
+        { latencyP50Ms: 105, latencyP95Ms: 250, deliveryRatio: 0.95, failures: 2, undelivered: 10, sent: 80 },
+        thresholds,
+      )
+      const byMetric = Object.fromEntries(rows.map((row) => [row.metric, row]))
+
+      expect(byMetric.latencyP50Ms).toMatchObject({ delta: 5, deltaPct: 5, regression: false })
+      expect(byMetric.latencyP95Ms).toMatchObject({ delta: 50, deltaPct: 25, regression: true })
+      expect(byMetric.deliveryRatio).toMatchObject({ delta: -0.05, regression: true })
+      expect(byMetric.failures).toMatchObject({ delta: 2, deltaPct: null, regression: true })
+      expect(byMetric.undelivered.regression).toBe(false)
+      expect(byMetric.sent.regression).toBe(false)
+    })
+
+    it('should not flag improvements or missing values', () => {
+      const rows = compareRuns({ latencyP95Ms: 200, deliveryRatio: 0.9 }, { latencyP95Ms: 150, deliveryRatio: null })
+
+      expect(rows.every((row) => !row.regression)).toBe(true)
+      expect(rows[1].delta).toBeNull()
+    })
+  })
+
+  describe('diffParameters', () => {
+    it('should list only the parameters that differ', () => {
+      expect(
+        diffParameters(
+          { numAgent: 4, topology: 'full-mesh', payload: { sizeMode: 'fixed', sizeBytes: 1024 } },
+          {
+            numAgent: 8,
+            topology: 'full-mesh',
+            payload: { sizeMode: 'fixed', sizeBytes: 1024 },
+            churn: { ratePerMinute: 6 },
+          },
+        ),
+      ).toEqual([
+        { parameter: 'numAgent', base: 4, candidate: 8 },
+        { parameter: 'churn', base: null, candidate: { ratePerMinute: 6 } },
+      ])
+    })
+  })
+})
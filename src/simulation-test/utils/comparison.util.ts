@@ -0,0 +1,133 @@
+/**
+ * Flat metrics of a run used to compare runs side by side.
+ */
+export type RunSummary = Record<string, number | null>
+
+/**
+ * Extracts the comparable metrics of a run from its totals and delivery accounting.
+ * @param totals - Result of `calculateTotals`.
+ * @param delivery - Result of `calculateDelivery`.
+ */
+export function summarizeRun(totals: any, delivery: any): RunSummary {
+  const metric = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null)
+
+  return {
+    totalMessages: metric(totals?.totalMessages),
+    averageProcessingTimeMs: metric(totals?.averageProcessingTimeMs),
+    latencyP50Ms: metric(totals?.latency?.p50Ms),
+    latencyP90Ms: metric(totals?.latency?.p90Ms),
+    latencyP95Ms: metric(totals?.latency?.p95Ms),
+    latencyP99Ms: metric(totals?.latency?.p99Ms),
+    latencyMaxMs: metric(totals?.latency?.maxMs),
+    sent: metric(delivery?.sent),
+    delivered: metric(delivery?.delivered),
+    undelivered: metric(delivery?.undelivered),
+    deliveryRatio: metric(delivery?.deliveryRatio),
+    failures: metric(totals?.failures?.total),
+  }
+}
+
+/**
+ * Lays out run summaries side by side: one row per metric with the value of every run.
+ * @param runs - Label and summary of each run, in display order.
+ */
+export function buildSideBySide(
+  runs: { label: string; summary: RunSummary }[],
+): { metric: string; values: Record<string, number | null> }[] {
+  const metrics = Array.from(new Set(runs.flatMap((run) => Object.keys(run.summary))))
+
+  return metrics.map((metric) => ({
+    metric,
+    values: Object.fromEntries(runs.map((run) => [run.label, run.summary[metric] ?? null])),
+  }))
+}
+
+/**
+ * Limits above which a candidate run is flagged as a regression of its base run.
+ * - `latencyPct`: allowed increase (%) of average latency and latency percentiles.
+ * - `deliveryRatioDrop`: allowed absolute drop of the delivery ratio (0-1).
+ * - `failuresPct`: allowed increase (%) of send failures and undelivered messages.
+ */
+export interface RegressionThresholds {
+  latencyPct: number
+  deliveryRatioDrop: number
+  failuresPct: number
+}
+
+export const DEFAULT_REGRESSION_THRESHOLDS: RegressionThresholds = {
+  latencyPct: 10,
+  deliveryRatioDrop: 0.01,
+  failuresPct: 10,
+}
+
+export interface MetricComparison {
+  metric: string
+  base: number | null
+  candidate: number | null
+  delta: number | null
+  deltaPct: number | null
+  regression: boolean
+}
+
+const LATENCY_METRICS = [
+  'averageProcessingTimeMs',
+  'latencyP50Ms',
+  'latencyP90Ms',
+  'latencyP95Ms',
+  'latencyP99Ms',
+  'latencyMaxMs',
+]
+
+const FAILURE_METRICS = ['undelivered', 'failures']
+
+/**
+ * Compares the summaries of two runs metric by metric and flags regressions of the candidate.
+ * Latency and failure metrics regress when they grow more than the allowed percentage (any growth from
+ * zero failures counts), the delivery ratio when it drops more than the allowed amount. Other metrics
+ * are reported without being flagged.
+ * @param base - Summary of the reference run.
+ * @param candidate - Summary of the run being checked.
+ * @param thresholds - Regression thresholds.
+ */
+export function compareRuns(
+  base: RunSummary,
+  candidate: RunSummary,
+  thresholds: RegressionThresholds = DEFAULT_REGRESSION_THRESHOLDS,
+): MetricComparison[] {
+  const metrics = Array.from(new Set([...Object.keys(base), ...Object.keys(candidate)]))
+
+  return metrics.map((metric) => {
+    const baseValue = base[metric] ?? null
+    const candidateValue = candidate[metric] ?? null
+    const comparable = baseValue !== null && candidateValue !== null
+    const delta = comparable ? Number((candidateValue - baseValue).toFixed(4)) : null
+    const deltaPct = comparable && baseValue !== 0 ? Number(((delta / baseValue) * 100).toFixed(2)) : null
+
+    let regression = false
+    if (comparable && LATENCY_METRICS.includes(metric)) {
+      regression = deltaPct !== null && deltaPct > thresholds.latencyPct
+    } else if (comparable && FAILURE_METRICS.includes(metric)) {
+      regression = delta > 0 && (baseValue === 0 || deltaPct > thresholds.failuresPct)
+    } else if (comparable && metric === 'deliveryRatio') {
+      regression = -delta > thresholds.deliveryRatioDrop
+    }
+
+    return { metric, base: baseValue, candidate: candidateValue, delta, deltaPct, regression }
+  })
+}
+
+/**
+ * Lists the parameters that differ between two runs.
+ * @param base - Parameters of the reference run.
+ * @param candidate - Parameters of the run being checked.
+ */
+export function diffParameters(
+  base: Record<string, any> = {},
+  candidate: Record<string, any> = {},
+): { parameter: string; base: any; candidate: any }[] {
+  const parameters = Array.from(new Set([...Object.keys(base), ...Object.keys(candidate)]))
+
+  return parameters
+    .filter((parameter) => JSON.stringify(base[parameter]) !== JSON.stringify(candidate[parameter]))
+    .map((parameter) => ({ parameter, base: base[parameter] ?? null, candidate: candidate[parameter] ?? null }))
+}
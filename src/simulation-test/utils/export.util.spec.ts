@@ -0,0 +1,82 @@
+import { buildJUnitReport, failureToCsvRow, isReportFormat, messageToCsvRow, toCsvRow } from './export.util'
+
+describe('export.util', () => {
+  it('should recognize the supported report formats', () => {
+    expect(isReportFormat('junit')).toBe(true)
+    expect(isReportFormat('xml')).toBe(false)
+  })
+
+  it('should quote CSV fields with commas, quotes or line breaks', () => {
+    expect(toCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines', null, 3])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",,3\n',
+    )
+  })
+
+  it('should mark sent messages as processed or pending and failed sends as failed', () => {
+    expect(
+      messageToCsvRow({
+        fromTenantId: 'Agent-1',
+        toTenantId: 'Agent-2',
+        threadId: 'thread-1',
+        timestamp: '2024-01-01T00:00:00.000Z',
+      }),
+    ).toBe('Agent-1,Agent-2,thread-1,2024-01-01T00:00:00.000Z,,,pending,\n')
+    expect(
+      failureToCsvRow({
+        fromTenantId: 'Agent-1',
+        toTenantId: 'Agent-2',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        errorType: 'transport_error',
+      }),
+    ).toBe('Agent-1,Agent-2,,2024-01-01T00:00:00.000Z,,,failed,transport_error\n')
+  })
+
+  describe('buildJUnitReport', () => {
+    const verdict = {
+      status: 'fail' as const,
+      results: [
+        { assertion: 'maxP95LatencyMs' as const, threshold: 500, actual: 320, passed: true },
+        { assertion: 'minThroughputPerSecond' as const, threshold: 10, actual: null, passed: false },
+      ],
+    }
+
+    it('should map each assertion to a testcase and fail the unmet ones', () => {
+      const xml = buildJUnitReport({ testId: 'test-uuid', testName: 'Gate & soak', status: 'completed', verdict })
+
+      expect(xml).toContain('<testsuites name="Gate &amp; soak" tests="3" failures="1">')
+      expect(xml).toContain('<testcase classname="Gate &amp; soak.slo" name="run completed" time="0"/>')
+      expect(xml).toContain('<testcase classname="Gate &amp; soak.slo" name="maxP95LatencyMs" time="0"/>')
+      expect(xml).toContain(
+        '<failure message="minThroughputPerSecond: no value measured (threshold 10)" type="SloAssertion"/>',
+      )
+    })
+
+    it('should fail the run testcase when the run did not complete', () => {
+      const xml = buildJUnitReport({ testId: 'test-uuid', status: 'stopped', verdict })
+
+      expect(xml).toContain('<failure message="Run ended with status stopped" type="RunStatus"/>')
+    })
+
+    it('should map each phase to a testcase timed by its duration', () => {
+      const phase = {
+        index: 0,
+        name: 'warm-up',
+        type: 'send' as const,
+        startDate: '2024-01-01T00:00:00.000Z',
+        durationMs: 30000,
+        sent: 10,
+        delivered: 10,
+        processed: 10,
+        failed: 0,
+        deliveryRatio: 1,
+        throughputPerSecond: 0.33,
+        latency: { count: 10, minMs: 1, maxMs: 9, meanMs: 5, stdDevMs: 1, p50Ms: 5, p90Ms: 8, p95Ms: 9, p99Ms: 9 },
+      }
+
+      const xml = buildJUnitReport({ testId: 'test-uuid', status: 'completed', phaseResults: [phase] })
+
+      expect(xml).toContain('<testsuite name="Phases" tests="1" failures="0">')
+      expect(xml).toContain('name="1. warm-up (send)" time="30"><system-out>sent=10 delivered=10')
+    })
+  })
+})
@@ -0,0 +1,172 @@
+import { AssertionResult, Verdict } from './slo.util'
+import { ScenarioPhaseResult } from './scenario.util'
+
+export const REPORT_FORMATS = ['json', 'csv', 'junit'] as const
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+/**
+ * Columns of the CSV export, one row per message.
+ */
+export const CSV_MESSAGE_COLUMNS = [
+  'fromTenantId',
+  'toTenantId',
+  'threadId',
+  'sentTimestamp',
+  'processedTimestamp',
+  'latencyMs',
+  'status',
+  'errorType',
+] as const
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return REPORT_FORMATS.includes(value as ReportFormat)
+}
+
+/**
+ * Formats values as a CSV line (RFC 4180): fields with commas, quotes or line breaks are quoted.
+ */
+export function toCsvRow(values: unknown[]): string {
+  const fields = values.map((value) => {
+    const field = value === undefined || value === null ? '' : String(value)
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+  })
+  return `${fields.join(',')}\n`
+}
+
+/**
+ * CSV line of a sent message: `processed` once its recipient processed it, `pending` otherwise.
+ */
+export function messageToCsvRow(message: any): string {
+  const processed = typeof message.processingTimeMs === 'number'
+  return toCsvRow([
+    message.fromTenantId,
+    message.toTenantId,
+    message.threadId,
+    message.timestamp,
+    message.processedTimestamp,
+    processed ? message.processingTimeMs : null,
+    processed ? 'processed' : 'pending',
+    null,
+  ])
+}
+
+/**
+ * CSV line of a message that could not be sent, stamped with the time of the failed send.
+ */
+export function failureToCsvRow(failure: any): string {
+  return toCsvRow([
+    failure.fromTenantId,
+    failure.toTenantId,
+    null,
+    failure.timestamp,
+    null,
+    null,
+    'failed',
+    failure.errorType,
+  ])
+}
+
+export function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Builds a JUnit XML document of a test run: one `SLO assertions` suite with a testcase per assertion (plus
+ * one checking that the run completed), and one `Phases` suite with a testcase per scenario phase. Phase
+ * testcases report the phase metrics in their output and never fail.
+ */
+export function buildJUnitReport({
+  testId,
+  testName,
+  status,
+  verdict,
+  phaseResults,
+}: {
+  testId: string
+  testName?: string
+  status: string
+  verdict?: Verdict | null
+  phaseResults?: ScenarioPhaseResult[] | null
+}): string {
+  const suiteName = testName || testId
+  const suites: string[] = []
+
+  if (verdict) {
+    const completedCase = testcase(
+      `${suiteName}.slo`,
+      'run completed',
+      0,
+      status === 'completed' ? '' : failure(`Run ended with status ${status}`, 'RunStatus'),
+    )
+    const assertionCases = verdict.results.map((result) =>
+      testcase(
+        `${suiteName}.slo`,
+        result.assertion,
+        0,
+        result.passed ? '' : failure(describeFailedAssertion(result), 'SloAssertion'),
+      ),
+    )
+    suites.push(testsuite('SLO assertions', [completedCase, ...assertionCases]))
+  }
+
+  if (phaseResults?.length) {
+    const phaseCases = phaseResults.map((phase) =>
+      testcase(
+        `${suiteName}.phases`,
+        `${phase.index + 1}. ${phase.name} (${phase.type})`,
+        phase.durationMs / 1000,
+        `<system-out>${escapeXml(
+          `sent=${phase.sent} delivered=${phase.delivered} failed=${phase.failed} ` +
+            `deliveryRatio=${phase.deliveryRatio} throughputPerSecond=${phase.throughputPerSecond} ` +
+            `p95LatencyMs=${phase.latency.p95Ms}`,
+        )}</system-out>`,
+      ),
+    )
+    suites.push(testsuite('Phases', phaseCases))
+  }
+
+  const tests = suites.reduce((total, suite) => total + countMatches(suite, '<testcase '), 0)
+  const failures = suites.reduce((total, suite) => total + countMatches(suite, '<failure '), 0)
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="${escapeXml(suiteName)}" tests="${tests}" failures="${failures}">\n` +
+    suites.join('') +
+    '</testsuites>\n'
+  )
+}
+
+function describeFailedAssertion({ assertion, threshold, actual }: AssertionResult): string {
+  if (actual === null) {
+    return `${assertion}: no value measured (threshold ${threshold})`
+  }
+  return `${assertion}: actual ${actual} ${assertion.startsWith('max') ? '>' : '<'} threshold ${threshold}`
+}
+
+function testsuite(name: string, testcases: string[]): string {
+  const failures = testcases.filter((testcase) => testcase.includes('<failure ')).length
+  return (
+    `  <testsuite name="${escapeXml(name)}" tests="${testcases.length}" failures="${failures}">\n` +
+    testcases.join('') +
+    '  </testsuite>\n'
+  )
+}
+
+function testcase(classname: string, name: string, timeSeconds: number, body: string): string {
+  const attributes = `classname="${escapeXml(classname)}" name="${escapeXml(name)}" time="${timeSeconds}"`
+  return body ? `    <testcase ${attributes}>${body}</testcase>\n` : `    <testcase ${attributes}/>\n`
+}
+
+function failure(message: string, type: string): string {
+  return `<failure message="${escapeXml(message)}" type="${type}"/>`
+}
+
+function countMatches(text: string, token: string): number {
+  return text.split(token).length - 1
+}
@@ -0,0 +1,106 @@
+import {
+  buildAgentRows,
+  escapeHtml,
+  renderHistogramChart,
+  renderHtmlReport,
+  renderTimelineChart,
+} from './html-report.util'
+
+describe('html-report.util', () => {
+  const report = {
+    testId: 'test-uuid',
+    testName: 'Release <gate>',
+    status: 'completed',
+    parameters: { numAgent: 2, mediator: 'did:web:mediator.example.com' },
+    verdict: {
+      status: 'fail',
+      results: [{ assertion: 'maxP95LatencyMs', threshold: 100, actual: 180, passed: false }],
+    },
+    totals: {
+      latency: {
+        meanMs: 120,
+        p95Ms: 180,
+        histogram: [
+          { lowerBoundMs: 0, upperBoundMs: 100, count: 1 },
+          { lowerBoundMs: 100, upperBoundMs: null, count: 1 },
+        ],
+      },
+      failures: { total: 1, byType: { timeout: 1 } },
+    },
+    delivery: { attempted: 3, sent: 2, delivered: 2, deliveryRatio: 1, undeliveredByPair: [] },
+    timeline: {
+      bucketMs: 1000,
+      buckets: [
+        { offsetMs: 0, sent: 1, processed: 1, failed: 0, meanLatencyMs: 60, p95LatencyMs: 60 },
+        { offsetMs: 1000, sent: 1, processed: 1, failed: 1, meanLatencyMs: 180, p95LatencyMs: 180 },
+      ],
+    },
+    metricsByAgent: {
+      'Agent-1': [{ toTenantId: 'Agent-2', processingTimeMs: 60 }],
+      'Agent-2': [{ toTenantId: 'Agent-1', processingTimeMs: 180 }],
+    },
+    failuresByAgent: { 'Agent-1': { total: 1, byType: { timeout: 1 } } },
+  }
+
+  it('should escape HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;',
+    )
+  })
+
+  it('should summarize sent, processed, latency and failures per agent', () => {
+    const rows = buildAgentRows(
+      { 'Agent-1': [{ processingTimeMs: 100 }, { processingTimeMs: null }] },
+      { 'Agent-1': { total: 2 }, 'Agent-3': { total: 1 } },
+    )
+
+    expect(rows).toEqual([
+      { agentId: 'Agent-1', sent: 2, processed: 1, meanLatencyMs: 100, p95LatencyMs: 100, failed: 2 },
+      { agentId: 'Agent-3', sent: 0, processed: 0, meanLatencyMs: null, p95LatencyMs: null, failed: 1 },
+    ])
+  })
+
+  it('should draw one bar per histogram bucket', () => {
+    const chart = renderHistogramChart(report.totals.latency.histogram)
+
+    expect(chart.match(/<rect /g)).toHaveLength(2)
+    expect(chart).toContain('&gt;100')
+  })
+
+  it('should scale timeline charts with more buckets than fit in a call stack', () => {
+    const buckets = Array.from({ length: 200_000 }, (_, index) => ({
+      bucketStart: new Date(index * 1000).toISOString(),
+      offsetMs: index * 1000,
+      sent: index === 0 ? 4 : 1,
+      processed: 1,
+      failed: 0,
+      meanLatencyMs: null,
+      p95LatencyMs: null,
+    }))
+
+    const chart = renderTimelineChart(buckets, [{ label: 'sent', value: (bucket) => bucket.sent }], 'messages')
+
+    // The busiest bucket reaches the top of the plot
+    expect(chart).toContain('points="56,16 ')
+  })
+
+  it('should render a self-contained page without external resources', () => {
+    const html = renderHtmlReport(report)
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<h1>Release &lt;gate&gt;</h1>')
+    expect(html).toContain('did:web:mediator.example.com')
+    expect(html).toContain('<td>maxP95LatencyMs</td><td>100</td><td>180</td><td class="fail">fail</td>')
+    expect(html).toContain('<td>Agent-1</td><td>1</td><td>1</td><td>60</td><td>60</td><td>1</td>')
+    expect(html).toContain('<td>timeout</td><td>1</td>')
+    expect(html.match(/<svg /g)).toHaveLength(3)
+    expect(html).not.toMatch(/<script|<link|src=|https?:\/\/(?!www\.w3\.org\/2000\/svg)/)
+  })
+
+  it('should note empty sections', () => {
+    const html = renderHtmlReport({ testId: 'test-uuid' })
+
+    expect(html).toContain('No processed messages.')
+    expect(html).toContain('No messages recorded.')
+  })
+})
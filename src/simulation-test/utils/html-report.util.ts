@@ -0,0 +1,310 @@
+import { LatencyHistogramBucket, calculateLatencyStats } from './latency-stats.util'
+import { TimelineBucket } from './timeline.util'
+import { AssertionResult } from './slo.util'
+
+const CHART_WIDTH = 720
+const CHART_HEIGHT = 240
+const CHART_PADDING = { top: 16, right: 16, bottom: 40, left: 56 }
+const SERIES_COLORS = ['#2f6fdf', '#23a26d', '#d9483b', '#e2a400']
+
+export interface AgentReportRow {
+  agentId: string
+  sent: number
+  processed: number
+  meanLatencyMs: number | null
+  p95LatencyMs: number | null
+  failed: number
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Summarizes each sending agent of a report: messages sent and processed, latency and send failures.
+ * @param metricsByAgent - Result of `calculateMetricsByAgent`.
+ * @param failuresByAgent - Result of `calculateFailuresByAgent`.
+ */
+export function buildAgentRows(
+  metricsByAgent: Record<string, { processingTimeMs: number | null }[]> = {},
+  failuresByAgent: Record<string, { total: number }> = {},
+): AgentReportRow[] {
+  const agentIds = Array.from(new Set([...Object.keys(metricsByAgent), ...Object.keys(failuresByAgent)])).sort()
+
+  return agentIds.map((agentId) => {
+    const messages = metricsByAgent[agentId] ?? []
+    const latencies = messages
+      .map((message) => message.processingTimeMs)
+      .filter((latency): latency is number => typeof latency === 'number')
+    const stats = latencies.length ? calculateLatencyStats(latencies) : null
+
+    return {
+      agentId,
+      sent: messages.length,
+      processed: latencies.length,
+      meanLatencyMs: stats?.meanMs ?? null,
+      p95LatencyMs: stats?.p95Ms ?? null,
+      failed: failuresByAgent[agentId]?.total ?? 0,
+    }
+  })
+}
+
+/**
+ * Renders the latency histogram as an SVG bar chart.
+ */
+export function renderHistogramChart(histogram: LatencyHistogramBucket[] = []): string {
+  if (!histogram.some((bucket) => bucket.count > 0)) {
+    return '<p class="empty">No processed messages.</p>'
+  }
+
+  const { plotWidth, plotHeight } = plotArea()
+  const maxCount = histogram.reduce((max, bucket) => Math.max(max, bucket.count), 0)
+  const slotWidth = plotWidth / histogram.length
+  const bars = histogram.map((bucket, index) => {
+    const height = (bucket.count / maxCount) * plotHeight
+    const x = CHART_PADDING.left + index * slotWidth
+    const y = CHART_PADDING.top + plotHeight - height
+    const label = bucket.upperBoundMs === null ? `>${bucket.lowerBoundMs}` : `≤${bucket.upperBoundMs}`
+    return (
+      `<rect x="${round(x + slotWidth * 0.1)}" y="${round(y)}" width="${round(slotWidth * 0.8)}" ` +
+      `height="${round(height)}" fill="${SERIES_COLORS[0]}"><title>${escapeHtml(label)} ms: ${bucket.count}</title></rect>` +
+      `<text x="${round(x + slotWidth / 2)}" y="${CHART_PADDING.top + plotHeight + 16}" text-anchor="middle">` +
+      `${escapeHtml(label)}</text>` +
+      `<text x="${round(x + slotWidth / 2)}" y="${round(y - 4)}" text-anchor="middle">${bucket.count}</text>`
+    )
+  })
+
+  return svg([...axes(maxCount, 'messages'), ...bars, axisLabel('latency (ms)')])
+}
+
+/**
+ * Renders one line per series over the timeline buckets as an SVG chart.
+ * @param series - Label and value of each series for a bucket.
+ */
+export function renderTimelineChart(
+  buckets: TimelineBucket[] = [],
+  series: { label: string; value: (bucket: TimelineBucket) => number }[],
+  unit: string,
+): string {
+  if (!buckets.length) {
+    return '<p class="empty">No messages recorded.</p>'
+  }
+
+  const { plotWidth, plotHeight } = plotArea()
+  // Reduced rather than spread into Math.max, which exceeds the call stack for long timelines
+  const maxValue = buckets.reduce(
+    (max, bucket) => series.reduce((seriesMax, { value }) => Math.max(seriesMax, value(bucket)), max),
+    1,
+  )
+  const maxOffsetMs = Math.max(1, buckets[buckets.length - 1].offsetMs)
+  const point = (bucket: TimelineBucket, value: number) =>
+    `${round(CHART_PADDING.left + (bucket.offsetMs / maxOffsetMs) * plotWidth)},` +
+    `${round(CHART_PADDING.top + plotHeight - (value / maxValue) * plotHeight)}`
+
+  const lines = series.map(
+    ({ value }, index) =>
+      `<polyline fill="none" stroke="${SERIES_COLORS[index % SERIES_COLORS.length]}" stroke-width="2" ` +
+      `points="${buckets.map((bucket) => point(bucket, value(bucket))).join(' ')}"/>`,
+  )
+  const legend = series.map(
+    ({ label }, index) =>
+      `<rect x="${CHART_PADDING.left + index * 120}" y="${CHART_HEIGHT - 12}" width="10" height="10" ` +
+      `fill="${SERIES_COLORS[index % SERIES_COLORS.length]}"/>` +
+      `<text x="${CHART_PADDING.left + index * 120 + 14}" y="${CHART_HEIGHT - 3}">${escapeHtml(label)}</text>`,
+  )
+  const endLabel =
+    `<text x="${CHART_PADDING.left + plotWidth}" y="${CHART_PADDING.top + plotHeight + 16}" text-anchor="end">` +
+    `${round(maxOffsetMs / 1000)} s</text>`
+
+  return svg([...axes(maxValue, unit), ...lines, endLabel, ...legend])
+}
+
+/**
+ * Renders a full test report (see `generateReport`) as a self-contained HTML page: styles and SVG charts
+ * are inlined, so it renders offline.
+ */
+export function renderHtmlReport(report: any): string {
+  const totals = report.totals ?? {}
+  const delivery = report.delivery ?? {}
+  const timeline = report.timeline ?? {}
+  const bucketSeconds = (timeline.bucketMs || 1000) / 1000
+  const title = `${report.testName ?? report.testId} — simulation test report`
+
+  const sections = [
+    `<h1>${escapeHtml(report.testName ?? report.testId)}</h1>`,
+    report.testDescription ? `<p>${escapeHtml(report.testDescription)}</p>` : '',
+    renderKeyValueTable({
+      'Test ID': report.testId,
+      Status: report.status,
+      Verdict: report.verdict?.status,
+      'Verdict reason': report.verdict?.reason,
+      Start: report.startDate,
+      End: report.endDate,
+    }),
+    '<h2>Summary</h2>',
+    renderKeyValueTable({
+      Attempted: delivery.attempted,
+      Sent: delivery.sent,
+      Delivered: delivery.delivered,
+      Undelivered: delivery.undelivered,
+      'Failed to send': delivery.failedToSend,
+      'Delivery ratio': delivery.deliveryRatio,
+      'Mean latency (ms)': totals.latency?.meanMs,
+      'p50 latency (ms)': totals.latency?.p50Ms,
+      'p95 latency (ms)': totals.latency?.p95Ms,
+      'p99 latency (ms)': totals.latency?.p99Ms,
+      'Max latency (ms)': totals.latency?.maxMs,
+    }),
+    report.verdict?.results?.length ? renderAssertions(report.verdict.results) : '',
+    '<h2>Parameters</h2>',
+    renderKeyValueTable(report.parameters ?? {}),
+    '<h2>Latency distribution</h2>',
+    renderHistogramChart(totals.latency?.histogram),
+    '<h2>Throughput over time</h2>',
+    renderTimelineChart(
+      timeline.buckets,
+      [
+        { label: 'sent/s', value: (bucket) => bucket.sent / bucketSeconds },
+        { label: 'processed/s', value: (bucket) => bucket.processed / bucketSeconds },
+        { label: 'failed/s', value: (bucket) => bucket.failed / bucketSeconds },
+      ],
+      'msg/s',
+    ),
+    '<h2>Latency over time</h2>',
+    renderTimelineChart(
+      timeline.buckets,
+      [
+        { label: 'mean', value: (bucket) => bucket.meanLatencyMs },
+        { label: 'p95', value: (bucket) => bucket.p95LatencyMs },
+      ],
+      'ms',
+    ),
+    '<h2>Agents</h2>',
+    renderTable(
+      ['Agent', 'Sent', 'Processed', 'Mean latency (ms)', 'p95 latency (ms)', 'Send failures'],
+      buildAgentRows(report.metricsByAgent, report.failuresByAgent).map((row) => [
+        row.agentId,
+        row.sent,
+        row.processed,
+        row.meanLatencyMs,
+        row.p95LatencyMs,
+        row.failed,
+      ]),
+    ),
+    '<h2>Errors</h2>',
+    renderTable(
+      ['Error type', 'Failures'],
+      Object.entries(totals.failures?.byType ?? {}).map(([errorType, count]) => [errorType, count]),
+    ),
+    renderTable(
+      ['Agent', 'Error type', 'Failures'],
+      Object.entries(report.failuresByAgent ?? {}).flatMap(([agentId, failures]: [string, any]) =>
+        Object.entries(failures.byType).map(([errorType, count]) => [agentId, errorType, count]),
+      ),
+    ),
+    delivery.undeliveredByPair?.length
+      ? renderTable(
+          ['From', 'To', 'Undelivered'],
+          delivery.undeliveredByPair.map((pair) => [pair.fromTenantId, pair.toTenantId, pair.count]),
+        )
+      : '',
+    `<footer>Generated ${escapeHtml(new Date().toISOString())}</footer>`,
+  ]
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; }
+h2 { margin-top: 2rem; border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #ddd; padding: 0.3rem 0.6rem; text-align: left; font-size: 0.9rem; }
+th { background: #f5f5f5; }
+svg text { font-size: 11px; fill: #555; }
+.pass { color: #23a26d; } .fail { color: #d9483b; }
+.empty, footer { color: #888; }
+</style>
+</head>
+<body>
+${sections.filter(Boolean).join('\n')}
+</body>
+</html>
+`
+}
+
+function renderKeyValueTable(values: Record<string, unknown>): string {
+  return renderTable(
+    ['', ''],
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, typeof value === 'object' ? JSON.stringify(value) : value]),
+  )
+}
+
+function renderAssertions(results: AssertionResult[]): string {
+  const rows = results.map(
+    (assertion) =>
+      `<tr><td>${escapeHtml(assertion.assertion)}</td><td>${escapeHtml(assertion.threshold)}</td>` +
+      `<td>${escapeHtml(assertion.actual)}</td>` +
+      `<td class="${assertion.passed ? 'pass' : 'fail'}">${assertion.passed ? 'pass' : 'fail'}</td></tr>`,
+  )
+  return `<table><tr><th>Assertion</th><th>Threshold</th><th>Actual</th><th>Result</th></tr>${rows.join('')}</table>`
+}
+
+function renderTable(headers: string[], rows: unknown[][]): string {
+  if (!rows.length) {
+    return '<p class="empty">None.</p>'
+  }
+
+  const head = headers.some(Boolean)
+    ? `<tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr>`
+    : ''
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell ?? '–')}</td>`).join('')}</tr>`)
+  return `<table>${head}${body.join('')}</table>`
+}
+
+function plotArea(): { plotWidth: number; plotHeight: number } {
+  return {
+    plotWidth: CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right,
+    plotHeight: CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom,
+  }
+}
+
+function axes(maxValue: number, unit: string): string[] {
+  const { plotWidth, plotHeight } = plotArea()
+  const bottom = CHART_PADDING.top + plotHeight
+
+  return [
+    `<line x1="${CHART_PADDING.left}" y1="${CHART_PADDING.top}" x2="${CHART_PADDING.left}" y2="${bottom}" stroke="#999"/>`,
+    `<line x1="${CHART_PADDING.left}" y1="${bottom}" x2="${CHART_PADDING.left + plotWidth}" y2="${bottom}" stroke="#999"/>`,
+    `<text x="${CHART_PADDING.left - 6}" y="${CHART_PADDING.top + 4}" text-anchor="end">${round(maxValue)}</text>`,
+    `<text x="${CHART_PADDING.left - 6}" y="${bottom}" text-anchor="end">0</text>`,
+    `<text x="12" y="${CHART_PADDING.top + plotHeight / 2}" transform="rotate(-90 12 ${CHART_PADDING.top + plotHeight / 2})" ` +
+      `text-anchor="middle">${escapeHtml(unit)}</text>`,
+  ]
+}
+
+function axisLabel(label: string): string {
+  return `<text x="${CHART_PADDING.left + plotArea().plotWidth / 2}" y="${CHART_HEIGHT - 4}" text-anchor="middle">${escapeHtml(label)}</text>`
+}
+
+function svg(elements: string[]): string {
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${CHART_HEIGHT}" ` +
+    `viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">${elements.join('')}</svg>`
+  )
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
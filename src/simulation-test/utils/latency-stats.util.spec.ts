@@ -0,0 +1,69 @@
+import { buildLatencyHistogram, calculateLatencyStats, calculateLatencySummary, percentile } from './latency-stats.util'
+
+describe('latency-stats.util', () => {
+  describe('percentile', () => {
+    it('should use the nearest-rank method', () => {
+      const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+
+      expect(percentile(values, 50)).toBe(50)
+      expect(percentile(values, 90)).toBe(90)
+      expect(percentile(values, 99)).toBe(100)
+    })
+
+    it('should return 0 for an empty list', () => {
+      expect(percentile([], 95)).toBe(0)
+    })
+  })
+
+  describe('buildLatencyHistogram', () => {
+    it('should count values per bucket including the overflow bucket', () => {
+      const histogram = buildLatencyHistogram([10, 50, 51, 400, 2000], [50, 500])
+
+      expect(histogram).toEqual([
+        { lowerBoundMs: 0, upperBoundMs: 50, count: 2 },
+        { lowerBoundMs: 50, upperBoundMs: 500, count: 2 },
+        { lowerBoundMs: 500, upperBoundMs: null, count: 1 },
+      ])
+    })
+  })
+
+  describe('calculateLatencyStats', () => {
+    it('should calculate distribution statistics', () => {
+      const stats = calculateLatencyStats([100, 200, 300, 400], [250])
+
+      expect(stats.count).toBe(4)
+      expect(stats.minMs).toBe(100)
+      expect(stats.maxMs).toBe(400)
+      expect(stats.meanMs).toBe(250)
+      expect(stats.stdDevMs).toBe(112)
+      expect(stats.p50Ms).toBe(200)
+      expect(stats.p95Ms).toBe(400)
+      expect(stats.histogram.map((bucket) => bucket.count)).toEqual([2, 2])
+    })
+
+    it('should return zeroed statistics when there are no values', () => {
+      const stats = calculateLatencyStats([])
+
+      expect(stats.count).toBe(0)
+      expect(stats.p99Ms).toBe(0)
+    })
+  })
+
+  describe('calculateLatencySummary', () => {
+    it('should calculate the statistics without a histogram', () => {
+      const summary = calculateLatencySummary([300, 100, NaN])
+
+      expect(summary).toEqual({
+        count: 2,
+        minMs: 100,
+        maxMs: 300,
+        meanMs: 200,
+        stdDevMs: 100,
+        p50Ms: 100,
+        p90Ms: 300,
+        p95Ms: 300,
+        p99Ms: 300,
+      })
+    })
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Default upper bounds (ms) of the latency histogram buckets.
+ * A final open-ended bucket is always appended for values above the last bound.
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+export interface LatencyHistogramBucket {
+  lowerBoundMs: number
+  upperBoundMs: number | null
+  count: number
+}
+
+export interface LatencySummary {
+  count: number
+  minMs: number
+  maxMs: number
+  meanMs: number
+  stdDevMs: number
+  p50Ms: number
+  p90Ms: number
+  p95Ms: number
+  p99Ms: number
+}
+
+export interface LatencyStats extends LatencySummary {
+  histogram: LatencyHistogramBucket[]
+}
+
+/**
+ * Returns the nearest-rank percentile of an ascending sorted list.
+ * @param sortedValues - Values sorted in ascending order.
+ * @param p - Percentile between 0 and 100.
+ */
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) {
+    return 0
+  }
+
+  const rank = Math.ceil((p / 100) * sortedValues.length)
+  const index = Math.min(Math.max(rank - 1, 0), sortedValues.length - 1)
+  return sortedValues[index]
+}
+
+/**
+ * Builds a histogram with one bucket per configured bound plus an open-ended overflow bucket.
+ * @param values - Latency values in milliseconds.
+ * @param bucketsMs - Ascending upper bounds of the buckets.
+ */
+export function buildLatencyHistogram(
+  values: number[],
+  bucketsMs: number[] = DEFAULT_LATENCY_BUCKETS_MS,
+): LatencyHistogramBucket[] {
+  const bounds = [...bucketsMs].sort((a, b) => a - b)
+  const histogram: LatencyHistogramBucket[] = bounds.map((upperBoundMs, index) => ({
+    lowerBoundMs: index === 0 ? 0 : bounds[index - 1],
+    upperBoundMs,
+    count: 0,
+  }))
+  histogram.push({ lowerBoundMs: bounds.length ? bounds[bounds.length - 1] : 0, upperBoundMs: null, count: 0 })
+
+  values.forEach((value) => {
+    const bucket = histogram.find((entry) => entry.upperBoundMs === null || value <= entry.upperBoundMs)
+    bucket.count++
+  })
+
+  return histogram
+}
+
+/**
+ * Calculates distribution statistics (percentiles and deviation) for latency values, without a histogram.
+ * @param values - Latency values in milliseconds.
+ */
+export function calculateLatencySummary(values: number[]): LatencySummary {
+  const sorted = values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b)
+  const count = sorted.length
+  const mean = count > 0 ? sorted.reduce((sum, value) => sum + value, 0) / count : 0
+  const variance = count > 0 ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count : 0
+
+  return {
+    count,
+    minMs: count > 0 ? sorted[0] : 0,
+    maxMs: count > 0 ? sorted[count - 1] : 0,
+    meanMs: Math.round(mean),
+    stdDevMs: Math.round(Math.sqrt(variance)),
+    p50Ms: percentile(sorted, 50),
+    p90Ms: percentile(sorted, 90),
+    p95Ms: percentile(sorted, 95),
+    p99Ms: percentile(sorted, 99),
+  }
+}
+
+/**
+ * Calculates distribution statistics (percentiles, deviation and histogram) for latency values.
+ * @param values - Latency values in milliseconds.
+ * @param bucketsMs - Ascending upper bounds of the histogram buckets.
+ */
+export function calculateLatencyStats(
+  values: number[],
+  bucketsMs: number[] = DEFAULT_LATENCY_BUCKETS_MS,
+): LatencyStats {
+  return {
+    ...calculateLatencySummary(values),
+    histogram: buildLatencyHistogram(
+      values.filter((value) => Number.isFinite(value)),
+      bucketsMs,
+    ),
+  }
+}
@@ -0,0 +1,37 @@
+import { getLoadProfileDuration, getLoadStageWindows, LoadStage, resolveLoadStage } from './load-profile.util'
+
+describe('load-profile.util', () => {
+  const stages: LoadStage[] = [
+    { type: 'ramp', durationMs: 10000, targetRate: 100 },
+    { type: 'soak', durationMs: 20000, targetRate: 100, name: 'steady' },
+    { type: 'spike', durationMs: 5000, targetRate: 500 },
+  ]
+
+  it('should calculate the total duration of a profile', () => {
+    expect(getLoadProfileDuration(stages)).toBe(35000)
+  })
+
+  it('should calculate stage windows with default names', () => {
+    const windows = getLoadStageWindows(stages)
+
+    expect(windows.map(({ name, startOffsetMs, endOffsetMs }) => [name, startOffsetMs, endOffsetMs])).toEqual([
+      ['ramp-1', 0, 10000],
+      ['steady', 10000, 30000],
+      ['spike-3', 30000, 35000],
+    ])
+  })
+
+  it('should interpolate the rate of ramp stages', () => {
+    expect(resolveLoadStage(stages, 0).rate).toBe(0)
+    expect(resolveLoadStage(stages, 5000).rate).toBe(50)
+  })
+
+  it('should hold the target rate of non-ramp stages', () => {
+    expect(resolveLoadStage(stages, 15000)).toEqual({ index: 1, name: 'steady', type: 'soak', rate: 100 })
+    expect(resolveLoadStage(stages, 30000).rate).toBe(500)
+  })
+
+  it('should return null once the profile is over', () => {
+    expect(resolveLoadStage(stages, 35000)).toBeNull()
+  })
+})
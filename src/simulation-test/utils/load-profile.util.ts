@@ -0,0 +1,81 @@
+export const LOAD_STAGE_TYPES = ['ramp', 'step', 'spike', 'soak'] as const
+
+export type LoadStageType = (typeof LOAD_STAGE_TYPES)[number]
+
+export interface LoadStage {
+  type: LoadStageType
+  durationMs: number
+  targetRate: number
+  name?: string
+}
+
+export interface ResolvedLoadStage {
+  index: number
+  name: string
+  type: LoadStageType
+  rate: number
+}
+
+export interface LoadStageWindow {
+  index: number
+  name: string
+  type: LoadStageType
+  targetRate: number
+  startOffsetMs: number
+  endOffsetMs: number
+}
+
+/**
+ * Returns the total duration (ms) of a load profile.
+ */
+export function getLoadProfileDuration(stages: LoadStage[]): number {
+  return stages.reduce((total, stage) => total + stage.durationMs, 0)
+}
+
+/**
+ * Returns the time window of each stage, as offsets from the start of the profile.
+ */
+export function getLoadStageWindows(stages: LoadStage[]): LoadStageWindow[] {
+  let startOffsetMs = 0
+
+  return stages.map((stage, index) => {
+    const window = {
+      index,
+      name: stage.name || `${stage.type}-${index + 1}`,
+      type: stage.type,
+      targetRate: stage.targetRate,
+      startOffsetMs,
+      endOffsetMs: startOffsetMs + stage.durationMs,
+    }
+    startOffsetMs = window.endOffsetMs
+    return window
+  })
+}
+
+/**
+ * Resolves the stage active at a given offset and the rate (messages per second) it targets.
+ * Ramp stages interpolate linearly from the previous stage rate (0 for the first stage).
+ * @param stages - Ordered load profile stages.
+ * @param elapsedMs - Offset from the start of the profile.
+ * @returns The active stage, or null once the profile is over.
+ */
+export function resolveLoadStage(stages: LoadStage[], elapsedMs: number): ResolvedLoadStage | null {
+  const windows = getLoadStageWindows(stages)
+  const offsetMs = Math.max(elapsedMs, 0)
+  const window = windows.find((entry) => offsetMs < entry.endOffsetMs)
+
+  if (!window) {
+    return null
+  }
+
+  const stage = stages[window.index]
+  let rate = stage.targetRate
+
+  if (stage.type === 'ramp') {
+    const previousRate = window.index > 0 ? stages[window.index - 1].targetRate : 0
+    const progress = (offsetMs - window.startOffsetMs) / stage.durationMs
+    rate = previousRate + (stage.targetRate - previousRate) * progress
+  }
+
+  return { index: window.index, name: window.name, type: stage.type, rate }
+}
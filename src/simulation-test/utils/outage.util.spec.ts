@@ -0,0 +1,75 @@
+import { analyzeOutageDelivery, selectOfflineRecipients } from './outage.util'
+
+describe('outage.util', () => {
+  describe('selectOfflineRecipients', () => {
+    const agentIds = ['A-1', 'A-2', 'A-3', 'A-4']
+
+    it('should take a share of the recipients offline', () => {
+      const targets = { 'A-1': ['A-2'], 'A-2': [], 'A-3': ['A-4'], 'A-4': [] }
+
+      const offline = selectOfflineRecipients(agentIds, targets, 0.5, () => 0)
+
+      expect(offline).toHaveLength(1)
+      expect(['A-2', 'A-4']).toContain(offline[0])
+    })
+
+    it('should always leave at least one agent online', () => {
+      const targets = { 'A-1': ['A-2'], 'A-2': ['A-3'], 'A-3': ['A-4'], 'A-4': ['A-1'] }
+
+      expect(selectOfflineRecipients(agentIds, targets, 1)).toHaveLength(3)
+      expect(selectOfflineRecipients(agentIds, targets, 0.01)).toHaveLength(1)
+    })
+
+    it('should take a fixed number of recipients offline', () => {
+      const targets = { 'A-1': ['A-2', 'A-3', 'A-4'], 'A-2': [], 'A-3': [], 'A-4': [] }
+
+      expect(selectOfflineRecipients(agentIds, targets, { count: 2 })).toHaveLength(2)
+      expect(selectOfflineRecipients(agentIds, targets, { count: 10 })).toHaveLength(3)
+    })
+  })
+
+  describe('analyzeOutageDelivery', () => {
+    const outages = [{ tenantId: 'B', offlineAt: '2024-01-01T00:00:00.000Z', onlineAt: '2024-01-01T00:00:10.000Z' }]
+
+    it('should measure completeness and drain time of queued messages', () => {
+      const messages = [
+        {
+          toTenantId: 'B',
+          timestamp: '2024-01-01T00:00:01.000Z',
+          processedTimestamp: '2024-01-01T00:00:11.000Z',
+          processingTimeMs: 10000,
+        },
+        {
+          toTenantId: 'B',
+          timestamp: '2024-01-01T00:00:05.000Z',
+          processedTimestamp: '2024-01-01T00:00:13.000Z',
+          processingTimeMs: 8000,
+        },
+        { toTenantId: 'B', timestamp: '2024-01-01T00:00:06.000Z' },
+        { toTenantId: 'B', timestamp: '2024-01-01T00:00:12.000Z', processedTimestamp: '2024-01-01T00:00:12.100Z' },
+        { toTenantId: 'C', timestamp: '2024-01-01T00:00:02.000Z' },
+      ]
+
+      const result = analyzeOutageDelivery(messages, outages)
+
+      expect(result.queued).toBe(3)
+      expect(result.delivered).toBe(2)
+      expect(result.undelivered).toBe(1)
+      expect(result.completeness).toBe(0.6667)
+      expect(result.firstDeliveryMs).toBe(1000)
+      expect(result.drainTimeMs).toBe(3000)
+      expect(result.latency.maxMs).toBe(10000)
+    })
+
+    it('should not report a drain time while the tenant is still offline', () => {
+      const result = analyzeOutageDelivery(
+        [{ toTenantId: 'B', timestamp: '2024-01-01T00:00:01.000Z' }],
+        [{ tenantId: 'B', offlineAt: '2024-01-01T00:00:00.000Z' }],
+      )
+
+      expect(result.queued).toBe(1)
+      expect(result.completeness).toBe(0)
+      expect(result.drainTimeMs).toBeNull()
+    })
+  })
+})
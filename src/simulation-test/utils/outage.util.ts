@@ -0,0 +1,105 @@
+import { calculateLatencySummary, LatencySummary } from './latency-stats.util'
+
+/**
+ * Period during which a tenant was offline (its agent shut down while the mediator queued its messages).
+ */
+export interface TenantOutage {
+  tenantId: string
+  offlineAt: string
+  /** Time the tenant came back online; undefined while it is still offline. */
+  onlineAt?: string
+}
+
+export interface OutageDeliveryStats {
+  queued: number
+  delivered: number
+  undelivered: number
+  completeness: number
+  /** Time from reconnection until the last queued message was processed. */
+  drainTimeMs: number | null
+  /** Time from reconnection until the first queued message was processed. */
+  firstDeliveryMs: number | null
+  latency: LatencySummary
+}
+
+/**
+ * Picks the recipients to take offline: a share (or a fixed number) of the agents that receive messages,
+ * rounded to at least one and leaving at least one agent online.
+ * @param agentIds - List of agent IDs.
+ * @param targets - Allowed message targets of each agent.
+ * @param share - Fraction (0-1] of the recipients to take offline, or `{ count }` for a fixed number.
+ * @param random - Source of uniformly distributed numbers in [0, 1).
+ */
+export function selectOfflineRecipients(
+  agentIds: string[],
+  targets: Record<string, string[]>,
+  share: number | { count: number },
+  random: () => number = Math.random,
+): string[] {
+  const recipients = agentIds.filter((agentId) => Object.values(targets).some((list) => list.includes(agentId)))
+  const requested = typeof share === 'number' ? Math.round(share * recipients.length) : share.count
+  const count = Math.min(Math.max(requested, 1), recipients.length, agentIds.length - 1)
+
+  const shuffled = [...recipients]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled.slice(0, Math.max(count, 0))
+}
+
+/**
+ * Returns true if a timestamp falls within an outage (from `offlineAt` until `onlineAt`, or open-ended).
+ */
+export function isDuringOutage(timestamp: string, outage: TenantOutage): boolean {
+  const timeMs = Date.parse(timestamp)
+  return timeMs >= Date.parse(outage.offlineAt) && (!outage.onlineAt || timeMs < Date.parse(outage.onlineAt))
+}
+
+/**
+ * Measures how messages sent to offline tenants were delivered once they came back online.
+ * A message is considered queued when it was sent to a tenant between its `offlineAt` and `onlineAt` times.
+ * @param messages - Message records of the test.
+ * @param outages - Outage periods of the tenants.
+ */
+export function analyzeOutageDelivery(messages: any[], outages: TenantOutage[]): OutageDeliveryStats {
+  let queued = 0
+  let delivered = 0
+  let drainTimeMs: number | null = null
+  let firstDeliveryMs: number | null = null
+  const latencies: number[] = []
+
+  messages.forEach((message) => {
+    const outage = outages.find(
+      (entry) => entry.tenantId === message.toTenantId && isDuringOutage(message.timestamp, entry),
+    )
+    if (!outage) {
+      return
+    }
+
+    queued++
+    if (!message.processedTimestamp) {
+      return
+    }
+
+    delivered++
+    if (typeof message.processingTimeMs === 'number') {
+      latencies.push(message.processingTimeMs)
+    }
+    if (outage.onlineAt) {
+      const sinceOnlineMs = Math.max(Date.parse(message.processedTimestamp) - Date.parse(outage.onlineAt), 0)
+      drainTimeMs = drainTimeMs === null ? sinceOnlineMs : Math.max(drainTimeMs, sinceOnlineMs)
+      firstDeliveryMs = firstDeliveryMs === null ? sinceOnlineMs : Math.min(firstDeliveryMs, sinceOnlineMs)
+    }
+  })
+
+  return {
+    queued,
+    delivered,
+    undelivered: queued - delivered,
+    completeness: queued > 0 ? Number((delivered / queued).toFixed(4)) : 1,
+    drainTimeMs,
+    firstDeliveryMs,
+    latency: calculateLatencySummary(latencies),
+  }
+}
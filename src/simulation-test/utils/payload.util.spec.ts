@@ -0,0 +1,52 @@
+import { generatePayload, getPayloadSizeBucket, pickPayloadSize } from './payload.util'
+
+describe('payload.util', () => {
+  describe('pickPayloadSize', () => {
+    it('should return the fixed size', () => {
+      expect(pickPayloadSize({ sizeMode: 'fixed', sizeBytes: 2048 })).toBe(2048)
+    })
+
+    it('should pick a size within the range', () => {
+      expect(pickPayloadSize({ sizeMode: 'range', minBytes: 100, maxBytes: 200 }, () => 0)).toBe(100)
+      expect(pickPayloadSize({ sizeMode: 'range', minBytes: 100, maxBytes: 200 }, () => 0.9999)).toBe(200)
+    })
+
+    it('should pick sizes according to their weights', () => {
+      const config = {
+        sizeMode: 'weighted' as const,
+        weights: [
+          { sizeBytes: 512, weight: 3 },
+          { sizeBytes: 65536, weight: 1 },
+        ],
+      }
+
+      expect(pickPayloadSize(config, () => 0.5)).toBe(512)
+      expect(pickPayloadSize(config, () => 0.8)).toBe(65536)
+    })
+  })
+
+  describe('generatePayload', () => {
+    it.each(['text', 'json', 'base64'] as const)('should generate %s payloads of the requested size', (content) => {
+      const payload = generatePayload(4096, content, 'Message #1 from A to B')
+
+      expect(payload).toHaveLength(4096)
+      expect(payload).toContain('Message #1 from A to B')
+    })
+
+    it('should generate valid JSON documents', () => {
+      expect(JSON.parse(generatePayload(1024, 'json', 'hello')).message).toBe('hello')
+    })
+
+    it('should never truncate the header', () => {
+      expect(generatePayload(5, 'text', 'Message #1')).toBe('Message #1')
+    })
+  })
+
+  describe('getPayloadSizeBucket', () => {
+    it('should return the bucket a size belongs to', () => {
+      expect(getPayloadSizeBucket(100)).toEqual({ label: '<=256B', minBytes: 0, maxBytes: 256 })
+      expect(getPayloadSizeBucket(2000)).toEqual({ label: '<=4KB', minBytes: 1025, maxBytes: 4096 })
+      expect(getPayloadSizeBucket(5000000)).toEqual({ label: '>1MB', minBytes: 1048577, maxBytes: null })
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { randomBytes } from 'crypto'
+
+export const PAYLOAD_SIZE_MODES = ['fixed', 'range', 'weighted'] as const
+
+export type PayloadSizeMode = (typeof PAYLOAD_SIZE_MODES)[number]
+
+export const PAYLOAD_CONTENT_TYPES = ['text', 'json', 'base64'] as const
+
+export type PayloadContentType = (typeof PAYLOAD_CONTENT_TYPES)[number]
+
+export interface PayloadConfig {
+  sizeMode: PayloadSizeMode
+  sizeBytes?: number
+  minBytes?: number
+  maxBytes?: number
+  weights?: { sizeBytes: number; weight: number }[]
+  content?: PayloadContentType
+}
+
+/**
+ * Largest payload (bytes) a test may send.
+ */
+export const MAX_PAYLOAD_BYTES = 4194304
+
+/**
+ * Upper bounds (bytes) of the payload size buckets used to break down report metrics.
+ */
+export const PAYLOAD_SIZE_BUCKETS_BYTES = [256, 1024, 4096, 16384, 65536, 262144, 1048576]
+
+const TEXT_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789 '
+
+/**
+ * Picks the size (bytes) of the next payload according to the configured distribution.
+ * @param config - Payload configuration.
+ * @param random - Source of uniformly distributed numbers in [0, 1).
+ */
+export function pickPayloadSize(config: PayloadConfig, random: () => number = Math.random): number {
+  switch (config.sizeMode) {
+    case 'range': {
+      const min = Math.min(config.minBytes, config.maxBytes)
+      const max = Math.max(config.minBytes, config.maxBytes)
+      return Math.floor(min + random() * (max - min + 1))
+    }
+    case 'weighted': {
+      const totalWeight = config.weights.reduce((sum, entry) => sum + entry.weight, 0)
+      let threshold = random() * totalWeight
+      for (const entry of config.weights) {
+        threshold -= entry.weight
+        if (threshold < 0) {
+          return entry.sizeBytes
+        }
+      }
+      return config.weights[config.weights.length - 1].sizeBytes
+    }
+    default:
+      return config.sizeBytes
+  }
+}
+
+/**
+ * Generates a payload of the requested size that starts with (or embeds) a readable header.
+ * Payloads are ASCII, so their length in characters equals their size in bytes. The result is never
+ * shorter than the header itself.
+ * @param sizeBytes - Target size in bytes.
+ * @param content - Content type: random text, a JSON document or a base64 blob.
+ * @param header - Readable description of the message (e.g. sender and receiver).
+ */
+export function generatePayload(sizeBytes: number, content: PayloadContentType = 'text', header = ''): string {
+  switch (content) {
+    case 'json': {
+      const document = { message: header, generatedAt: new Date().toISOString(), padding: '' }
+      const paddingLength = Math.max(sizeBytes - JSON.stringify(document).length, 0)
+      document.padding = randomText(paddingLength).replace(/ /g, '-')
+      return JSON.stringify(document)
+    }
+    case 'base64': {
+      const prefix = header ? `${header}\n` : ''
+      const blobLength = Math.max(sizeBytes - prefix.length, 0)
+      const blob = randomBytes(Math.ceil((blobLength * 3) / 4) + 3)
+        .toString('base64')
+        .slice(0, blobLength)
+      return `${prefix}${blob}`
+    }
+    default: {
+      const prefix = header ? `${header} ` : ''
+      return `${prefix}${randomText(Math.max(sizeBytes - prefix.length, 0))}`.slice(
+        0,
+        Math.max(sizeBytes, header.length),
+      )
+    }
+  }
+}
+
+/**
+ * Returns the label and bounds of the size bucket a payload belongs to.
+ * @param sizeBytes - Payload size in bytes.
+ */
+export function getPayloadSizeBucket(sizeBytes: number): { label: string; minBytes: number; maxBytes: number | null } {
+  const index = PAYLOAD_SIZE_BUCKETS_BYTES.findIndex((bound) => sizeBytes <= bound)
+  const minBytes = index > 0 ? PAYLOAD_SIZE_BUCKETS_BYTES[index - 1] + 1 : index === 0 ? 0 : lastBound() + 1
+  const maxBytes = index >= 0 ? PAYLOAD_SIZE_BUCKETS_BYTES[index] : null
+
+  return {
+    label: maxBytes === null ? `>${formatBytes(lastBound())}` : `<=${formatBytes(maxBytes)}`,
+    minBytes,
+    maxBytes,
+  }
+}
+
+function lastBound(): number {
+  return PAYLOAD_SIZE_BUCKETS_BYTES[PAYLOAD_SIZE_BUCKETS_BYTES.length - 1]
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1048576) {
+    return `${bytes / 1048576}MB`
+  }
+  if (bytes >= 1024) {
+    return `${bytes / 1024}KB`
+  }
+  return `${bytes}B`
+}
+
+function randomText(length: number): string {
+  const bytes = randomBytes(length)
+  let text = ''
+  for (let i = 0; i < length; i++) {
+    text += TEXT_ALPHABET[bytes[i] % TEXT_ALPHABET.length]
+  }
+  return text
+}
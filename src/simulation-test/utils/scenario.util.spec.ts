@@ -0,0 +1,86 @@
+import { checkScenarioConsistency, getScenarioDuration, parseScenarioDocument, summarizePhase } from './scenario.util'
+
+describe('scenario.util', () => {
+  describe('parseScenarioDocument', () => {
+    it('should parse YAML and JSON text and pass objects through', () => {
+      expect(parseScenarioDocument('version: 1\nname: Soak')).toEqual({ version: 1, name: 'Soak' })
+      expect(parseScenarioDocument('{"version": 1}')).toEqual({ version: 1 })
+
+      const document = { version: 1 }
+      expect(parseScenarioDocument(document)).toBe(document)
+    })
+
+    it('should report syntax errors', () => {
+      expect(() => parseScenarioDocument('phases: [')).toThrow(/^Invalid scenario document: /)
+    })
+  })
+
+  it('should add up the duration of the phases', () => {
+    expect(
+      getScenarioDuration([
+        { name: 'load', type: 'send', durationMs: 30000, rate: 10 },
+        { name: 'drain', type: 'drain', durationMs: 5000 },
+      ]),
+    ).toBe(35000)
+  })
+
+  it('should accept a consistent scenario', () => {
+    expect(
+      checkScenarioConsistency({
+        agents: { count: 10 },
+        phases: [
+          { name: 'load', type: 'send', durationMs: 1000, rate: 5 },
+          { name: 'offline', type: 'offline', durationMs: 1000, agents: 9 },
+        ],
+      }),
+    ).toEqual([])
+  })
+
+  describe('summarizePhase', () => {
+    const window = {
+      index: 1,
+      name: 'offline',
+      type: 'offline' as const,
+      startDate: '2024-01-01T00:00:10.000Z',
+      endDate: '2024-01-01T00:00:20.000Z',
+      offline: [{ tenantId: 'B', offlineAt: '2024-01-01T00:00:10.000Z', onlineAt: '2024-01-01T00:00:20.000Z' }],
+    }
+
+    it('should count the messages sent and the events within the window', () => {
+      const messages = [
+        { toTenantId: 'A', timestamp: '2024-01-01T00:00:05.000Z', processedTimestamp: '2024-01-01T00:00:11.000Z' },
+        {
+          toTenantId: 'B',
+          timestamp: '2024-01-01T00:00:12.000Z',
+          processedTimestamp: '2024-01-01T00:00:21.000Z',
+          processingTimeMs: 9000,
+        },
+        { toTenantId: 'B', timestamp: '2024-01-01T00:00:15.000Z' },
+      ]
+
+      const result = summarizePhase(window, messages, [Date.parse('2024-01-01T00:00:19.000Z')])
+
+      expect(result).toMatchObject({
+        name: 'offline',
+        durationMs: 10000,
+        sent: 2,
+        delivered: 1,
+        processed: 1,
+        failed: 1,
+        deliveryRatio: 0.5,
+        throughputPerSecond: 0.1,
+      })
+      expect(result.latency.maxMs).toBe(9000)
+      expect(result.offlineDelivery).toMatchObject({ queued: 2, delivered: 1, drainTimeMs: 1000 })
+    })
+
+    it('should end an open window at the current time', () => {
+      const { endDate, ...openWindow } = window
+
+      const result = summarizePhase(openWindow, [], [], Date.parse(endDate) + 5000)
+
+      expect(result.durationMs).toBe(15000)
+      expect(result.sent).toBe(0)
+    })
+  })
+})
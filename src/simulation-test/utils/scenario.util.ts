@@ -0,0 +1,151 @@
+import { parse } from 'yaml'
+import { ArrivalDistribution } from './arrival-schedule.util'
+import { calculateLatencySummary, LatencySummary } from './latency-stats.util'
+import { analyzeOutageDelivery, OutageDeliveryStats, TenantOutage } from './outage.util'
+
+/**
+ * Versions of the scenario format this tool can run.
+ */
+export const SCENARIO_VERSIONS = [1] as const
+
+/**
+ * Phase types of a scenario: `send` sends messages at a rate, `offline` takes recipients offline for the
+ * phase (optionally sending to them meanwhile) and `drain` only waits for in-flight messages to arrive.
+ */
+export const SCENARIO_PHASE_TYPES = ['send', 'offline', 'drain'] as const
+
+export type ScenarioPhaseType = (typeof SCENARIO_PHASE_TYPES)[number]
+
+export interface ScenarioPhase {
+  name: string
+  type: ScenarioPhaseType
+  durationMs: number
+  /** Messages per second across all online senders. */
+  rate?: number
+  arrivalDistribution?: ArrivalDistribution
+  /** Number of recipients taken offline (`offline` phases). */
+  agents?: number
+  /** Share (0-1] of the recipients taken offline, when `agents` is not set (`offline` phases). */
+  share?: number
+}
+
+/**
+ * Time window in which a phase actually ran, as recorded on the test record.
+ */
+export interface ScenarioPhaseWindow {
+  index: number
+  name: string
+  type: ScenarioPhaseType
+  startDate: string
+  endDate?: string
+  /** Recipients that were offline during the phase. */
+  offline?: TenantOutage[]
+}
+
+export interface ScenarioPhaseResult extends ScenarioPhaseWindow {
+  durationMs: number
+  sent: number
+  delivered: number
+  processed: number
+  failed: number
+  deliveryRatio: number
+  throughputPerSecond: number
+  latency: LatencySummary
+  offlineDelivery?: OutageDeliveryStats
+}
+
+/**
+ * Parses a scenario document: YAML or JSON text (YAML being a superset of JSON), or an already parsed object.
+ * @throws Error with the line and column of the syntax error if the text cannot be parsed.
+ */
+export function parseScenarioDocument(document: unknown): unknown {
+  if (typeof document !== 'string') {
+    return document
+  }
+
+  try {
+    return parse(document)
+  } catch (error) {
+    throw new Error(`Invalid scenario document: ${error.message}`)
+  }
+}
+
+/**
+ * Returns the total duration (ms) of the phases of a scenario.
+ */
+export function getScenarioDuration(phases: ScenarioPhase[]): number {
+  return phases.reduce((total, phase) => total + phase.durationMs, 0)
+}
+
+/**
+ * Checks the rules of a scenario that span several fields: unique phase names, and offline phases leaving
+ * at least one agent online.
+ * @returns One message per violated rule, prefixed with the path of the offending field.
+ */
+export function checkScenarioConsistency(scenario: { agents: { count: number }; phases: ScenarioPhase[] }): string[] {
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  scenario.phases.forEach((phase, index) => {
+    if (seen.has(phase.name)) {
+      errors.push(`phases[${index}].name: phase name "${phase.name}" is used more than once`)
+    }
+    seen.add(phase.name)
+
+    if (phase.type === 'offline' && phase.agents !== undefined && phase.agents >= scenario.agents.count) {
+      errors.push(
+        `phases[${index}].agents: cannot take ${phase.agents} agents offline out of ${scenario.agents.count}, at least one must stay online`,
+      )
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Summarizes the messages of one phase: those sent within its window (delivery, latency) and the events
+ * (processed messages, failures) that happened within it, which includes messages drained from earlier phases.
+ * @param window - Recorded phase window; an open window ends at `nowMs`.
+ * @param messages - Message records of the test.
+ * @param failureTimestamps - Times of the send failures of the test.
+ */
+export function summarizePhase(
+  window: ScenarioPhaseWindow,
+  messages: any[],
+  failureTimestamps: number[],
+  nowMs: number = Date.now(),
+): ScenarioPhaseResult {
+  const startMs = Date.parse(window.startDate)
+  const endMs = window.endDate ? Date.parse(window.endDate) : nowMs
+  const inWindow = (timestampMs: number) => timestampMs >= startMs && timestampMs < endMs
+
+  const sentInPhase = messages.filter((message) => inWindow(Date.parse(message.timestamp)))
+  const delivered = sentInPhase.filter((message) => message.processedTimestamp)
+  const processed = messages.filter(
+    (message) => message.processedTimestamp && inWindow(Date.parse(message.processedTimestamp)),
+  ).length
+  const durationMs = Math.max(endMs - startMs, 0)
+  const latency = calculateLatencySummary(
+    delivered
+      .filter((message) => typeof message.processingTimeMs === 'number')
+      .map((message) => message.processingTimeMs),
+  )
+
+  const result: ScenarioPhaseResult = {
+    ...window,
+    durationMs,
+    sent: sentInPhase.length,
+    delivered: delivered.length,
+    processed,
+    failed: failureTimestamps.filter(inWindow).length,
+    deliveryRatio: sentInPhase.length > 0 ? Number((delivered.length / sentInPhase.length).toFixed(4)) : 0,
+    throughputPerSecond: durationMs > 0 ? Number((processed / (durationMs / 1000)).toFixed(2)) : 0,
+    latency,
+  }
+
+  if (window.offline?.length) {
+    result.offlineDelivery = analyzeOutageDelivery(messages, window.offline)
+  }
+
+  return result
+}
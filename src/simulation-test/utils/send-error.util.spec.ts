@@ -0,0 +1,18 @@
+import { classifySendError, SendErrorType } from './send-error.util'
+
+describe('send-error.util', () => {
+  it.each([
+    ['No active connection between Agent-1 and Agent-2', SendErrorType.NoActiveConnection],
+    ['Failed to send message: Request timed out after 10000ms', SendErrorType.Timeout],
+    ['Failed to send message: received problem-report from mediator', SendErrorType.MediatorRejection],
+    ['Failed to send message: WebSocket is closed', SendErrorType.Transport],
+    ['Failed to send message: Message is undeliverable to connection', SendErrorType.Transport],
+    ['Something unexpected', SendErrorType.Unknown],
+  ])('should classify "%s" as %s', (message, expected) => {
+    expect(classifySendError(new Error(message))).toBe(expected)
+  })
+
+  it('should classify errors without a message as unknown', () => {
+    expect(classifySendError(undefined)).toBe(SendErrorType.Unknown)
+  })
+})
@@ -0,0 +1,34 @@
+/**
+ * Classes of errors that can make a simulated message send fail.
+ */
+export enum SendErrorType {
+  NoActiveConnection = 'no_active_connection',
+  Timeout = 'timeout',
+  MediatorRejection = 'mediator_rejection',
+  Transport = 'transport_error',
+  Unknown = 'unknown',
+}
+
+const SEND_ERROR_PATTERNS: { type: SendErrorType; pattern: RegExp }[] = [
+  { type: SendErrorType.NoActiveConnection, pattern: /no active connection|connection .*not found|not connected/i },
+  { type: SendErrorType.Timeout, pattern: /timeout|timed out|etimedout/i },
+  {
+    type: SendErrorType.MediatorRejection,
+    pattern: /problem[- ]?report|rejected|forbidden|unauthori[sz]ed|denied|mediation (was )?(denied|rejected)/i,
+  },
+  {
+    type: SendErrorType.Transport,
+    pattern: /websocket|socket|econnrefused|econnreset|epipe|enotfound|transport|undeliverable|closed/i,
+  },
+]
+
+/**
+ * Classifies a send error based on its message.
+ * @param error - Error thrown while sending a message.
+ * @returns The error class, or `unknown` when no pattern matches.
+ */
+export function classifySendError(error: any): SendErrorType {
+  const message = typeof error === 'string' ? error : error?.message || ''
+  const match = SEND_ERROR_PATTERNS.find(({ pattern }) => pattern.test(message))
+  return match ? match.type : SendErrorType.Unknown
+}
@@ -0,0 +1,42 @@
+import { evaluateAssertions } from './slo.util'
+
+describe('slo.util', () => {
+  const observations = {
+    p95LatencyMs: 180,
+    p99LatencyMs: 400,
+    deliveryRatio: 0.97,
+    errorRate: 0.01,
+    throughputPerSecond: 45,
+  }
+
+  it('should pass when every assertion is met', () => {
+    const verdict = evaluateAssertions(
+      { maxP95LatencyMs: 200, minDeliveryRatio: 0.95, maxErrorRate: 0.02, minThroughputPerSecond: 40 },
+      observations,
+      'completed',
+    )
+
+    expect(verdict.status).toBe('pass')
+    expect(verdict.results).toHaveLength(4)
+    expect(verdict.reason).toBeUndefined()
+  })
+
+  it('should fail and name the assertions that were not met', () => {
+    const verdict = evaluateAssertions({ maxP99LatencyMs: 300, minDeliveryRatio: 0.95 }, observations, 'completed')
+
+    expect(verdict.status).toBe('fail')
+    expect(verdict.results).toEqual([
+      { assertion: 'maxP99LatencyMs', threshold: 300, actual: 400, passed: false },
+      { assertion: 'minDeliveryRatio', threshold: 0.95, actual: 0.97, passed: true },
+    ])
+    expect(verdict.reason).toBe('Failed assertions: maxP99LatencyMs')
+  })
+
+  it('should fail assertions without measurements and runs that did not complete', () => {
+    const verdict = evaluateAssertions({ maxP95LatencyMs: 200 }, { ...observations, p95LatencyMs: null }, 'stopped')
+
+    expect(verdict.status).toBe('fail')
+    expect(verdict.results[0].passed).toBe(false)
+    expect(verdict.reason).toBe('Run ended with status stopped')
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Service level objectives a test run must meet to pass.
+ */
+export interface SloAssertions {
+  maxP95LatencyMs?: number
+  maxP99LatencyMs?: number
+  minDeliveryRatio?: number
+  maxErrorRate?: number
+  minThroughputPerSecond?: number
+}
+
+/**
+ * Values measured on a run, compared against the assertions.
+ */
+export interface SloObservations {
+  p95LatencyMs: number | null
+  p99LatencyMs: number | null
+  deliveryRatio: number | null
+  errorRate: number | null
+  throughputPerSecond: number | null
+}
+
+export interface AssertionResult {
+  assertion: keyof SloAssertions
+  threshold: number
+  actual: number | null
+  passed: boolean
+}
+
+export interface Verdict {
+  status: 'pass' | 'fail'
+  results: AssertionResult[]
+  reason?: string
+}
+
+const ASSERTION_CHECKS: Record<keyof SloAssertions, { observation: keyof SloObservations; max: boolean }> = {
+  maxP95LatencyMs: { observation: 'p95LatencyMs', max: true },
+  maxP99LatencyMs: { observation: 'p99LatencyMs', max: true },
+  minDeliveryRatio: { observation: 'deliveryRatio', max: false },
+  maxErrorRate: { observation: 'errorRate', max: true },
+  minThroughputPerSecond: { observation: 'throughputPerSecond', max: false },
+}
+
+/**
+ * Evaluates SLO assertions into a verdict. An assertion without a measured value fails, and the verdict
+ * fails whenever the run did not complete, whatever the assertions say.
+ * @param assertions - Assertions attached to the test.
+ * @param observations - Values measured on the run.
+ * @param runStatus - Final status of the run (`completed`, `stopped`, `failed`).
+ */
+export function evaluateAssertions(
+  assertions: SloAssertions,
+  observations: SloObservations,
+  runStatus: string,
+): Verdict {
+  const results: AssertionResult[] = (Object.keys(ASSERTION_CHECKS) as (keyof SloAssertions)[])
+    .filter((assertion) => typeof assertions[assertion] === 'number')
+    .map((assertion) => {
+      const { observation, max } = ASSERTION_CHECKS[assertion]
+      const threshold = assertions[assertion]
+      const actual = observations[observation]
+      const passed = actual !== null && (max ? actual <= threshold : actual >= threshold)
+      return { assertion, threshold, actual, passed }
+    })
+
+  const completed = runStatus === 'completed'
+  const failed = results.filter((result) => !result.passed).map((result) => result.assertion)
+
+  return {
+    status: completed && failed.length === 0 ? 'pass' : 'fail',
+    results,
+    ...(!completed && { reason: `Run ended with status ${runStatus}` }),
+    ...(completed && failed.length > 0 && { reason: `Failed assertions: ${failed.join(', ')}` }),
+  }
+}
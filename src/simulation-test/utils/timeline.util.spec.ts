@@ -0,0 +1,46 @@
+import { buildTimeline } from './timeline.util'
+
+describe('timeline.util', () => {
+  it('should group events into fixed-size buckets', () => {
+    const startMs = Date.parse('2024-01-01T00:00:00Z')
+
+    const timeline = buildTimeline({
+      startMs,
+      bucketMs: 1000,
+      sentTimestamps: [startMs + 100, startMs + 200, startMs + 2500],
+      processed: [
+        { timestampMs: startMs + 300, latencyMs: 200 },
+        { timestampMs: startMs + 2600, latencyMs: 100 },
+      ],
+      failureTimestamps: [startMs + 1500],
+    })
+
+    expect(timeline).toHaveLength(3)
+    expect(timeline[0]).toEqual({
+      bucketStart: '2024-01-01T00:00:00.000Z',
+      offsetMs: 0,
+      sent: 2,
+      processed: 1,
+      failed: 0,
+      meanLatencyMs: 200,
+      p95LatencyMs: 200,
+    })
+    expect(timeline[1]).toMatchObject({ offsetMs: 1000, sent: 0, processed: 0, failed: 1 })
+    expect(timeline[2]).toMatchObject({ offsetMs: 2000, sent: 1, processed: 1, meanLatencyMs: 100 })
+  })
+
+  it('should return an empty timeline when there are no events', () => {
+    expect(
+      buildTimeline({ startMs: 0, bucketMs: 1000, sentTimestamps: [], processed: [], failureTimestamps: [] }),
+    ).toEqual([])
+  })
+
+  it('should handle more events than fit in a call stack', () => {
+    const sentTimestamps = Array.from({ length: 500_000 }, (_, index) => index % 10_000)
+
+    const timeline = buildTimeline({ startMs: 0, bucketMs: 1000, sentTimestamps, processed: [], failureTimestamps: [] })
+
+    expect(timeline).toHaveLength(10)
+    expect(timeline[9].sent).toBe(50_000)
+  })
+})
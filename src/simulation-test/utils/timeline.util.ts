@@ -0,0 +1,76 @@
+import { percentile } from './latency-stats.util'
+
+export interface TimelineBucket {
+  bucketStart: string
+  offsetMs: number
+  sent: number
+  processed: number
+  failed: number
+  meanLatencyMs: number
+  p95LatencyMs: number
+}
+
+export interface TimelineInput {
+  startMs: number
+  bucketMs: number
+  sentTimestamps: number[]
+  processed: { timestampMs: number; latencyMs: number }[]
+  failureTimestamps: number[]
+}
+
+/**
+ * Groups sent, processed and failed messages into fixed-size time buckets relative to `startMs`.
+ * Events that happened before `startMs` are counted in the first bucket.
+ * @returns One bucket per interval from the start up to the last recorded event, empty buckets included.
+ */
+export function buildTimeline({
+  startMs,
+  bucketMs,
+  sentTimestamps,
+  processed,
+  failureTimestamps,
+}: TimelineInput): TimelineBucket[] {
+  const indexOf = (timestampMs: number) => Math.max(Math.floor((timestampMs - startMs) / bucketMs), 0)
+  const allIndexes = [
+    ...sentTimestamps.map(indexOf),
+    ...processed.map(({ timestampMs }) => indexOf(timestampMs)),
+    ...failureTimestamps.map(indexOf),
+  ]
+
+  if (allIndexes.length === 0) {
+    return []
+  }
+
+  // Reduced rather than spread into Math.max, which exceeds the call stack for large tests
+  const lastIndex = allIndexes.reduce((max, index) => Math.max(max, index), 0)
+  const buckets = Array.from({ length: lastIndex + 1 }, (_, index) => ({
+    sent: 0,
+    processed: 0,
+    failed: 0,
+    latencies: [] as number[],
+    index,
+  }))
+
+  sentTimestamps.forEach((timestampMs) => buckets[indexOf(timestampMs)].sent++)
+  failureTimestamps.forEach((timestampMs) => buckets[indexOf(timestampMs)].failed++)
+  processed.forEach(({ timestampMs, latencyMs }) => {
+    const bucket = buckets[indexOf(timestampMs)]
+    bucket.processed++
+    bucket.latencies.push(latencyMs)
+  })
+
+  return buckets.map(({ index, sent, processed: processedCount, failed, latencies }) => {
+    const sorted = latencies.sort((a, b) => a - b)
+    const mean = sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0
+
+    return {
+      bucketStart: new Date(startMs + index * bucketMs).toISOString(),
+      offsetMs: index * bucketMs,
+      sent,
+      processed: processedCount,
+      failed,
+      meanLatencyMs: Math.round(mean),
+      p95LatencyMs: percentile(sorted, 95),
+    }
+  })
+}
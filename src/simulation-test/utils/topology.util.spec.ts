@@ -0,0 +1,50 @@
+import { buildTopology } from './topology.util'
+
+describe('topology.util', () => {
+  const agentIds = ['A-1', 'A-2', 'A-3', 'A-4']
+
+  it('should build a full mesh by default', () => {
+    const plan = buildTopology(agentIds)
+
+    expect(plan.connections).toHaveLength(6)
+    expect(plan.targets['A-1']).toEqual(['A-2', 'A-3', 'A-4'])
+  })
+
+  it('should build a star around the first agent', () => {
+    const plan = buildTopology(agentIds, 'star')
+
+    expect(plan.connections).toEqual([
+      ['A-1', 'A-2'],
+      ['A-1', 'A-3'],
+      ['A-1', 'A-4'],
+    ])
+    expect(plan.targets['A-1']).toEqual(['A-2', 'A-3', 'A-4'])
+    expect(plan.targets['A-3']).toEqual(['A-1'])
+  })
+
+  it('should build a ring', () => {
+    const plan = buildTopology(agentIds, 'ring')
+
+    expect(plan.connections).toHaveLength(4)
+    expect(plan.targets['A-1'].sort()).toEqual(['A-2', 'A-4'])
+  })
+
+  it('should build a random graph with the requested degree', () => {
+    const plan = buildTopology(['A-1', 'A-2', 'A-3', 'A-4', 'A-5', 'A-6'], 'random', 2)
+
+    Object.values(plan.targets).forEach((targets) => expect(targets.length).toBeGreaterThanOrEqual(2))
+    plan.connections.forEach(([from, to]) => expect(from).not.toBe(to))
+  })
+
+  it('should build disjoint sender to receiver pairs', () => {
+    const plan = buildTopology([...agentIds, 'A-5'], 'pairs')
+
+    expect(plan.connections).toEqual([
+      ['A-1', 'A-2'],
+      ['A-3', 'A-4'],
+    ])
+    expect(plan.targets['A-1']).toEqual(['A-2'])
+    expect(plan.targets['A-2']).toEqual([])
+    expect(plan.targets['A-5']).toEqual([])
+  })
+})
@@ -0,0 +1,78 @@
+export const TOPOLOGIES = ['full-mesh', 'star', 'ring', 'random', 'pairs'] as const
+
+export type Topology = (typeof TOPOLOGIES)[number]
+
+export interface TopologyPlan {
+  /** Connections (DID exchanges) to establish, one per agent pair. */
+  connections: [string, string][]
+  /** Agents each agent is allowed to send messages to. */
+  targets: Record<string, string[]>
+}
+
+/**
+ * Builds the connections and allowed message targets of a topology.
+ * - `full-mesh`: every agent connects to and messages every other agent.
+ * - `star`: the first agent is a hub connected to every other agent.
+ * - `ring`: each agent connects to its previous and next neighbour.
+ * - `random`: random graph where each agent has at least `degree` neighbours (when possible).
+ * - `pairs`: disjoint sender→receiver pairs; receivers do not send.
+ * @param agentIds - List of agent IDs.
+ * @param topology - Topology to build.
+ * @param degree - Minimum number of neighbours per agent for the `random` topology.
+ * @param random - Source of uniformly distributed numbers in [0, 1).
+ */
+export function buildTopology(
+  agentIds: string[],
+  topology: Topology = 'full-mesh',
+  degree = 2,
+  random: () => number = Math.random,
+): TopologyPlan {
+  const targets: Record<string, string[]> = Object.fromEntries(agentIds.map((agentId) => [agentId, []]))
+  const connections: [string, string][] = []
+  const connect = (from: string, to: string, bidirectional = true) => {
+    if (from === to || targets[from].includes(to) || targets[to].includes(from)) {
+      return
+    }
+    connections.push([from, to])
+    targets[from].push(to)
+    if (bidirectional) {
+      targets[to].push(from)
+    }
+  }
+
+  switch (topology) {
+    case 'star':
+      agentIds.slice(1).forEach((agentId) => connect(agentIds[0], agentId))
+      break
+    case 'ring':
+      agentIds.forEach((agentId, index) => connect(agentId, agentIds[(index + 1) % agentIds.length]))
+      break
+    case 'random': {
+      const targetDegree = Math.min(Math.max(degree, 1), agentIds.length - 1)
+      agentIds.forEach((agentId) => {
+        while (targets[agentId].length < targetDegree) {
+          const candidates = agentIds.filter(
+            (candidate) => candidate !== agentId && !targets[agentId].includes(candidate),
+          )
+          if (candidates.length === 0) {
+            break
+          }
+          // Prefer candidates that still need neighbours to keep degrees balanced
+          const needy = candidates.filter((candidate) => targets[candidate].length < targetDegree)
+          const pool = needy.length ? needy : candidates
+          connect(agentId, pool[Math.floor(random() * pool.length)])
+        }
+      })
+      break
+    }
+    case 'pairs':
+      for (let i = 0; i + 1 < agentIds.length; i += 2) {
+        connect(agentIds[i], agentIds[i + 1], false)
+      }
+      break
+    default:
+      agentIds.forEach((from, i) => agentIds.slice(i + 1).forEach((to) => connect(from, to)))
+  }
+
+  return { connections, targets }
+}
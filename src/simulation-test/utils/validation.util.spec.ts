@@ -0,0 +1,29 @@
+import { formatValidationErrors } from './validation.util'
+
+describe('validation.util', () => {
+  it('should prefix each constraint with the path of its property', () => {
+    const errors = [
+      { property: 'name', constraints: { isString: 'name must be a string' }, children: [] },
+      {
+        property: 'phases',
+        children: [
+          {
+            property: '1',
+            children: [
+              {
+                property: 'rate',
+                constraints: { min: 'rate must not be less than 0.1', isNumber: 'rate must be a number' },
+              },
+            ],
+          },
+        ],
+      },
+    ]
+
+    expect(formatValidationErrors(errors)).toEqual([
+      'name: name must be a string',
+      'phases[1].rate: rate must not be less than 0.1',
+      'phases[1].rate: rate must be a number',
+    ])
+  })
+})
@@ -0,0 +1,43 @@
+import { plainToInstance } from 'class-transformer'
+import { validate, ValidationError } from 'class-validator'
+import { ScenarioDto } from '../dto/scenario.dto'
+import { checkScenarioConsistency, parseScenarioDocument } from './scenario.util'
+
+/**
+ * Flattens class-validator errors into one message per failed constraint, prefixed with the path of the
+ * property (`phases[2].rate: rate must not be less than 0.1`).
+ */
+export function formatValidationErrors(errors: ValidationError[], prefix = ''): string[] {
+  return errors.flatMap((error) => {
+    const property = /^\d+$/.test(error.property)
+      ? `${prefix}[${error.property}]`
+      : `${prefix ? `${prefix}.` : ''}${error.property}`
+    const own = Object.values(error.constraints || {}).map((message) => `${property}: ${message}`)
+    return [...own, ...formatValidationErrors(error.children || [], property)]
+  })
+}
+
+/**
+ * Parses and validates a scenario document (YAML or JSON text, or a parsed object).
+ * @returns The scenario, or the list of errors prefixed with the path of the offending field.
+ */
+export async function validateScenarioDocument(
+  document: unknown,
+): Promise<{ scenario?: ScenarioDto; errors: string[] }> {
+  let parsed: unknown
+  try {
+    parsed = parseScenarioDocument(document)
+  } catch (error) {
+    return { errors: [error.message] }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['Invalid scenario document: expected an object with version, name, agents and phases'] }
+  }
+
+  const scenario = plainToInstance(ScenarioDto, parsed)
+  const validationErrors = await validate(scenario, { whitelist: true, forbidNonWhitelisted: true })
+  const errors = validationErrors.length ? formatValidationErrors(validationErrors) : checkScenarioConsistency(scenario)
+
+  return errors.length ? { errors } : { scenario, errors }
+}
@@ -1,8 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { MediatorPickupStrategy, WsOutboundTransport } from '@credo-ts/core'
 import { TenantsService } from './tenants.service'
 import { AgentFactory } from '../lib/agents/agent.factory'
 import Redis from 'ioredis'
 import { ConfigService } from '@nestjs/config'
+import { TracingService } from '../tracing/tracing.service'
 
 jest.mock('@openwallet-foundation/askar-nodejs', () => ({ ariesAskar: {} }))
 
@@ -48,6 +50,7 @@ describe('TenantsService', () => {
         { provide: AgentFactory, useValue: agentFactoryMock },
         { provide: 'default_IORedisModuleConnectionToken', useValue: redisMock },
         { provide: ConfigService, useValue: configServiceMock },
+        { provide: TracingService, useValue: new TracingService({ get: () => undefined } as unknown as ConfigService) },
       ],
     }).compile()
 
@@ -64,10 +67,18 @@ describe('TenantsService', () => {
 
       const result = await service.createTenant(tenantId)
 
-      expect(agentFactoryMock.createAgent).toHaveBeenCalledWith(tenantId)
+      expect(agentFactoryMock.createAgent).toHaveBeenCalledWith(tenantId, undefined)
       expect(result).toEqual({ status: `Tenant ${tenantId} created successfully` })
     })
 
+    it('should pass the pickup options to the agent factory', async () => {
+      const options = { pickupStrategy: MediatorPickupStrategy.PickUpV2, pollingIntervalMs: 1000 }
+
+      await service.createTenant('PollingTenant', options)
+
+      expect(agentFactoryMock.createAgent).toHaveBeenCalledWith('PollingTenant', options)
+    })
+
     it('should throw an error if tenant already exists', async () => {
       const tenantId = 'ExistingTenant'
       service['tenants'][tenantId] = { agent: {} as any }
@@ -118,6 +129,20 @@ describe('TenantsService', () => {
     })
   })
 
+  describe('listLiveTenants', () => {
+    it('should leave out suspended and disconnected tenants', () => {
+      service['tenants'] = {
+        Tenant1: { agent: {} as any },
+        Tenant2: { agent: {} as any, suspended: true },
+        Tenant3: { agent: {} as any, disconnected: true },
+      }
+
+      expect(service.listLiveTenants()).toEqual(['Tenant1'])
+      expect(service.isTenantLive('Tenant2')).toBe(false)
+      expect(service.isTenantLive('Missing')).toBe(false)
+    })
+  })
+
   describe('createConnection', () => {
     it('should create a new connection if none exists', async () => {
       const fromTenantId = 'Tenant1'
@@ -166,6 +191,84 @@ describe('TenantsService', () => {
     })
   })
 
+  describe('sendMessage', () => {
+    it('should store the recorded content instead of the sent message', async () => {
+      const fromAgentMock = {
+        config: { label: 'Tenant1' },
+        connections: {
+          getAll: jest.fn().mockResolvedValue([{ id: 'conn-1', theirLabel: 'Tenant2', state: 'completed' }]),
+        },
+        basicMessages: { sendMessage: jest.fn().mockResolvedValue({ threadId: 'thread-1' }) },
+      }
+      service['tenants']['Tenant1'] = { agent: fromAgentMock as any }
+      service['tenants']['Tenant2'] = { agent: { config: { label: 'Tenant2' } } as any }
+      const payload = 'x'.repeat(4096)
+
+      await service.sendMessage('Tenant1', 'Tenant2', payload, 'test-uuid', { payloadBytes: 4096 }, 'Header')
+
+      expect(fromAgentMock.basicMessages.sendMessage).toHaveBeenCalledWith('conn-1', payload)
+      const record = JSON.parse((redisMock.set as jest.Mock).mock.calls[0][1])
+      expect((redisMock.set as jest.Mock).mock.calls[0][0]).toBe('message:test-uuid:thread-1')
+      expect(record).toMatchObject({ message: 'Header', payloadBytes: 4096, threadId: 'thread-1' })
+    })
+  })
+
+  describe('suspendTenant and resumeTenant', () => {
+    it('should shut the agent down and recreate it with the same options on resume', async () => {
+      const tenantId = 'OfflineTenant'
+      const options = { pickupStrategy: MediatorPickupStrategy.PickUpV2 }
+      const mockAgent = { shutdown: jest.fn().mockResolvedValue(undefined) }
+      service['tenants'][tenantId] = { agent: mockAgent as any, options }
+
+      await service.suspendTenant(tenantId)
+
+      expect(mockAgent.shutdown).toHaveBeenCalled()
+      expect(service['tenants'][tenantId].suspended).toBe(true)
+
+      await service.resumeTenant(tenantId)
+
+      expect(agentFactoryMock.createAgent).toHaveBeenCalledWith(tenantId, options)
+      expect(service['tenants'][tenantId].suspended).toBe(false)
+      expect(service['tenants'][tenantId].agent).not.toBe(mockAgent)
+    })
+
+    it('should refuse to resume a tenant that is online', async () => {
+      service['tenants']['OnlineTenant'] = { agent: {} as any }
+
+      await expect(service.resumeTenant('OnlineTenant')).rejects.toThrowError('Tenant OnlineTenant is not suspended')
+    })
+  })
+
+  describe('disconnectTenant and reconnectTenant', () => {
+    it('should stop pickup and transports, then restart them on reconnect', async () => {
+      const tenantId = 'ChurnTenant'
+      const transport = { stop: jest.fn() }
+      const mockAgent = {
+        outboundTransports: [transport],
+        unregisterOutboundTransport: jest.fn().mockResolvedValue(undefined),
+        registerOutboundTransport: jest.fn(),
+        mediationRecipient: {
+          stopMessagePickup: jest.fn().mockResolvedValue(undefined),
+          initiateMessagePickup: jest.fn().mockResolvedValue(undefined),
+        },
+      }
+      service['tenants'][tenantId] = { agent: mockAgent as any }
+
+      await service.disconnectTenant(tenantId)
+
+      expect(mockAgent.mediationRecipient.stopMessagePickup).toHaveBeenCalled()
+      expect(mockAgent.unregisterOutboundTransport).toHaveBeenCalledWith(transport)
+      await expect(service.disconnectTenant(tenantId)).rejects.toThrowError(`Tenant ${tenantId} is already offline`)
+
+      jest.spyOn(WsOutboundTransport.prototype, 'start').mockResolvedValue(undefined)
+      await service.reconnectTenant(tenantId)
+
+      expect(mockAgent.registerOutboundTransport).toHaveBeenCalledWith(expect.any(WsOutboundTransport))
+      expect(mockAgent.mediationRecipient.initiateMessagePickup).toHaveBeenCalled()
+      expect(service['tenants'][tenantId].disconnected).toBe(false)
+    })
+  })
+
   describe('deleteTenant', () => {
     it('should delete a tenant successfully', async () => {
       const tenantId = 'TestTenant'
@@ -184,6 +287,23 @@ describe('TenantsService', () => {
       expect(result).toEqual({ status: `Tenant ${tenantId} has been successfully deleted` })
     })
 
+    it('should reopen the wallet of a suspended tenant before deleting it', async () => {
+      const tenantId = 'SuspendedTenant'
+      const walletConfig = { id: 'WALLET_SuspendedTenant', key: 'KEY_SuspendedTenant' }
+      const mockAgent = {
+        shutdown: jest.fn(),
+        config: { walletConfig },
+        wallet: { open: jest.fn().mockResolvedValue(undefined), delete: jest.fn().mockResolvedValue(true) },
+      }
+      service['tenants'][tenantId] = { agent: mockAgent as any, suspended: true }
+
+      await service.deleteTenant(tenantId)
+
+      expect(mockAgent.shutdown).not.toHaveBeenCalled()
+      expect(mockAgent.wallet.open).toHaveBeenCalledWith(walletConfig)
+      expect(mockAgent.wallet.delete).toHaveBeenCalled()
+    })
+
     it('should throw an error if tenant does not exist', async () => {
       const tenantId = 'NonExistentTenant'
 
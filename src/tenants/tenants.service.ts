@@ -1,29 +1,35 @@
 import { Injectable, Logger } from '@nestjs/common'
-import { Agent } from '@credo-ts/core'
+import { Agent, WsOutboundTransport } from '@credo-ts/core'
 import { AgentFactory } from '../lib/agents/agent.factory'
+import { AgentOptions } from '../lib/agents/agent.options'
 import { InjectRedis } from '@nestjs-modules/ioredis'
 import Redis from 'ioredis'
 import { ConfigService } from '@nestjs/config'
+import { TracingService } from '../tracing/tracing.service'
 
 @Injectable()
 export class TenantsService {
-  private tenants: Record<string, { agent: Agent<any> }> = {}
+  private tenants: Record<
+    string,
+    { agent: Agent<any>; options?: AgentOptions; suspended?: boolean; disconnected?: boolean }
+  > = {}
   private readonly logger = new Logger(TenantsService.name)
 
   constructor(
     private readonly agentFactory: AgentFactory,
     @InjectRedis() private readonly redisClient: Redis,
     private readonly configService: ConfigService,
+    private readonly tracingService: TracingService,
   ) {}
 
   /**
    * Creates a new tenant with the specified configuration.
    * @param tenantId The unique ID of the tenant.
-   * @param config The configuration settings for the tenant.
+   * @param options Optional agent settings (mediator pickup strategy and polling interval).
    * @returns An object containing the creation status.
    * @throws Error if the tenant already exists.
    */
-  async createTenant(tenantId: string): Promise<{ status: string }> {
+  async createTenant(tenantId: string, options?: AgentOptions): Promise<{ status: string }> {
     if (this.tenants[tenantId]) {
       this.logger.error(`[createTenant] Tenant ${tenantId} already exists`)
       throw new Error(`[createTenant] Tenant ${tenantId} already exists`)
@@ -36,8 +42,12 @@ export class TenantsService {
       throw new Error(message)
     }
 
-    const agent = await this.agentFactory.createAgent(tenantId)
-    this.tenants[tenantId] = { agent }
+    const agent = await this.tracingService.withSpan(
+      'agent.create',
+      { 'tenant.id': tenantId, 'mediator.pickup_strategy': options?.pickupStrategy ?? '' },
+      () => this.agentFactory.createAgent(tenantId, options),
+    )
+    this.tenants[tenantId] = { agent, options }
     this.logger.log(`[createTenant] Tenant ${tenantId} created successfully`)
     return { status: `Tenant ${tenantId} created successfully` }
   }
@@ -65,6 +75,22 @@ export class TenantsService {
     return Object.keys(this.tenants)
   }
 
+  /**
+   * Lists the tenants that are online, i.e. neither suspended nor disconnected.
+   * @returns An array of tenant IDs.
+   */
+  listLiveTenants(): string[] {
+    return Object.keys(this.tenants).filter((tenantId) => this.isTenantLive(tenantId))
+  }
+
+  /**
+   * Returns true if a tenant exists and is online, i.e. neither suspended nor disconnected.
+   */
+  isTenantLive(tenantId: string): boolean {
+    const tenant = this.tenants[tenantId]
+    return !!tenant && !tenant.suspended && !tenant.disconnected
+  }
+
   /**
    * Creates a connection between two tenants.
    * @param fromTenantId The sender tenant ID.
@@ -79,7 +105,11 @@ export class TenantsService {
     const connectionExists = await this.hasExistingConnection(fromAgent, toAgent)
     return connectionExists
       ? { status: `Connection between ${fromTenantId} and ${toTenantId} already exists.` }
-      : await this.createNewConnection(fromAgent, toAgent, fromTenantId, toTenantId)
+      : await this.tracingService.withSpan(
+          'connection.create',
+          { 'connection.from_tenant': fromTenantId, 'connection.to_tenant': toTenantId },
+          () => this.createNewConnection(fromAgent, toAgent, fromTenantId, toTenantId),
+        )
   }
 
   /**
@@ -105,6 +135,10 @@ export class TenantsService {
    * @param fromTenantId The sender tenant ID.
    * @param toTenantId The receiver tenant ID.
    * @param message The message content.
+   * @param testId Optional ID of the test the message belongs to.
+   * @param metadata Optional extra fields stored with the message record (e.g. intended send time).
+   * @param recordedMessage Optional content stored in the message record instead of the message itself
+   * (e.g. only the header of a large payload).
    * @returns An object containing the message status and response.
    * @throws Error if the message cannot be sent.
    */
@@ -113,6 +147,8 @@ export class TenantsService {
     toTenantId: string,
     message: string,
     testId?: string,
+    metadata?: Record<string, any>,
+    recordedMessage: string = message,
   ): Promise<{ status: string; response: any }> {
     const fromAgent = this.getTenantAgent(fromTenantId)
     const toAgent = this.getTenantAgent(toTenantId)
@@ -120,11 +156,28 @@ export class TenantsService {
     const connection = await this.getActiveConnection(fromAgent, toAgent)
 
     try {
-      const response = await fromAgent.basicMessages.sendMessage(connection.id, message)
+      const { response, traceContext } = await this.tracingService.withSpan(
+        'message.send',
+        { 'test.id': testId ?? '', 'message.from_tenant': fromTenantId, 'message.to_tenant': toTenantId },
+        async (span) => {
+          const response = await fromAgent.basicMessages.sendMessage(connection.id, message)
+          span.setAttribute('message.thread_id', response.threadId)
+          return { response, traceContext: this.tracingService.getTraceContext(span) }
+        },
+      )
       const threadId = response.threadId
       const timestamp = new Date().toISOString()
 
-      const messageRecord = { testId, fromTenantId, toTenantId, message, timestamp, threadId }
+      const messageRecord = {
+        ...metadata,
+        ...traceContext,
+        testId,
+        fromTenantId,
+        toTenantId,
+        message: recordedMessage,
+        timestamp,
+        threadId,
+      }
       const messageKey = testId ? `message:${testId}:${threadId}` : `message:${threadId}`
 
       await this.redisClient.set(messageKey, JSON.stringify(messageRecord))
@@ -139,6 +192,127 @@ export class TenantsService {
     }
   }
 
+  /**
+   * Takes a tenant offline: shuts its agent down (closing the mediator connection) but keeps its wallet,
+   * so the mediator queues the messages sent to it.
+   * @param tenantId The unique ID of the tenant.
+   * @returns An object containing the suspension status.
+   * @throws Error if the tenant does not exist or is already suspended.
+   */
+  async suspendTenant(tenantId: string): Promise<{ status: string }> {
+    const tenant = this.tenants[tenantId]
+    if (!tenant) {
+      this.logger.error(`[suspendTenant] Tenant ${tenantId} does not exist`)
+      throw new Error(`Tenant ${tenantId} does not exist`)
+    }
+    if (tenant.suspended) {
+      throw new Error(`Tenant ${tenantId} is already suspended`)
+    }
+    if (tenant.disconnected) {
+      throw new Error(`Tenant ${tenantId} is already offline`)
+    }
+
+    try {
+      await tenant.agent.shutdown()
+      tenant.suspended = true
+      this.logger.log(`[suspendTenant] Tenant ${tenantId} suspended`)
+      return { status: `Tenant ${tenantId} suspended` }
+    } catch (error) {
+      this.logger.error(`[suspendTenant] Failed to suspend tenant ${tenantId}: ${error.message}`)
+      throw new Error(`Failed to suspend tenant ${tenantId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Brings a suspended tenant back online with a new agent on the same wallet, so it keeps its keys,
+   * connections and mediation and picks up the messages queued while it was offline.
+   * @param tenantId The unique ID of the tenant.
+   * @returns An object containing the resume status.
+   * @throws Error if the tenant does not exist or is not suspended.
+   */
+  async resumeTenant(tenantId: string): Promise<{ status: string }> {
+    const tenant = this.tenants[tenantId]
+    if (!tenant) {
+      this.logger.error(`[resumeTenant] Tenant ${tenantId} does not exist`)
+      throw new Error(`Tenant ${tenantId} does not exist`)
+    }
+    if (!tenant.suspended) {
+      throw new Error(`Tenant ${tenantId} is not suspended`)
+    }
+
+    try {
+      tenant.agent = await this.agentFactory.createAgent(tenantId, tenant.options)
+      tenant.suspended = false
+      this.logger.log(`[resumeTenant] Tenant ${tenantId} resumed`)
+      return { status: `Tenant ${tenantId} resumed` }
+    } catch (error) {
+      this.logger.error(`[resumeTenant] Failed to resume tenant ${tenantId}: ${error.message}`)
+      throw new Error(`Failed to resume tenant ${tenantId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Drops the tenant's connection to the mediator: stops message pickup and unregisters its outbound
+   * transports, as a wallet losing its WebSocket would. The agent and its wallet stay open.
+   * @param tenantId The unique ID of the tenant.
+   * @returns An object containing the disconnection status.
+   * @throws Error if the tenant does not exist or is already disconnected.
+   */
+  async disconnectTenant(tenantId: string): Promise<{ status: string }> {
+    const tenant = this.tenants[tenantId]
+    if (!tenant) {
+      this.logger.error(`[disconnectTenant] Tenant ${tenantId} does not exist`)
+      throw new Error(`Tenant ${tenantId} does not exist`)
+    }
+    if (tenant.disconnected || tenant.suspended) {
+      throw new Error(`Tenant ${tenantId} is already offline`)
+    }
+
+    try {
+      await tenant.agent.mediationRecipient.stopMessagePickup()
+      for (const transport of [...tenant.agent.outboundTransports]) {
+        await tenant.agent.unregisterOutboundTransport(transport)
+      }
+      tenant.disconnected = true
+      this.logger.log(`[disconnectTenant] Tenant ${tenantId} disconnected`)
+      return { status: `Tenant ${tenantId} disconnected` }
+    } catch (error) {
+      this.logger.error(`[disconnectTenant] Failed to disconnect tenant ${tenantId}: ${error.message}`)
+      throw new Error(`Failed to disconnect tenant ${tenantId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Reconnects a disconnected tenant: registers and starts a new outbound transport and restarts message
+   * pickup, so the messages queued by the mediator meanwhile are delivered.
+   * @param tenantId The unique ID of the tenant.
+   * @returns An object containing the reconnection status.
+   * @throws Error if the tenant does not exist or is not disconnected.
+   */
+  async reconnectTenant(tenantId: string): Promise<{ status: string }> {
+    const tenant = this.tenants[tenantId]
+    if (!tenant) {
+      this.logger.error(`[reconnectTenant] Tenant ${tenantId} does not exist`)
+      throw new Error(`Tenant ${tenantId} does not exist`)
+    }
+    if (!tenant.disconnected) {
+      throw new Error(`Tenant ${tenantId} is not disconnected`)
+    }
+
+    try {
+      const transport = new WsOutboundTransport()
+      tenant.agent.registerOutboundTransport(transport)
+      await transport.start(tenant.agent)
+      await tenant.agent.mediationRecipient.initiateMessagePickup()
+      tenant.disconnected = false
+      this.logger.log(`[reconnectTenant] Tenant ${tenantId} reconnected`)
+      return { status: `Tenant ${tenantId} reconnected` }
+    } catch (error) {
+      this.logger.error(`[reconnectTenant] Failed to reconnect tenant ${tenantId}: ${error.message}`)
+      throw new Error(`Failed to reconnect tenant ${tenantId}: ${error.message}`)
+    }
+  }
+
   /**
    * Deletes a tenant and cleans up associated resources.
    * @param tenantId The unique ID of the tenant.
@@ -153,7 +327,12 @@ export class TenantsService {
     }
 
     try {
-      await tenant.agent.shutdown()
+      if (tenant.suspended) {
+        // The agent is already shut down; reopen its wallet so it can be deleted
+        await tenant.agent.wallet.open(tenant.agent.config.walletConfig)
+      } else {
+        await tenant.agent.shutdown()
+      }
       await tenant.agent.wallet.delete()
       delete this.tenants[tenantId]
       this.logger.log(`[deleteTenant] Tenant ${tenantId} deleted successfully`)
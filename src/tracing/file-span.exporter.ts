@@ -0,0 +1,59 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core'
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+
+/**
+ * Span exporter for offline runs: appends every span to a file as one JSON object per line.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private pendingWrite: Promise<void> = Promise.resolve()
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map((span) => `${JSON.stringify(toJsonSpan(span))}\n`).join('')
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => fs.promises.appendFile(this.filePath, lines))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error) => resultCallback({ code: ExportResultCode.FAILED, error }),
+      )
+  }
+
+  async shutdown(): Promise<void> {
+    await this.pendingWrite
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.pendingWrite
+  }
+}
+
+/**
+ * Flattens a span into a JSON-friendly object with ISO timestamps and durations in milliseconds.
+ */
+export function toJsonSpan(span: ReadableSpan): Record<string, any> {
+  const { traceId, spanId } = span.spanContext()
+  const startTimeMs = hrTimeToMilliseconds(span.startTime)
+
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    startTime: new Date(startTimeMs).toISOString(),
+    endTime: new Date(hrTimeToMilliseconds(span.endTime)).toISOString(),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: span.status,
+    attributes: span.attributes,
+    events: span.events.map((event) => ({
+      name: event.name,
+      time: new Date(hrTimeToMilliseconds(event.time)).toISOString(),
+      attributes: event.attributes,
+    })),
+  }
+}
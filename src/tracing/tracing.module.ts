@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common'
+import { TracingService } from './tracing.service'
+
+/**
+ * Global so agents, tenants and simulations can record spans without importing it.
+ */
+@Global()
+@Module({
+  providers: [TracingService],
+  exports: [TracingService],
+})
+export class TracingModule {}
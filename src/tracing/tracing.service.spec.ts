@@ -0,0 +1,77 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ConfigService } from '@nestjs/config'
+import { TracingService } from './tracing.service'
+
+describe('TracingService', () => {
+  const configService = (config: Record<string, string>) =>
+    ({ get: jest.fn((key: string) => config[key.replace('appConfig.', '')]) }) as unknown as ConfigService
+
+  it('should run the function without exporting spans when tracing is disabled', async () => {
+    const service = new TracingService(configService({}))
+
+    const result = await service.withSpan('message.send', {}, async (span) => service.getTraceContext(span))
+
+    expect(result).toBeUndefined()
+  })
+
+  describe('with the file exporter', () => {
+    let filePath: string
+    let service: TracingService
+
+    const exportedSpans = async () => {
+      await service.onModuleDestroy()
+      return fs
+        .readFileSync(filePath, 'utf8')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+    }
+
+    beforeEach(() => {
+      filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'traces-')), 'spans.jsonl')
+      service = new TracingService(configService({ tracingExporter: 'file', tracingFilePath: filePath }))
+    })
+
+    it('should nest spans started inside an active span and record errors', async () => {
+      await service.withSpan('agent.create', { 'tenant.id': 'Agent-1' }, () =>
+        service
+          .withSpan('mediation.setup', { 'tenant.id': 'Agent-1' }, async () => {
+            throw new Error('Mediation refused')
+          })
+          .catch(() => undefined),
+      )
+
+      const spans = await exportedSpans()
+      const parent = spans.find((span) => span.name === 'agent.create')
+      const child = spans.find((span) => span.name === 'mediation.setup')
+      expect(child).toMatchObject({ parentSpanId: parent.spanId, traceId: parent.traceId })
+      expect(child.status).toEqual({ code: 2, message: 'Mediation refused' })
+      expect(child.events[0].name).toBe('exception')
+    })
+
+    it('should record a delivery span in the trace of the send span', async () => {
+      const traceContext = await service.withSpan('message.send', { 'test.id': 'test-1' }, async (span) =>
+        service.getTraceContext(span),
+      )
+
+      service.recordSpan('message.deliver', {
+        startTime: new Date('2024-01-01T00:00:00.000Z'),
+        endTime: new Date('2024-01-01T00:00:00.250Z'),
+        attributes: { 'test.id': 'test-1', 'message.thread_id': 'thread-1' },
+        parent: traceContext,
+        events: [{ name: 'message.received', time: new Date('2024-01-01T00:00:00.200Z') }],
+      })
+
+      const deliver = (await exportedSpans()).find((span) => span.name === 'message.deliver')
+      expect(deliver).toMatchObject({
+        traceId: traceContext.traceId,
+        parentSpanId: traceContext.spanId,
+        durationMs: 250,
+        attributes: { 'test.id': 'test-1', 'message.thread_id': 'thread-1' },
+        events: [{ name: 'message.received', time: '2024-01-01T00:00:00.200Z' }],
+      })
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  Attributes,
+  Span,
+  SpanStatusCode,
+  TraceFlags,
+  Tracer,
+  context,
+  isSpanContextValid,
+  trace,
+} from '@opentelemetry/api'
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'
+import { Resource } from '@opentelemetry/resources'
+import { BatchSpanProcessor, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node'
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions'
+import { FileSpanExporter } from './file-span.exporter'
+
+const TRACER_NAME = 'didcomm-mediator-testing'
+
+/**
+ * Trace and span IDs stored with a message record, so spans recorded when it is processed join its trace.
+ */
+export interface TraceContext {
+  traceId: string
+  spanId: string
+}
+
+/**
+ * OpenTelemetry tracing of the agent and message lifecycle. Spans are exported over OTLP/HTTP or to a local
+ * file depending on `TRACING_EXPORTER`; with `none` (default) every span is a no-op.
+ */
+@Injectable()
+export class TracingService implements OnModuleDestroy {
+  private readonly logger = new Logger(TracingService.name)
+  private readonly provider?: NodeTracerProvider
+  private readonly tracer: Tracer
+
+  constructor(private readonly configService: ConfigService) {
+    const exporter = this.createExporter()
+    if (exporter) {
+      this.provider = new NodeTracerProvider({
+        resource: new Resource({ [ATTR_SERVICE_NAME]: TRACER_NAME }),
+        spanProcessors: [new BatchSpanProcessor(exporter)],
+      })
+      // Registers the async context manager, so spans started inside another one become its children
+      this.provider.register()
+    }
+    this.tracer = (this.provider ?? trace.getTracerProvider()).getTracer(TRACER_NAME)
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.provider?.shutdown()
+  }
+
+  /**
+   * Runs a function inside a new active span, recording its error (if any) before ending the span.
+   */
+  async withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+    return this.tracer.startActiveSpan(name, { attributes }, async (span) => {
+      try {
+        return await fn(span)
+      } catch (error) {
+        span.recordException(error)
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message })
+        throw error
+      } finally {
+        span.end()
+      }
+    })
+  }
+
+  /**
+   * Adds an event to the active span, if any.
+   */
+  addEvent(name: string, attributes?: Attributes): void {
+    trace.getActiveSpan()?.addEvent(name, attributes)
+  }
+
+  /**
+   * Returns the IDs of a span to store with a message, or undefined when tracing is disabled.
+   */
+  getTraceContext(span: Span): TraceContext | undefined {
+    const spanContext = span.spanContext()
+    return isSpanContextValid(spanContext) ? { traceId: spanContext.traceId, spanId: spanContext.spanId } : undefined
+  }
+
+  /**
+   * Records a span that already happened, e.g. the delivery of a message from its send until it was processed.
+   * @param options.parent - Span the recorded one belongs to, usually the send span stored with the message.
+   * @param options.events - Timed events of the span (e.g. when the message was received).
+   */
+  recordSpan(
+    name: string,
+    options: {
+      startTime: Date
+      endTime: Date
+      attributes: Attributes
+      parent?: TraceContext
+      events?: { name: string; time: Date; attributes?: Attributes }[]
+    },
+  ): void {
+    const parentContext = options.parent
+      ? trace.setSpanContext(context.active(), {
+          ...options.parent,
+          traceFlags: TraceFlags.SAMPLED,
+          isRemote: true,
+        })
+      : context.active()
+
+    const span = this.tracer.startSpan(
+      name,
+      { startTime: options.startTime, attributes: options.attributes },
+      parentContext,
+    )
+    options.events?.forEach((event) => span.addEvent(event.name, event.attributes, event.time))
+    span.end(options.endTime)
+  }
+
+  private createExporter(): SpanExporter | undefined {
+    const exporter = this.configService.get<string>('appConfig.tracingExporter') ?? 'none'
+
+    switch (exporter) {
+      case 'none':
+        return undefined
+      case 'otlp': {
+        const endpoint = this.configService.get<string>('appConfig.otlpEndpoint')
+        this.logger.log(`[tracing] Exporting spans over OTLP to ${endpoint}`)
+        return new OTLPTraceExporter({ url: `${endpoint.replace(/\/$/, '')}/v1/traces` })
+      }
+      case 'file': {
+        const filePath = this.configService.get<string>('appConfig.tracingFilePath')
+        this.logger.log(`[tracing] Exporting spans to ${filePath}`)
+        return new FileSpanExporter(filePath)
+      }
+      default:
+        this.logger.warn(`[tracing] Unknown tracing exporter "${exporter}", tracing disabled`)
+        return undefined
+    }
+  }
+}